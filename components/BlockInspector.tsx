@@ -31,13 +31,13 @@ export default function BlockInspector({ block, onClose, onSelectTransaction }:
   // Fetch chunk details
   const { data: chunkDetails = {}, isLoading: chunkLoading } = useQuery({
     queryKey: block ? createChunkDetailsKey(block.header.height) : ["disabled"],
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       if (!block) return {};
 
       const details: Record<string, any> = {};
       for (const chunk of block.chunks) {
         try {
-          const chunkData = await nearRpc.getChunk(chunk.chunk_hash);
+          const chunkData = await nearRpc.getChunk(chunk.chunk_hash, { signal });
           details[chunk.chunk_hash] = {
             transactions: Array.isArray(chunkData.transactions) ? chunkData.transactions.length : 0,
             receipts: Array.isArray(chunkData.receipts) ? chunkData.receipts.length : 0,
@@ -0,0 +1,40 @@
+import type { HealthSample } from "@/lib/healthMonitor";
+
+interface HealthSparklineProps {
+  samples: HealthSample[];
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Latency of recent health probes as a bar sparkline, oldest on the left.
+ * Failed probes are drawn as full-height red bars.
+ */
+export default function HealthSparkline({ samples, width = 120, height = 20 }: HealthSparklineProps) {
+  if (samples.length === 0) return null;
+
+  const maxLatency = Math.max(1, ...samples.filter((s) => s.ok).map((s) => s.latencyMs));
+  const barWidth = width / samples.length;
+
+  return (
+    <svg width={width} height={height} className="shrink-0" role="img" aria-label="Probe latency history">
+      {samples.map((sample, index) => {
+        const barHeight = sample.ok ? Math.max(2, (sample.latencyMs / maxLatency) * height) : height;
+        return (
+          <rect
+            key={index}
+            x={index * barWidth}
+            y={height - barHeight}
+            width={Math.max(1, barWidth - 1)}
+            height={barHeight}
+            className={sample.ok ? "fill-near-green" : "fill-red-500"}
+          >
+            <title>
+              {new Date(sample.at).toLocaleTimeString()} · {sample.ok ? `${sample.latencyMs}ms` : sample.error ?? "failed"}
+            </title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,59 @@
+import { useState } from "react";
+
+interface JsonViewerProps {
+  value: unknown;
+  // Nesting levels expanded initially (default 1)
+  expandDepth?: number;
+}
+
+function JsonNode({ name, value, depth, expandDepth }: { name?: string; value: unknown; depth: number; expandDepth: number }) {
+  const [expanded, setExpanded] = useState(depth < expandDepth);
+  const label = name !== undefined && <span className="text-near-purple">{name}: </span>;
+
+  if (value === null || typeof value !== "object") {
+    const color =
+      typeof value === "string" ? "text-near-green" : typeof value === "number" ? "text-near-cyan" : "text-muted-foreground";
+    return (
+      <div className="break-all">
+        {label}
+        <span className={color}>{JSON.stringify(value) ?? "undefined"}</span>
+      </div>
+    );
+  }
+
+  const entries = Array.isArray(value) ? value.map((item, i) => [String(i), item] as const) : Object.entries(value);
+  const [open, close] = Array.isArray(value) ? ["[", "]"] : ["{", "}"];
+
+  return (
+    <div>
+      <button type="button" onClick={() => setExpanded(!expanded)} className="text-left hover:text-near-green">
+        <span className="inline-block w-3 text-muted-foreground">{expanded ? "▾" : "▸"}</span>
+        {label}
+        {open}
+        {!expanded && <span className="text-muted-foreground"> {entries.length} items </span>}
+        {!expanded && close}
+      </button>
+      {expanded && (
+        <>
+          <div className="pl-4 border-l border-border ml-1">
+            {entries.map(([key, item]) => (
+              <JsonNode key={key} name={key} value={item} depth={depth + 1} expandDepth={expandDepth} />
+            ))}
+          </div>
+          <div>{close}</div>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Collapsible JSON tree
+ */
+export default function JsonViewer({ value, expandDepth = 1 }: JsonViewerProps) {
+  return (
+    <div className="font-mono text-xs text-foreground">
+      <JsonNode value={value} depth={0} expandDepth={expandDepth} />
+    </div>
+  );
+}
@@ -2,6 +2,8 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Transaction } from "@/lib/nearRpcFailover";
 import { nearRpc } from "@/lib/nearRpcFailover";
 import { Link } from "wouter";
+import { getActionKind, isKnownAction } from "@/lib/nearRpcTypes";
+import NearAmount from "@/components/NearAmount";
 
 interface LatestTransactionCardProps {
   transaction: Transaction;
@@ -26,14 +28,10 @@ export default function LatestTransactionCard({ transaction }: LatestTransaction
     }
 
     const action = transaction.actions[0];
-    const actionKeys = Object.keys(action);
-    if (actionKeys.length === 0) return { type: 'Unknown', amount: null };
-
-    const actionType = actionKeys[0];
+    const actionType = getActionKind(action);
     
-    if (actionType === 'Transfer') {
-      const amount = nearRpc.formatNear(action[actionType].deposit || '0');
-      return { type: 'Transfer', amount };
+    if (typeof action !== 'string' && isKnownAction(action) && 'Transfer' in action) {
+      return { type: 'Transfer', amount: action.Transfer.deposit || '0' };
     } else if (actionType === 'FunctionCall') {
       return { type: 'Function Call', amount: null };
     } else if (actionType === 'CreateAccount') {
@@ -118,7 +116,7 @@ export default function LatestTransactionCard({ transaction }: LatestTransaction
             </div>
             {amount && (
               <div className="text-xs font-mono font-semibold text-near-cyan">
-                {amount} NEAR
+                <NearAmount yocto={amount} />
               </div>
             )}
           </div>
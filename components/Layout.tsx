@@ -3,10 +3,23 @@ import { Link, useLocation } from "wouter";
 import ThemeToggle from "./ThemeToggle";
 import { Input } from "./ui/input";
 import { useState } from "react";
+import { providerManager } from "@/lib/providerManager";
+import { useFinality, useNetworks, useSelectedNetwork } from "@/lib/nearQueries";
+import { FINALITIES, Finality } from "@/lib/nearRpcTypes";
+
+const FINALITY_LABELS: Record<Finality, string> = {
+  optimistic: "Optimistic",
+  "near-final": "Near-final",
+  final: "Final",
+};
 
 export default function Layout({ children }: { children: React.ReactNode }) {
   const [searchQuery, setSearchQuery] = useState("");
   const [, setLocation] = useLocation();
+  const finality = useFinality();
+  const networks = useNetworks();
+  const selectedNetwork = useSelectedNetwork();
+  const networkColor = networks.find((network) => network.id === selectedNetwork)?.color;
 
   const handleSearch = () => {
     if (searchQuery.trim()) {
@@ -53,6 +66,9 @@ export default function Layout({ children }: { children: React.ReactNode }) {
               <Link href="/transactions">
                 <Button variant="ghost" className="hover:text-near-green">Transactions</Button>
               </Link>
+              <Link href="/broadcast">
+                <Button variant="ghost" className="hover:text-near-green">Broadcast</Button>
+              </Link>
               <Link href="/settings">
                 <Button variant="ghost" className="hover:text-near-green">Settings</Button>
               </Link>
@@ -77,6 +93,37 @@ export default function Layout({ children }: { children: React.ReactNode }) {
             </Button>
           </div>
 
+          {/* Network switcher - switching also applies the network's default finality */}
+          <div className="flex items-center gap-2">
+            <span className="h-2.5 w-2.5 shrink-0 rounded-full" style={{ backgroundColor: networkColor }} />
+            <select
+              value={selectedNetwork}
+              onChange={(e) => providerManager.setSelectedNetwork(e.target.value)}
+              title="Network the explorer reads from"
+              className="h-9 rounded-md border border-border bg-background px-2 text-sm text-foreground"
+            >
+              {networks.map((network) => (
+                <option key={network.id} value={network.id}>
+                  {network.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Finality of "latest" reads - optimistic shows blocks as soon as they are produced */}
+          <select
+            value={finality}
+            onChange={(e) => providerManager.setFinality(e.target.value as Finality)}
+            title="Finality used for the latest block and account/contract reads"
+            className="h-9 rounded-md border border-border bg-background px-2 text-sm text-foreground"
+          >
+            {FINALITIES.map((level) => (
+              <option key={level} value={level}>
+                {FINALITY_LABELS[level]}
+              </option>
+            ))}
+          </select>
+
           <ThemeToggle />
         </div>
       </nav>
@@ -0,0 +1,23 @@
+import { FormatAmountOptions, yoctoToNear, yoctoToNearExact } from "@/lib/nearUnits";
+
+interface NearAmountProps extends FormatAmountOptions {
+  yocto: bigint | string;
+  // Append the "NEAR" unit (default true)
+  showUnit?: boolean;
+  className?: string;
+}
+
+/**
+ * A rounded NEAR amount; hovering shows the exact value and the raw yoctoNEAR.
+ */
+export default function NearAmount({ yocto, showUnit = true, className, ...options }: NearAmountProps) {
+  return (
+    <span
+      className={className}
+      title={`${yoctoToNearExact(yocto)} NEAR (${yocto.toString()} yoctoNEAR)`}
+    >
+      {yoctoToNear(yocto, options)}
+      {showUnit && " NEAR"}
+    </span>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { NetworkDefinition, NetworkType } from "@/lib/providerManager";
+import { FINALITIES, Finality } from "@/lib/nearRpcTypes";
+
+type NetworkFields = Omit<NetworkDefinition, "id" | "builtIn">;
+
+interface NetworkEditorProps {
+  networks: NetworkDefinition[];
+  onAdd: (network: NetworkFields) => void;
+  onUpdate: (id: NetworkType, changes: NetworkFields) => void;
+  onRemove: (network: NetworkDefinition) => void;
+}
+
+const NEW_NETWORK: NetworkFields = { name: "", chainId: "", color: "#06b6d4", finality: "final" };
+
+// Empty chain id means "any chain no other network claims"
+const toFields = (draft: NetworkFields): NetworkFields => ({
+  name: draft.name.trim(),
+  chainId: draft.chainId?.trim() || undefined,
+  color: draft.color,
+  finality: draft.finality,
+});
+
+interface NetworkRowProps {
+  value: NetworkFields;
+  onChange: (value: NetworkFields) => void;
+}
+
+function NetworkRow({ value, onChange }: NetworkRowProps) {
+  return (
+    <>
+      <input
+        type="color"
+        value={value.color}
+        onChange={(e) => onChange({ ...value, color: e.target.value })}
+        title="Network color"
+        className="h-8 w-8 shrink-0 cursor-pointer rounded border border-border bg-background"
+      />
+      <Input
+        placeholder="Display name"
+        value={value.name}
+        onChange={(e) => onChange({ ...value, name: e.target.value })}
+        className="h-8 flex-1 border-border bg-background text-xs"
+      />
+      <Input
+        placeholder="Expected chain_id (any)"
+        value={value.chainId ?? ""}
+        onChange={(e) => onChange({ ...value, chainId: e.target.value })}
+        className="h-8 w-44 border-border bg-background font-mono text-xs"
+      />
+      <select
+        value={value.finality}
+        onChange={(e) => onChange({ ...value, finality: e.target.value as Finality })}
+        title="Finality applied when switching to this network"
+        className="h-8 rounded-md border border-border bg-background px-2 text-xs text-foreground"
+      >
+        {FINALITIES.map((level) => (
+          <option key={level} value={level}>
+            {level}
+          </option>
+        ))}
+      </select>
+    </>
+  );
+}
+
+/**
+ * Lists the network registry with inline editing, plus a form for new networks.
+ * Built-in networks can be renamed and recolored but not deleted.
+ */
+export default function NetworkEditor({ networks, onAdd, onUpdate, onRemove }: NetworkEditorProps) {
+  const [drafts, setDrafts] = useState<Record<NetworkType, NetworkFields>>({});
+  const [newNetwork, setNewNetwork] = useState<NetworkFields>(NEW_NETWORK);
+
+  const setDraft = (id: NetworkType, value: NetworkFields | undefined) =>
+    setDrafts((current) => {
+      const { [id]: _, ...rest } = current;
+      return value ? { ...rest, [id]: value } : rest;
+    });
+
+  const handleAdd = () => {
+    onAdd(toFields(newNetwork));
+    setNewNetwork(NEW_NETWORK);
+  };
+
+  return (
+    <div className="space-y-2">
+      {networks.map((network) => {
+        const draft = drafts[network.id];
+        return (
+          <div key={network.id} className="flex flex-wrap items-center gap-2">
+            <NetworkRow value={draft ?? network} onChange={(value) => setDraft(network.id, value)} />
+            <span className="w-24 truncate font-mono text-xs text-muted-foreground" title={`Id: ${network.id}`}>
+              {network.id}
+            </span>
+            {draft ? (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    onUpdate(network.id, toFields(draft));
+                    setDraft(network.id, undefined);
+                  }}
+                  disabled={!draft.name.trim()}
+                  className="h-8 border-near-green text-xs text-near-green hover:bg-near-green hover:text-white"
+                >
+                  Save
+                </Button>
+                <Button variant="ghost" onClick={() => setDraft(network.id, undefined)} className="h-8 text-xs">
+                  Cancel
+                </Button>
+              </>
+            ) : (
+              !network.builtIn && (
+                <Button variant="ghost" onClick={() => onRemove(network)} className="h-8 px-2 text-xs text-red-500">
+                  Delete
+                </Button>
+              )
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap items-center gap-2 border-t border-border pt-3">
+        <NetworkRow value={newNetwork} onChange={setNewNetwork} />
+        <Button
+          variant="outline"
+          onClick={handleAdd}
+          disabled={!newNetwork.name.trim()}
+          className="h-8 border-near-cyan text-xs text-near-cyan hover:bg-near-cyan hover:text-white"
+        >
+          + Add network
+        </Button>
+      </div>
+    </div>
+  );
+}
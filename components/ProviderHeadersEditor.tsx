@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { isSecretHeader } from "@/lib/providerManager";
+
+interface ProviderHeadersEditorProps {
+  headers: Record<string, string> | undefined;
+  onSave: (headers: Record<string, string>) => void;
+  onCancel: () => void;
+}
+
+interface HeaderRow {
+  name: string;
+  value: string;
+}
+
+/**
+ * Edits the custom headers (API keys, bearer tokens) sent to one provider.
+ * Values of secret headers (see isSecretHeader) stay masked unless revealed.
+ */
+export default function ProviderHeadersEditor({ headers, onSave, onCancel }: ProviderHeadersEditorProps) {
+  const [rows, setRows] = useState<HeaderRow[]>(() =>
+    Object.entries(headers ?? {}).map(([name, value]) => ({ name, value }))
+  );
+  const [revealed, setRevealed] = useState(false);
+
+  const updateRow = (index: number, row: Partial<HeaderRow>) =>
+    setRows((current) => current.map((r, i) => (i === index ? { ...r, ...row } : r)));
+
+  const names = rows.map((row) => row.name.trim().toLowerCase()).filter(Boolean);
+  const invalid = rows.find((row) => row.name.trim() && !/^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/.test(row.name.trim()));
+  const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+
+  const handleSave = () => {
+    onSave(
+      Object.fromEntries(rows.filter((row) => row.name.trim()).map((row) => [row.name.trim(), row.value]))
+    );
+  };
+
+  return (
+    <div className="mt-3 space-y-2 border-t border-border pt-3">
+      {rows.map((row, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            placeholder="Header name (e.g. x-api-key)"
+            value={row.name}
+            onChange={(e) => updateRow(index, { name: e.target.value })}
+            className="h-8 w-56 border-border bg-background font-mono text-xs"
+          />
+          <Input
+            type={isSecretHeader(row.name) && !revealed ? "password" : "text"}
+            placeholder="Value"
+            value={row.value}
+            onChange={(e) => updateRow(index, { value: e.target.value })}
+            autoComplete="off"
+            className="h-8 flex-1 border-border bg-background font-mono text-xs"
+          />
+          <Button
+            variant="ghost"
+            onClick={() => setRows((current) => current.filter((_, i) => i !== index))}
+            className="h-8 px-2 text-xs text-red-500"
+          >
+            ✕
+          </Button>
+        </div>
+      ))}
+      {rows.length === 0 && <div className="text-xs text-muted-foreground">No custom headers</div>}
+      {invalid && <div className="text-xs text-red-500">"{invalid.name}" is not a valid header name</div>}
+      {duplicate && <div className="text-xs text-red-500">Header "{duplicate}" is set twice</div>}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant="outline"
+          onClick={() => setRows((current) => [...current, { name: "", value: "" }])}
+          className="h-8 text-xs"
+        >
+          + Add header
+        </Button>
+        <Button variant="ghost" onClick={() => setRevealed(!revealed)} className="h-8 text-xs">
+          {revealed ? "Hide values" : "Show values"}
+        </Button>
+        <div className="ml-auto flex gap-2">
+          <Button variant="ghost" onClick={onCancel} className="h-8 text-xs">
+            Cancel
+          </Button>
+          <Button
+            variant="outline"
+            onClick={handleSave}
+            disabled={Boolean(invalid || duplicate)}
+            className="h-8 border-near-green text-xs text-near-green hover:bg-near-green hover:text-white"
+          >
+            Save headers
+          </Button>
+        </div>
+      </div>
+      <div className="text-xs text-muted-foreground">
+        Values of authorization, key and token headers are masked and left out of configuration exports.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { RateLimitConfig } from "@/lib/providerManager";
+
+interface ProviderRateLimitEditorProps {
+  rateLimit: Partial<RateLimitConfig> | undefined;
+  // Global limits, used for the fields left empty
+  defaults: RateLimitConfig;
+  onSave: (rateLimit: Partial<RateLimitConfig>) => void;
+  onCancel: () => void;
+}
+
+const toNumber = (value: string): number | undefined => (value.trim() === "" ? undefined : Number(value));
+
+/**
+ * Edits one provider's rate limit override. Empty fields follow the global
+ * Rate Limiting settings.
+ */
+export default function ProviderRateLimitEditor({ rateLimit, defaults, onSave, onCancel }: ProviderRateLimitEditorProps) {
+  const [requestsPerSecond, setRequestsPerSecond] = useState(rateLimit?.requestsPerSecond?.toString() ?? "");
+  const [burst, setBurst] = useState(rateLimit?.burst?.toString() ?? "");
+
+  const values = { requestsPerSecond: toNumber(requestsPerSecond), burst: toNumber(burst) };
+  const invalid = Object.values(values).some((value) => value !== undefined && (isNaN(value) || value < 0));
+
+  return (
+    <div className="mt-3 space-y-2 border-t border-border pt-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-2 text-xs text-foreground">
+          Requests per second
+          <Input
+            type="number"
+            min={0}
+            placeholder={`${defaults.requestsPerSecond} (global)`}
+            value={requestsPerSecond}
+            onChange={(e) => setRequestsPerSecond(e.target.value)}
+            className="h-8 w-32 border-border bg-background text-xs"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-xs text-foreground">
+          Burst size
+          <Input
+            type="number"
+            min={1}
+            placeholder={`${defaults.burst} (global)`}
+            value={burst}
+            onChange={(e) => setBurst(e.target.value)}
+            className="h-8 w-32 border-border bg-background text-xs"
+          />
+        </label>
+        <div className="ml-auto flex gap-2">
+          <Button variant="ghost" onClick={onCancel} className="h-8 text-xs">
+            Cancel
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => onSave(values)}
+            disabled={invalid}
+            className="h-8 border-near-green text-xs text-near-green hover:bg-near-green hover:text-white"
+          >
+            Save limits
+          </Button>
+        </div>
+      </div>
+      {invalid && <div className="text-xs text-red-500">Limits must be non-negative numbers</div>}
+      <div className="text-xs text-muted-foreground">
+        Empty fields use the global Rate Limiting settings. 0 requests per second turns pacing off for this provider.
+      </div>
+    </div>
+  );
+}
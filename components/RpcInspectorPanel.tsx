@@ -0,0 +1,253 @@
+import { useState, useSyncExternalStore } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import JsonViewer from "@/components/JsonViewer";
+import { useRpcTraffic } from "@/lib/nearQueries";
+import { isMutatingMethod, nearRpc } from "@/lib/nearRpcFailover";
+import { isSecretHeader, providerManager } from "@/lib/providerManager";
+import { RpcTrafficEntry, RpcTrafficStatus, rpcTraffic, toCurl } from "@/lib/rpcInspector";
+import { toast } from "@/lib/toast";
+
+const STATUS_STYLES: Record<RpcTrafficStatus, string> = {
+  pending: "text-muted-foreground",
+  success: "text-near-green",
+  error: "text-red-500",
+  aborted: "text-yellow-600",
+};
+
+const subscribeToTraffic = (onChange: () => void) => rpcTraffic.subscribe(onChange);
+
+// Result of replaying a request against another provider
+interface ReplayResult {
+  providerName: string;
+  latencyMs: number;
+  result?: unknown;
+  error?: string;
+}
+
+function EntryDetails({ entry }: { entry: RpcTrafficEntry }) {
+  const providers = providerManager.getAllProviders();
+  const [replayProviderId, setReplayProviderId] = useState(
+    () => providers.find((p) => p.id !== entry.providerId)?.id ?? entry.providerId
+  );
+  const [replay, setReplay] = useState<ReplayResult | null>(null);
+  const [replaying, setReplaying] = useState(false);
+  // Replaying a transaction submission would broadcast the signed transaction again
+  const replayBlocked = isMutatingMethod(entry.method);
+
+  const copyCurl = async () => {
+    const provider = providers.find((p) => p.id === entry.providerId);
+    const headers = provider ? providerManager.getRequestHeaders(provider) : {};
+    await navigator.clipboard.writeText(toCurl(entry, headers));
+    toast.success(
+      Object.keys(headers).some(isSecretHeader)
+        ? "Copied curl command - fill in the <...> placeholders of secret headers"
+        : "Copied curl command"
+    );
+  };
+
+  const handleReplay = async () => {
+    const provider = providers.find((p) => p.id === replayProviderId);
+    if (!provider) return;
+    setReplaying(true);
+    const startedAt = Date.now();
+    try {
+      const result = await nearRpc.callProvider(provider.id, entry.method, entry.params);
+      setReplay({ providerName: provider.name, latencyMs: Date.now() - startedAt, result });
+    } catch (err) {
+      setReplay({
+        providerName: provider.name,
+        latencyMs: Date.now() - startedAt,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    } finally {
+      setReplaying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" onClick={copyCurl} className="text-xs">
+          Copy as curl
+        </Button>
+        <select
+          value={replayProviderId}
+          onChange={(e) => setReplayProviderId(e.target.value)}
+          className="h-9 rounded-md border border-border bg-background px-2 text-xs text-foreground"
+        >
+          {providers.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+        <Button
+          variant="outline"
+          onClick={handleReplay}
+          disabled={replaying || replayBlocked}
+          title={replayBlocked ? "Transaction submissions are not replayed - that would broadcast the transaction again" : undefined}
+          className="text-xs"
+        >
+          {replaying ? "Replaying..." : "Replay"}
+        </Button>
+      </div>
+
+      <div className="text-xs text-muted-foreground break-all">
+        #{entry.id} · {entry.providerName} ({entry.url}) · {entry.transport}
+      </div>
+
+      <div>
+        <div className="font-semibold text-muted-foreground mb-1">Params</div>
+        <JsonViewer value={entry.params} expandDepth={2} />
+      </div>
+      <div>
+        <div className="font-semibold text-muted-foreground mb-1">Response</div>
+        {entry.status === "pending" && <div className="text-muted-foreground">Waiting...</div>}
+        {entry.error !== undefined && <div className="text-red-500 break-all">{entry.error}</div>}
+        {entry.status === "success" && <JsonViewer value={entry.result} />}
+      </div>
+
+      {replay && (
+        <div className="border-t border-border pt-3">
+          <div className="font-semibold text-muted-foreground mb-1">
+            Replay on {replay.providerName} ({replay.latencyMs}ms)
+          </div>
+          {replay.error !== undefined ? (
+            <div className="text-red-500 break-all">{replay.error}</div>
+          ) : (
+            <JsonViewer value={replay.result} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Developer panel listing the JSON-RPC traffic of the failover client
+ * (see lib/rpcInspector.ts). Opened from the floating "RPC" button.
+ */
+export default function RpcInspectorPanel() {
+  const entries = useRpcTraffic();
+  const recording = useSyncExternalStore(subscribeToTraffic, () => rpcTraffic.isRecording());
+  const [open, setOpen] = useState(false);
+  const [filter, setFilter] = useState("");
+  const [statusFilter, setStatusFilter] = useState<RpcTrafficStatus | "all">("all");
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="fixed bottom-4 right-4 z-50 rounded-full border border-border bg-card px-4 py-2 text-xs font-mono shadow-lg hover:border-near-green hover:text-near-green"
+        title="Open the RPC traffic inspector"
+      >
+        RPC · {entries.length}
+      </button>
+    );
+  }
+
+  const query = filter.trim().toLowerCase();
+  const visible = entries.filter(
+    (entry) =>
+      (statusFilter === "all" || entry.status === statusFilter) &&
+      (!query ||
+        entry.method.toLowerCase().includes(query) ||
+        entry.providerName.toLowerCase().includes(query) ||
+        entry.url.toLowerCase().includes(query))
+  );
+  const selected = entries.find((entry) => entry.id === selectedId);
+
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-50 h-[50vh] border-t border-border bg-card shadow-2xl flex flex-col">
+      <div className="flex flex-wrap items-center gap-2 border-b border-border px-4 py-2">
+        <span className="font-semibold text-foreground">RPC Traffic</span>
+        <Input
+          placeholder="Filter by method or provider..."
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          className="h-8 w-56 border-border bg-background text-xs"
+        />
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as RpcTrafficStatus | "all")}
+          className="h-8 rounded-md border border-border bg-background px-2 text-xs text-foreground"
+        >
+          <option value="all">All statuses</option>
+          <option value="pending">Pending</option>
+          <option value="success">Success</option>
+          <option value="error">Error</option>
+          <option value="aborted">Aborted</option>
+        </select>
+        <Button variant="ghost" onClick={() => rpcTraffic.setRecording(!recording)} className="text-xs">
+          {recording ? "⏸ Pause" : "⏺ Record"}
+        </Button>
+        <Button variant="ghost" onClick={() => rpcTraffic.clear()} className="text-xs">
+          Clear
+        </Button>
+        <span className="text-xs text-muted-foreground">
+          {visible.length} of {entries.length}
+        </span>
+        <Button variant="ghost" onClick={() => setOpen(false)} className="ml-auto text-xs">
+          ✕ Close
+        </Button>
+      </div>
+
+      <div className="flex flex-1 min-h-0">
+        <div className="w-1/2 overflow-y-auto border-r border-border">
+          <table className="w-full text-xs font-mono">
+            <thead className="sticky top-0 bg-card text-muted-foreground">
+              <tr className="text-left">
+                <th className="px-2 py-1">Time</th>
+                <th className="px-2 py-1">Method</th>
+                <th className="px-2 py-1">Provider</th>
+                <th className="px-2 py-1">Status</th>
+                <th className="px-2 py-1 text-right">Latency</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((entry) => (
+                <tr
+                  key={entry.id}
+                  onClick={() => setSelectedId(entry.id)}
+                  className={`cursor-pointer border-t border-border hover:bg-muted/50 ${
+                    entry.id === selectedId ? "bg-muted" : ""
+                  }`}
+                >
+                  <td className="px-2 py-1 text-muted-foreground">
+                    {new Date(entry.startedAt).toLocaleTimeString()}
+                  </td>
+                  <td className="px-2 py-1 text-foreground">{entry.method}</td>
+                  <td className="px-2 py-1 text-foreground">
+                    {entry.providerName}
+                    {entry.transport === "proxy" && <span className="ml-1 text-muted-foreground">(proxy)</span>}
+                    {entry.attempt > 1 && <span className="ml-1 text-yellow-600">retry {entry.attempt - 1}</span>}
+                    {entry.failover && <span className="ml-1 text-near-purple">failover</span>}
+                  </td>
+                  <td className={`px-2 py-1 ${STATUS_STYLES[entry.status]}`}>{entry.status}</td>
+                  <td className="px-2 py-1 text-right text-muted-foreground">
+                    {entry.latencyMs !== undefined ? `${entry.latencyMs}ms` : "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {visible.length === 0 && (
+            <div className="p-4 text-xs text-muted-foreground">
+              {recording ? "No requests recorded yet" : "Recording is paused"}
+            </div>
+          )}
+        </div>
+        <div className="w-1/2 overflow-y-auto p-4">
+          {selected ? (
+            <EntryDetails key={selected.id} entry={selected} />
+          ) : (
+            <div className="text-xs text-muted-foreground">Select a request to see its params and response</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
 import { Button } from "./ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { Transaction, nearRpc } from "@/lib/nearRpcFailover";
+import { Action, getActionKind, isKnownAction } from "@/lib/nearRpcTypes";
+import { formatGas } from "@/lib/nearUnits";
+import NearAmount from "./NearAmount";
 
 interface TransactionInspectorProps {
   transaction: Transaction | null;
@@ -8,6 +11,28 @@ interface TransactionInspectorProps {
   onBack?: () => void;
 }
 
+// Amounts carried by an action (deposit, stake, attached gas), if any
+function ActionAmounts({ action }: { action: Action }) {
+  if (typeof action === "string" || !isKnownAction(action)) return null;
+
+  if ("Transfer" in action) {
+    return <NearAmount yocto={action.Transfer.deposit} className="text-near-cyan" />;
+  }
+  if ("Stake" in action) {
+    return <NearAmount yocto={action.Stake.stake} className="text-near-cyan" />;
+  }
+  if ("FunctionCall" in action) {
+    const { method_name, gas, deposit } = action.FunctionCall;
+    return (
+      <span className="text-near-cyan">
+        {method_name}() · <span title={`${gas.toLocaleString()} gas`}>{formatGas(gas)}</span>
+        {deposit !== "0" && <> · <NearAmount yocto={deposit} /></>}
+      </span>
+    );
+  }
+  return null;
+}
+
 export default function TransactionInspector({
   transaction,
   onClose,
@@ -135,7 +160,12 @@ export default function TransactionInspector({
                     key={idx}
                     className="bg-muted p-3 rounded text-xs border border-border"
                   >
-                    <div className="font-semibold mb-1 text-near-green">Action {idx}</div>
+                    <div className="flex flex-wrap items-center gap-2 mb-1">
+                      <span className="font-semibold text-near-green">Action {idx} · {getActionKind(action)}</span>
+                      <span className="font-mono">
+                        <ActionAmounts action={action} />
+                      </span>
+                    </div>
                     <pre className="overflow-auto max-h-40 text-xs text-foreground">
                       {JSON.stringify(action, null, 2)}
                     </pre>
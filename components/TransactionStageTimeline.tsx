@@ -0,0 +1,45 @@
+import { TransactionTracker } from "@/lib/nearQueries";
+import { TX_EXECUTION_STATUSES, TxExecutionStatus } from "@/lib/nearRpcTypes";
+
+const STAGES: Record<TxExecutionStatus, { label: string; description: string }> = {
+  NONE: { label: "Received", description: "Known to the node, not in a block yet" },
+  INCLUDED: { label: "Included", description: "In a block that is not final yet" },
+  EXECUTED_OPTIMISTIC: { label: "Executed (optimistic)", description: "All receipts executed in non-final blocks" },
+  INCLUDED_FINAL: { label: "Included (final)", description: "The block with the transaction is final" },
+  EXECUTED: { label: "Executed", description: "Included in a final block and all receipts executed" },
+  FINAL: { label: "Final", description: "Every block with the transaction or its receipts is final" },
+};
+
+type TransactionStageTimelineProps = Pick<TransactionTracker, "stage" | "reachedAt" | "startedAt">;
+
+/**
+ * The wait_until stages of a transaction, with the time each one was reached
+ * (relative to when tracking started)
+ */
+export default function TransactionStageTimeline({ stage, reachedAt, startedAt }: TransactionStageTimelineProps) {
+  return (
+    <ol className="grid gap-3 sm:grid-cols-6">
+      {TX_EXECUTION_STATUSES.map((status) => {
+        const at = reachedAt[status];
+        const isCurrent = status === stage && status !== "FINAL";
+        return (
+          <li key={status} className="flex sm:flex-col gap-2" title={STAGES[status].description}>
+            <div className="flex items-center gap-2">
+              <span
+                className={`w-3 h-3 rounded-full flex-shrink-0 ${
+                  at !== undefined ? "bg-near-green" : "bg-muted border border-border"
+                } ${isCurrent ? "animate-pulse" : ""}`}
+              />
+              <span className={`text-sm font-semibold ${at !== undefined ? "text-foreground" : "text-muted-foreground"}`}>
+                {STAGES[status].label}
+              </span>
+            </div>
+            <span className="text-xs font-mono text-muted-foreground">
+              {at !== undefined ? `+${((at - startedAt) / 1000).toFixed(1)}s` : "—"}
+            </span>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
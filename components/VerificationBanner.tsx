@@ -0,0 +1,55 @@
+import { useVerificationReport } from "@/lib/nearQueries";
+
+interface VerificationBannerProps {
+  // Verification subject, e.g. readSubjects.block(height)
+  subject: string;
+}
+
+/**
+ * Shows the outcome of cross-provider verification for a read.
+ * Renders nothing unless verify mode checked this subject.
+ */
+export default function VerificationBanner({ subject }: VerificationBannerProps) {
+  const report = useVerificationReport(subject);
+
+  if (!report) return null;
+
+  const answered = report.answers.filter((answer) => answer.fingerprint !== undefined);
+  const disagreeing = report.answers.filter((answer) =>
+    report.disagreeingProviderIds.includes(answer.providerId)
+  );
+
+  if (disagreeing.length === 0) {
+    return (
+      <div className="text-xs text-near-green">
+        ✓ Verified by {answered.length} providers ({answered.map((answer) => answer.providerName).join(", ")})
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border-2 border-yellow-500/40 bg-yellow-500/10 p-4 space-y-2">
+      <div className="font-semibold text-yellow-600">⚠ Providers disagree about this data</div>
+      <div className="text-sm text-foreground-secondary">
+        The data shown is what the majority of {answered.length} providers returned. The following
+        provider{disagreeing.length !== 1 ? "s" : ""} returned something different and may be untrustworthy:
+      </div>
+      <ul className="text-sm space-y-1">
+        {disagreeing.map((answer) => (
+          <li key={answer.providerId} className="font-mono">
+            <span className="font-semibold text-foreground">{answer.providerName}</span>
+            <span className="text-muted-foreground">
+              {/* Block and chunk fingerprints are hashes; transaction outcomes are whole JSON documents */}
+              {" → "}{answer.fingerprint!.length <= 64 ? answer.fingerprint : "different execution outcome"}
+            </span>
+          </li>
+        ))}
+      </ul>
+      {report.answers.some((answer) => answer.error) && (
+        <div className="text-xs text-muted-foreground">
+          Did not answer: {report.answers.filter((answer) => answer.error).map((answer) => answer.providerName).join(", ")}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+/**
+ * AbortSignal helpers shared by the RPC layers
+ */
+
+/**
+ * Error to throw when a signal is aborted. Uses the signal's reason when present
+ * so callers can tell cancellation apart from failures.
+ */
+export function abortError(signal?: AbortSignal): unknown {
+  return signal?.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+}
+
+/**
+ * Whether an error represents a cancelled request (not a failure)
+ */
+export function isAbortError(error: unknown): boolean {
+  return (
+    (error instanceof DOMException && error.name === 'AbortError') ||
+    (error instanceof Error && error.name === 'AbortError')
+  );
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw abortError(signal);
+  }
+}
+
+export interface LinkedSignal {
+  signal: AbortSignal;
+  // True once the timeout (rather than the parent signal) aborted the request
+  timedOut: () => boolean;
+  // Clears the timer and parent listener - call when the request settles
+  cleanup: () => void;
+  // Abort the linked signal without touching the parent (e.g. to cancel a losing hedge)
+  abort: (reason?: unknown) => void;
+}
+
+/**
+ * Create a signal that aborts when the parent aborts or after `timeoutMs`
+ */
+export function linkSignal(parent?: AbortSignal, timeoutMs?: number): LinkedSignal {
+  const controller = new AbortController();
+  let didTimeout = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const onParentAbort = () => controller.abort(abortError(parent));
+
+  if (parent?.aborted) {
+    onParentAbort();
+  } else {
+    parent?.addEventListener('abort', onParentAbort, { once: true });
+  }
+
+  if (timeoutMs !== undefined && timeoutMs > 0 && timeoutMs !== Infinity) {
+    timer = setTimeout(() => {
+      didTimeout = true;
+      controller.abort(new DOMException(`Request timed out after ${timeoutMs}ms`, 'TimeoutError'));
+    }, timeoutMs);
+  }
+
+  return {
+    signal: controller.signal,
+    timedOut: () => didTimeout,
+    cleanup: () => {
+      if (timer) clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    },
+    abort: (reason?: unknown) => controller.abort(reason),
+  };
+}
+
+/**
+ * Abortable sleep - rejects with the abort error if the signal fires first
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
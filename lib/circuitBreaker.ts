@@ -0,0 +1,160 @@
+/**
+ * Per-provider Circuit Breaker
+ *
+ * Stops the failover client from hammering a provider that keeps failing:
+ *
+ *   closed ──(N consecutive failures)──▶ open ──(cool-down elapsed)──▶ half-open
+ *     ▲                                   ▲                              │
+ *     └──────────(probe succeeds)─────────┼──────────────────────────────┤
+ *                                         └───────(probe fails)──────────┘
+ *
+ * - closed: requests flow normally, failures are counted
+ * - open: the provider is skipped until the cool-down window has passed
+ * - half-open: a single `status` probe decides whether the provider comes back
+ *
+ * Thresholds are configured in Settings and stored by providerManager.
+ */
+
+import { providerManager } from './providerManager';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: number;
+  // When an open breaker becomes eligible for a half-open probe
+  retryAt?: number;
+}
+
+type CircuitListener = (providerId: string, status: CircuitBreakerStatus) => void;
+
+interface BreakerEntry {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: number;
+  probing: boolean;
+}
+
+class CircuitBreakerRegistry {
+  private breakers: Map<string, BreakerEntry> = new Map();
+  private listeners: CircuitListener[] = [];
+
+  constructor() {
+    providerManager.onProviderRemoved(provider => this.breakers.delete(provider.id));
+  }
+
+  /**
+   * Current state of a provider's breaker. An open breaker whose cool-down
+   * has elapsed moves to half-open here.
+   */
+  getState(providerId: string): CircuitState {
+    const entry = this.breakers.get(providerId);
+    if (!entry) return 'closed';
+
+    if (entry.state === 'open' && Date.now() >= this.retryAt(entry)) {
+      this.transition(providerId, entry, 'half-open');
+    }
+    return entry.state;
+  }
+
+  getStatus(providerId: string): CircuitBreakerStatus {
+    this.getState(providerId);
+    const entry = this.breakers.get(providerId);
+    return entry ? this.getStatusSnapshot(entry) : { state: 'closed', consecutiveFailures: 0 };
+  }
+
+  /**
+   * Claim the half-open probe for a provider. Only one caller gets `true`;
+   * everyone else keeps skipping the provider until the probe settles.
+   */
+  beginProbe(providerId: string): boolean {
+    const entry = this.breakers.get(providerId);
+    if (!entry || this.getState(providerId) !== 'half-open' || entry.probing) {
+      return false;
+    }
+    entry.probing = true;
+    return true;
+  }
+
+  // Release a claimed probe without a verdict (the caller went away)
+  cancelProbe(providerId: string): void {
+    const entry = this.breakers.get(providerId);
+    if (entry) entry.probing = false;
+  }
+
+  recordSuccess(providerId: string): void {
+    const entry = this.breakers.get(providerId);
+    if (!entry) return;
+
+    entry.probing = false;
+    entry.consecutiveFailures = 0;
+    if (entry.state !== 'closed') {
+      entry.openedAt = undefined;
+      this.transition(providerId, entry, 'closed');
+    }
+  }
+
+  recordFailure(providerId: string): void {
+    const entry = this.getEntry(providerId);
+    const { failureThreshold } = providerManager.getCircuitBreakerConfig();
+
+    entry.probing = false;
+    entry.consecutiveFailures++;
+
+    // A failed probe re-opens immediately; a closed breaker opens at the threshold
+    if (entry.state === 'half-open' || (entry.state === 'closed' && entry.consecutiveFailures >= failureThreshold)) {
+      entry.openedAt = Date.now();
+      this.transition(providerId, entry, 'open');
+    }
+  }
+
+  // Force a breaker closed (e.g. after a successful manual test in Settings)
+  reset(providerId: string): void {
+    this.recordSuccess(providerId);
+  }
+
+  subscribe(listener: CircuitListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private getEntry(providerId: string): BreakerEntry {
+    let entry = this.breakers.get(providerId);
+    if (!entry) {
+      entry = { state: 'closed', consecutiveFailures: 0, probing: false };
+      this.breakers.set(providerId, entry);
+    }
+    return entry;
+  }
+
+  private retryAt(entry: BreakerEntry): number {
+    return (entry.openedAt || 0) + providerManager.getCircuitBreakerConfig().cooldownMs;
+  }
+
+  private transition(providerId: string, entry: BreakerEntry, state: CircuitState): void {
+    entry.state = state;
+    const status = this.getStatusSnapshot(entry);
+    this.listeners.forEach(listener => {
+      try {
+        listener(providerId, status);
+      } catch (error) {
+        console.error('Error in circuit breaker listener:', error);
+      }
+    });
+  }
+
+  private getStatusSnapshot(entry: BreakerEntry): CircuitBreakerStatus {
+    return {
+      state: entry.state,
+      consecutiveFailures: entry.consecutiveFailures,
+      openedAt: entry.openedAt,
+      retryAt: entry.state === 'open' ? this.retryAt(entry) : undefined,
+    };
+  }
+}
+
+// Singleton instance
+export const circuitBreakers = new CircuitBreakerRegistry();
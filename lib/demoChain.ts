@@ -0,0 +1,789 @@
+/**
+ * Demo Chain
+ *
+ * A simulated NEAR network served in-process through the `demo://` transport,
+ * so the explorer works without any reachable node. The built-in "Demo Chain"
+ * localnet provider uses it; custom providers can pick another chain with
+ * `demo://chain?seed=7&interval=500` (block interval in ms).
+ *
+ * The chain is a pure function of its seed: block N always has the same hash,
+ * transactions and outcomes. The head advances with the clock - a new block
+ * every interval, counted from a fixed genesis time - so every tab sees the same
+ * chain and reloading keeps old links working. Blocks carry transfers, function
+ * calls with logs, account creations and some failing receipts; a transaction
+ * included at height N executes at N + 1.
+ *
+ * Block, chunk, transaction and receipt ids encode their height and index (see
+ * `makeId`), so any id can be looked up without an index.
+ *
+ * Answers status, block, chunk, tx, EXPERIMENTAL_tx_status, EXPERIMENTAL_receipt,
+ * query, gas_price and EXPERIMENTAL_genesis_config.
+ */
+
+import { JsonRpcReply, JsonRpcRequest, VirtualTransport, jsonRpcTransport, rpcProxy } from './rpcProxy';
+import { base58Decode, base58Encode } from './signedTransaction';
+import { LruCache } from './lruCache';
+import { sleep } from './abortSignals';
+import type {
+  Action,
+  Block,
+  BlockHeader,
+  Chunk,
+  ChunkHeader,
+  ExecutionOutcomeWithId,
+  ExecutionStatus,
+  ReceiptView,
+  SignedTransactionView,
+  TxExecutionError,
+  TxExecutionStatus,
+} from './nearRpcTypes';
+
+const DEFAULT_SEED = 42;
+const DEFAULT_BLOCK_INTERVAL_MS = 1000;
+const GENESIS_HEIGHT = 1000;
+const GENESIS_TIME_MS = Date.UTC(2025, 0, 1);
+const CHAIN_ID = 'demo';
+const PROTOCOL_VERSION = 73;
+const NUM_SHARDS = 2;
+const EPOCH_LENGTH = 600;
+const GAS_PRICE = 100_000_000n;
+const CHUNK_GAS_LIMIT = 1_000_000_000_000_000;
+const TOTAL_SUPPLY = '2500000000000000000000000000000000';
+const EMPTY_HASH = '11111111111111111111111111111111';
+const ONE_NEAR = 10n ** 24n;
+// "\0asm" header of an empty wasm module
+const WASM_STUB_BASE64 = 'AGFzbQEAAAA=';
+
+const USERS = ['alice', 'bob', 'carol', 'dave', 'erin', 'frank'].map(name => `${name}.demo.near`);
+const VALIDATORS = ['alpha', 'bravo', 'charlie'].map(name => `${name}.pool.demo.near`);
+const TOKEN = 'token.demo.near';
+const NFT = 'nft.demo.near';
+const DAO = 'dao.demo.near';
+const CONTRACTS = [TOKEN, NFT, DAO];
+const NEW_ACCOUNT_PREFIXES = ['vault', 'app', 'game', 'wallet'];
+const MISSING_ACCOUNT_PREFIXES = ['old', 'typo', 'ghost'];
+
+type IdKind = 'block' | 'chunk' | 'tx' | 'receipt' | 'epoch';
+const ID_KINDS: IdKind[] = ['block', 'chunk', 'tx', 'receipt', 'epoch'];
+
+// 32-bit FNV-1a
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32, seeded from the given parts
+class Random {
+  private state: number;
+
+  constructor(...parts: (string | number)[]) {
+    this.state = hashString(parts.join('|'));
+  }
+
+  next(): number {
+    let t = (this.state = (this.state + 0x6d2b79f5) | 0);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Inclusive range
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  bytes(length: number): Uint8Array {
+    return Uint8Array.from({ length }, () => Math.floor(this.next() * 256));
+  }
+}
+
+// Thrown by the handlers - becomes a JSON-RPC error in nearcore's format
+class DemoRpcError extends Error {
+  constructor(
+    readonly causeName: string,
+    readonly detail: string,
+    readonly info: Record<string, unknown> = {},
+    readonly type = 'HANDLER_ERROR',
+    readonly code = -32000
+  ) {
+    super(detail);
+  }
+
+  toReply(): JsonRpcReply {
+    return {
+      error: {
+        name: this.type,
+        cause: { name: this.causeName, info: this.info },
+        code: this.code,
+        message: this.code === -32601 ? 'Method not found' : 'Server error',
+        data: this.detail,
+      },
+    };
+  }
+}
+
+type DemoTransactionKind = 'transfer' | 'call' | 'create-account' | 'failed-transfer' | 'failed-call';
+
+interface DemoTransaction {
+  kind: DemoTransactionKind;
+  height: number;
+  view: SignedTransactionView;
+  shard: number;
+  receipt: ReceiptView;
+  receiptShard: number;
+  transactionGas: number;
+  receiptGas: number;
+  logs: string[];
+  status: ExecutionStatus;
+  createdAccount?: string;
+}
+
+function shardOf(accountId: string): number {
+  return hashString(accountId) % NUM_SHARDS;
+}
+
+function base64Json(value: unknown): string {
+  return btoa(JSON.stringify(value));
+}
+
+function tokensBurnt(gas: number): string {
+  return (BigInt(gas) * GAS_PRICE).toString();
+}
+
+function eventLog(standard: string, event: string, data: unknown): string {
+  return `EVENT_JSON:${JSON.stringify({ standard, version: '1.0.0', event, data: [data] })}`;
+}
+
+function actionError(kind: Record<string, unknown>): TxExecutionError {
+  return { ActionError: { index: 0, kind } };
+}
+
+class DemoChain {
+  private transactions = new LruCache<number, DemoTransaction[]>(2000);
+  readonly transport: VirtualTransport;
+
+  constructor(private readonly seed: number, private readonly intervalMs: number) {
+    this.transport = jsonRpcTransport((request, signal) => this.handle(request, signal));
+  }
+
+  // Latest produced block
+  head(): number {
+    return GENESIS_HEIGHT + Math.max(0, Math.floor((Date.now() - GENESIS_TIME_MS) / this.intervalMs));
+  }
+
+  private timeOf(height: number): number {
+    return GENESIS_TIME_MS + (height - GENESIS_HEIGHT) * this.intervalMs;
+  }
+
+  /**
+   * 32 random-looking bytes whose first 8 hold the kind, index and height,
+   * masked with bytes derived from the other 24 so they can be recovered
+   */
+  private makeId(kind: IdKind, height: number, index = 0): string {
+    const bytes = new Random(this.seed, 'id', kind, height, index).bytes(32);
+    const head = [ID_KINDS.indexOf(kind), index >> 8, index & 0xff];
+    for (let shift = 4; shift >= 0; shift--) {
+      head.push(Math.floor(height / 2 ** (8 * shift)) & 0xff);
+    }
+    const mask = new Random(this.seed, 'mask', bytes.subarray(8).join(',')).bytes(8);
+    head.forEach((byte, i) => { bytes[i] = byte ^ mask[i]; });
+    return base58Encode(bytes);
+  }
+
+  private parseId(id: unknown, kind: IdKind): { height: number; index: number } | null {
+    if (typeof id !== 'string') return null;
+    const bytes = base58Decode(id);
+    if (!bytes || bytes.length !== 32) return null;
+
+    const mask = new Random(this.seed, 'mask', bytes.subarray(8).join(',')).bytes(8);
+    const head = bytes.subarray(0, 8).map((byte, i) => byte ^ mask[i]);
+    if (head[0] !== ID_KINDS.indexOf(kind)) return null;
+    const index = (head[1] << 8) | head[2];
+    let height = 0;
+    for (let i = 3; i < 8; i++) height = height * 256 + head[i];
+
+    // Reject look-alikes that are not ids of this chain
+    return this.makeId(kind, height, index) === id ? { height, index } : null;
+  }
+
+  private blockHash(height: number): string {
+    return height < GENESIS_HEIGHT ? EMPTY_HASH : this.makeId('block', height);
+  }
+
+  private randomHash(...parts: (string | number)[]): string {
+    return base58Encode(new Random(this.seed, 'hash', ...parts).bytes(32));
+  }
+
+  private randomSignature(...parts: (string | number)[]): string {
+    return `ed25519:${base58Encode(new Random(this.seed, 'signature', ...parts).bytes(64))}`;
+  }
+
+  private publicKeyOf(accountId: string): string {
+    return `ed25519:${base58Encode(new Random(this.seed, 'key', accountId).bytes(32))}`;
+  }
+
+  // Transactions
+
+  private transactionsAt(height: number): DemoTransaction[] {
+    if (height < GENESIS_HEIGHT) return [];
+    const cached = this.transactions.get(height);
+    if (cached) return cached;
+
+    const random = new Random(this.seed, 'transactions', height);
+    const count = random.pick([0, 0, 1, 1, 1, 2, 2, 3, 4]);
+    const transactions = Array.from({ length: count }, (_, index) => this.makeTransaction(height, index));
+    this.transactions.set(height, transactions);
+    return transactions;
+  }
+
+  private makeTransaction(height: number, index: number): DemoTransaction {
+    const random = new Random(this.seed, 'transaction', height, index);
+    const signer = random.pick(USERS);
+    const roll = random.next();
+    const kind: DemoTransactionKind =
+      roll < 0.4 ? 'transfer'
+        : roll < 0.7 ? 'call'
+          : roll < 0.8 ? 'create-account'
+            : roll < 0.9 ? 'failed-transfer'
+              : 'failed-call';
+
+    let receiver: string;
+    let actions: Action[];
+    let logs: string[] = [];
+    let status: ExecutionStatus = { SuccessValue: '' };
+    let transactionGas = 223_182_562_500;
+    let receiptGas = 223_182_562_500;
+    let createdAccount: string | undefined;
+
+    switch (kind) {
+      case 'transfer':
+        receiver = random.pick(USERS.filter(user => user !== signer));
+        actions = [{ Transfer: { deposit: (BigInt(random.int(1, 500)) * ONE_NEAR / 10n).toString() } }];
+        break;
+      case 'failed-transfer':
+        receiver = `${random.pick(MISSING_ACCOUNT_PREFIXES)}-${random.int(100, 999)}.demo.near`;
+        actions = [{ Transfer: { deposit: (BigInt(random.int(1, 50)) * ONE_NEAR).toString() } }];
+        status = { Failure: actionError({ AccountDoesNotExist: { account_id: receiver } }) };
+        break;
+      case 'create-account':
+        createdAccount = `${random.pick(NEW_ACCOUNT_PREFIXES)}-${height}-${index}.${signer}`;
+        receiver = createdAccount;
+        actions = [
+          'CreateAccount',
+          { Transfer: { deposit: (BigInt(random.int(1, 50)) * ONE_NEAR / 10n).toString() } },
+          { AddKey: { public_key: this.publicKeyOf(createdAccount), access_key: { nonce: 0, permission: 'FullAccess' } } },
+        ];
+        transactionGas = 424_555_062_500;
+        receiptGas = 424_555_062_500;
+        break;
+      default: {
+        // Function calls
+        receiver = random.pick(CONTRACTS);
+        const fails = kind === 'failed-call';
+        const other = random.pick(USERS.filter(user => user !== signer));
+        let methodName: string;
+        let args: unknown;
+        let deposit = '0';
+
+        if (receiver === TOKEN) {
+          const amount = (BigInt(random.int(1, 10_000)) * 10n ** 18n).toString();
+          methodName = 'ft_transfer';
+          args = { receiver_id: other, amount: fails ? `${amount}000000` : amount };
+          deposit = '1';
+          logs = fails ? [] : [eventLog('nep141', 'ft_transfer', { old_owner_id: signer, new_owner_id: other, amount })];
+          status = fails
+            ? { Failure: actionError({ FunctionCallError: { ExecutionError: "Smart contract panicked: The account doesn't have enough balance" } }) }
+            : { SuccessValue: '' };
+        } else if (receiver === NFT) {
+          const tokenId = `${height}-${index}`;
+          methodName = 'nft_mint';
+          args = { token_id: tokenId, receiver_id: signer };
+          deposit = (ONE_NEAR / 100n).toString();
+          logs = fails ? [] : [eventLog('nep171', 'nft_mint', { owner_id: signer, token_ids: [tokenId] })];
+          status = fails
+            ? { Failure: actionError({ FunctionCallError: { ExecutionError: 'Smart contract panicked: Token ID already exists' } }) }
+            : { SuccessValue: base64Json({ token_id: tokenId, owner_id: signer }) };
+        } else {
+          const proposalId = Math.floor((height - GENESIS_HEIGHT) / 10);
+          methodName = 'add_proposal';
+          args = { proposal: { description: `Proposal from ${signer}`, kind: 'Vote' } };
+          deposit = (ONE_NEAR / 10n).toString();
+          logs = fails ? [] : [`Proposal #${proposalId} added by ${signer}`];
+          status = fails
+            ? { Failure: actionError({ FunctionCallError: { ExecutionError: 'Smart contract panicked: ERR_MIN_BOND' } }) }
+            : { SuccessValue: base64Json(proposalId) };
+        }
+
+        const gas = 30_000_000_000_000;
+        actions = [{ FunctionCall: { method_name: methodName, args: base64Json(args), gas, deposit } }];
+        transactionGas = 2_428_026_169_958;
+        receiptGas = random.int(3, 15) * 1_000_000_000_000 + random.int(0, 999_999_999);
+      }
+    }
+
+    const hash = this.makeId('tx', height, index);
+    const view: SignedTransactionView = {
+      signer_id: signer,
+      public_key: this.publicKeyOf(signer),
+      nonce: height * 10 + index,
+      receiver_id: receiver,
+      actions,
+      signature: this.randomSignature('transaction', height, index),
+      hash,
+    };
+    const receipt: ReceiptView = {
+      predecessor_id: signer,
+      receiver_id: receiver,
+      receipt_id: this.makeId('receipt', height, index),
+      receipt: {
+        Action: {
+          signer_id: signer,
+          signer_public_key: view.public_key,
+          gas_price: GAS_PRICE.toString(),
+          output_data_receivers: [],
+          input_data_ids: [],
+          actions,
+          is_promise_yield: false,
+        },
+      },
+      priority: 0,
+    };
+
+    return {
+      kind,
+      height,
+      view,
+      shard: shardOf(signer),
+      receipt,
+      receiptShard: shardOf(receiver),
+      transactionGas,
+      receiptGas,
+      logs,
+      status,
+      createdAccount,
+    };
+  }
+
+  private findTransaction(hash: unknown, senderId: unknown): DemoTransaction {
+    const id = this.parseId(hash, 'tx');
+    const transaction = id && id.height <= this.head() ? this.transactionsAt(id.height)[id.index] : undefined;
+    if (!transaction || transaction.view.signer_id !== senderId) {
+      throw new DemoRpcError('UNKNOWN_TRANSACTION', `Transaction ${hash} doesn't exist`, {
+        requested_transaction_hash: hash,
+      });
+    }
+    return transaction;
+  }
+
+  // Blocks and chunks
+
+  private resolveBlock(params: any): number {
+    const head = this.head();
+    if (params?.finality !== undefined) {
+      return params.finality === 'optimistic' ? head : params.finality === 'near-final' ? head - 1 : head - 2;
+    }
+
+    const blockId = Array.isArray(params) ? params[0] : params?.block_id;
+    const height = typeof blockId === 'number' ? blockId : this.parseId(blockId, 'block')?.height;
+    if (height === undefined || height < GENESIS_HEIGHT || height > head) {
+      throw new DemoRpcError('UNKNOWN_BLOCK', `DB Not Found Error: BLOCK: ${blockId}`, {});
+    }
+    return height;
+  }
+
+  private chunkHeader(height: number, shard: number): ChunkHeader {
+    const gasUsed =
+      this.transactionsAt(height).filter(tx => tx.shard === shard).reduce((sum, tx) => sum + tx.transactionGas, 0) +
+      this.transactionsAt(height - 1).filter(tx => tx.receiptShard === shard).reduce((sum, tx) => sum + tx.receiptGas, 0);
+
+    return {
+      chunk_hash: this.makeId('chunk', height, shard),
+      prev_block_hash: this.blockHash(height - 1),
+      outcome_root: this.randomHash('chunk-outcome', height, shard),
+      prev_state_root: this.randomHash('state', height - 1, shard),
+      encoded_merkle_root: this.randomHash('chunk-encoded', height, shard),
+      encoded_length: 256 + gasUsed % 4096,
+      height_created: height,
+      height_included: height,
+      shard_id: shard,
+      gas_used: gasUsed,
+      gas_limit: CHUNK_GAS_LIMIT,
+      balance_burnt: tokensBurnt(gasUsed),
+      outgoing_receipts_root: this.randomHash('chunk-receipts', height, shard),
+      tx_root: this.transactionsAt(height).some(tx => tx.shard === shard) ? this.randomHash('chunk-tx', height, shard) : EMPTY_HASH,
+      validator_proposals: [],
+      signature: this.randomSignature('chunk', height, shard),
+    };
+  }
+
+  private block(height: number): Block {
+    const epoch = Math.floor((height - GENESIS_HEIGHT) / EPOCH_LENGTH);
+    const timeMs = this.timeOf(height);
+    const header: BlockHeader = {
+      height,
+      prev_height: height > GENESIS_HEIGHT ? height - 1 : null,
+      epoch_id: epoch === 0 ? EMPTY_HASH : this.makeId('epoch', epoch),
+      next_epoch_id: this.makeId('epoch', epoch + 1),
+      hash: this.blockHash(height),
+      prev_hash: this.blockHash(height - 1),
+      prev_state_root: this.randomHash('state', height - 1),
+      chunk_receipts_root: this.randomHash('receipts-root', height),
+      chunk_headers_root: this.randomHash('headers-root', height),
+      chunk_tx_root: this.randomHash('tx-root', height),
+      outcome_root: this.randomHash('outcome-root', height),
+      chunks_included: NUM_SHARDS,
+      timestamp: timeMs * 1_000_000,
+      timestamp_nanosec: (BigInt(timeMs) * 1_000_000n).toString(),
+      random_value: this.randomHash('random', height),
+      validator_proposals: [],
+      chunk_mask: Array.from({ length: NUM_SHARDS }, () => true),
+      gas_price: GAS_PRICE.toString(),
+      block_ordinal: height - GENESIS_HEIGHT + 1,
+      total_supply: TOTAL_SUPPLY,
+      last_final_block: this.blockHash(height - 2),
+      last_ds_final_block: this.blockHash(height - 1),
+      next_bp_hash: this.randomHash('bp', epoch + 1),
+      block_merkle_root: this.randomHash('merkle', height),
+      epoch_sync_data_hash: null,
+      approvals: VALIDATORS.map(validator => this.randomSignature('approval', height, validator)),
+      signature: this.randomSignature('block', height),
+      latest_protocol_version: PROTOCOL_VERSION,
+    };
+
+    return {
+      author: VALIDATORS[height % VALIDATORS.length],
+      header,
+      chunks: Array.from({ length: NUM_SHARDS }, (_, shard) => this.chunkHeader(height, shard)),
+    };
+  }
+
+  private chunk(params: any): Chunk {
+    const chunkId = Array.isArray(params) ? params[0] : params?.chunk_id;
+    let height: number;
+    let shard: number;
+    if (chunkId !== undefined) {
+      const id = this.parseId(chunkId, 'chunk');
+      if (!id || id.height > this.head() || id.index >= NUM_SHARDS) {
+        throw new DemoRpcError('UNKNOWN_CHUNK', `Chunk Missing (unavailable on the node): ${chunkId}`, { chunk_hash: chunkId });
+      }
+      ({ height, index: shard } = id);
+    } else {
+      height = this.resolveBlock(params);
+      shard = params?.shard_id;
+      if (typeof shard !== 'number' || shard < 0 || shard >= NUM_SHARDS) {
+        throw new DemoRpcError('INVALID_SHARD_ID', `Shard id ${shard} does not exist`, { shard_id: shard });
+      }
+    }
+
+    return {
+      author: VALIDATORS[(height + shard) % VALIDATORS.length],
+      header: this.chunkHeader(height, shard),
+      transactions: this.transactionsAt(height).filter(tx => tx.shard === shard).map(tx => tx.view),
+      // Receipts of the previous block's transactions execute here
+      receipts: this.transactionsAt(height - 1).filter(tx => tx.receiptShard === shard).map(tx => tx.receipt),
+    };
+  }
+
+  // Transaction status
+
+  /**
+   * Stage a transaction included at `height` has reached: it executes one block
+   * later, and blocks are final two blocks behind the head
+   */
+  private stageOf(height: number): TxExecutionStatus {
+    const head = this.head();
+    if (head >= height + 3) return 'FINAL';
+    if (head >= height + 2) return 'EXECUTED';
+    if (head >= height + 1) return 'EXECUTED_OPTIMISTIC';
+    return 'INCLUDED';
+  }
+
+  private async transactionStatus(params: any, withReceipts: boolean, signal?: AbortSignal): Promise<unknown> {
+    const [hash, senderId, waitUntil] = Array.isArray(params)
+      ? [params[0], params[1], 'EXECUTED_OPTIMISTIC']
+      : [params?.tx_hash, params?.sender_account_id, params?.wait_until ?? 'EXECUTED_OPTIMISTIC'];
+    const transaction = this.findTransaction(hash, senderId);
+    const { height } = transaction;
+
+    // Hold the request until the stage asked for, like a node does
+    const readyAt: Partial<Record<TxExecutionStatus, number>> = {
+      EXECUTED_OPTIMISTIC: height + 1,
+      INCLUDED_FINAL: height + 2,
+      EXECUTED: height + 2,
+      FINAL: height + 3,
+    };
+    const waitForHeight = readyAt[waitUntil as TxExecutionStatus];
+    if (waitForHeight !== undefined && waitForHeight > this.head()) {
+      await sleep(Math.max(0, this.timeOf(waitForHeight) - Date.now()) + 10, signal);
+    }
+
+    const stage = this.stageOf(height);
+    if (stage === 'INCLUDED') {
+      return { final_execution_status: stage };
+    }
+
+    const { view, receipt } = transaction;
+    const transactionOutcome: ExecutionOutcomeWithId = {
+      proof: [],
+      block_hash: this.blockHash(height),
+      id: view.hash,
+      outcome: {
+        logs: [],
+        receipt_ids: [receipt.receipt_id],
+        gas_burnt: transaction.transactionGas,
+        tokens_burnt: tokensBurnt(transaction.transactionGas),
+        executor_id: view.signer_id,
+        status: { SuccessReceiptId: receipt.receipt_id },
+        metadata: { version: 1, gas_profile: null },
+      },
+    };
+    const receiptOutcome: ExecutionOutcomeWithId = {
+      proof: [],
+      block_hash: this.blockHash(height + 1),
+      id: receipt.receipt_id,
+      outcome: {
+        logs: transaction.logs,
+        receipt_ids: [],
+        gas_burnt: transaction.receiptGas,
+        tokens_burnt: tokensBurnt(transaction.receiptGas),
+        executor_id: receipt.receiver_id,
+        status: transaction.status,
+        metadata: { version: 3, gas_profile: [] },
+      },
+    };
+
+    return {
+      final_execution_status: stage,
+      status: transaction.status,
+      transaction: view,
+      transaction_outcome: transactionOutcome,
+      receipts_outcome: [receiptOutcome],
+      ...(withReceipts && { receipts: [receipt] }),
+    };
+  }
+
+  private receipt(params: any): ReceiptView {
+    const receiptId = params?.receipt_id;
+    const id = this.parseId(receiptId, 'receipt');
+    const transaction = id && id.height + 1 <= this.head() ? this.transactionsAt(id.height)[id.index] : undefined;
+    if (!transaction) {
+      throw new DemoRpcError('UNKNOWN_RECEIPT', `Receipt with id ${receiptId} has never been observed on this node`, {
+        receipt_id: receiptId,
+      });
+    }
+    return transaction.receipt;
+  }
+
+  // Accounts
+
+  private accountExists(accountId: unknown, height: number): boolean {
+    if (typeof accountId !== 'string') return false;
+    if (USERS.includes(accountId) || CONTRACTS.includes(accountId) || VALIDATORS.includes(accountId)) return true;
+
+    // Created by the transaction in its name, once that has executed
+    const match = /^[a-z]+-(\d+)-(\d+)\./.exec(accountId);
+    if (!match) return false;
+    const createdAt = Number(match[1]);
+    const transaction = this.transactionsAt(createdAt)[Number(match[2])];
+    return transaction?.createdAccount === accountId && height > createdAt;
+  }
+
+  private query(params: any): unknown {
+    const height = this.resolveBlock(params);
+    const base = { block_height: height, block_hash: this.blockHash(height) };
+    const accountId = params?.account_id;
+
+    if (!['view_account', 'view_access_key', 'view_access_key_list', 'view_code', 'view_state', 'call_function'].includes(params?.request_type)) {
+      throw new DemoRpcError('PARSE_ERROR', `Unknown request_type ${params?.request_type}`, {}, 'REQUEST_VALIDATION_ERROR');
+    }
+    if (!this.accountExists(accountId, height)) {
+      throw new DemoRpcError('UNKNOWN_ACCOUNT', `account ${accountId} does not exist while viewing`, {
+        requested_account_id: accountId,
+        ...base,
+      });
+    }
+
+    const random = new Random(this.seed, 'account', accountId);
+    const isContract = CONTRACTS.includes(accountId);
+    const codeHash = isContract ? this.randomHash('code', accountId) : EMPTY_HASH;
+    const noCode = () =>
+      new DemoRpcError('NO_CONTRACT_CODE', `Contract code for contract ID #${accountId} has never been observed on the node`, {
+        contract_account_id: accountId,
+        ...base,
+      });
+
+    switch (params.request_type) {
+      case 'view_account':
+        return {
+          ...base,
+          amount: (BigInt(random.int(5, 5000)) * ONE_NEAR).toString(),
+          locked: VALIDATORS.includes(accountId) ? (BigInt(random.int(100_000, 900_000)) * ONE_NEAR).toString() : '0',
+          code_hash: codeHash,
+          storage_usage: isContract ? random.int(100_000, 900_000) : random.int(182, 2000),
+          storage_paid_at: 0,
+        };
+      case 'view_access_key_list':
+      case 'view_access_key': {
+        const keys = [
+          { public_key: this.publicKeyOf(accountId), access_key: { nonce: random.int(1, 1000) * 1_000_000, permission: 'FullAccess' } },
+        ];
+        if (params.request_type === 'view_access_key_list') {
+          return { ...base, keys };
+        }
+        const key = keys.find(k => k.public_key === params.public_key);
+        if (!key) {
+          throw new DemoRpcError('UNKNOWN_ACCESS_KEY', `Access key for public key ${params.public_key} does not exist while viewing`, {
+            public_key: params.public_key,
+            ...base,
+          });
+        }
+        return { ...base, ...key.access_key };
+      }
+      case 'view_code':
+        if (!isContract) throw noCode();
+        return { ...base, code_base64: WASM_STUB_BASE64, hash: codeHash };
+      case 'view_state':
+        return {
+          ...base,
+          values: isContract ? [{ key: btoa('STATE'), value: base64Json({ owner_id: DAO }) }] : [],
+        };
+      default:
+        if (!isContract) throw noCode();
+        return { ...base, result: Array.from(new TextEncoder().encode(JSON.stringify(this.callView(accountId, params)))), logs: [] };
+    }
+  }
+
+  // Read-only methods of the demo contracts
+  private callView(contractId: string, params: any): unknown {
+    let args: any = {};
+    try {
+      args = params.args_base64 ? JSON.parse(atob(params.args_base64)) : {};
+    } catch {
+      // Views below that take arguments fall back to defaults
+    }
+    const random = new Random(this.seed, 'view', contractId, params.method_name, JSON.stringify(args));
+    const views: Record<string, Record<string, () => unknown>> = {
+      [TOKEN]: {
+        ft_metadata: () => ({ spec: 'ft-1.0.0', name: 'Demo Token', symbol: 'DEMO', decimals: 18 }),
+        ft_total_supply: () => (1_000_000_000n * 10n ** 18n).toString(),
+        ft_balance_of: () => (BigInt(random.int(0, 1_000_000)) * 10n ** 18n).toString(),
+      },
+      [NFT]: {
+        nft_metadata: () => ({ spec: 'nft-1.0.0', name: 'Demo Collectibles', symbol: 'DEMOART' }),
+        nft_total_supply: () => String(random.int(100, 10_000)),
+      },
+      [DAO]: {
+        get_last_proposal_id: () => Math.floor((this.head() - GENESIS_HEIGHT) / 10),
+        get_config: () => ({ name: 'demo-dao', purpose: 'Demo chain governance' }),
+      },
+    };
+
+    const view = views[contractId]?.[params.method_name];
+    if (!view) {
+      throw new DemoRpcError('CONTRACT_EXECUTION_ERROR', 'wasm execution failed with error: MethodResolveError(MethodNotFound)', {
+        vm_error: 'MethodResolveError(MethodNotFound)',
+      });
+    }
+    return view();
+  }
+
+  // Network
+
+  private status(): unknown {
+    const head = this.head();
+    return {
+      chain_id: CHAIN_ID,
+      protocol_version: PROTOCOL_VERSION,
+      latest_protocol_version: PROTOCOL_VERSION,
+      rpc_addr: null,
+      sync_info: {
+        latest_block_hash: this.blockHash(head),
+        latest_block_height: head,
+        latest_block_time: new Date(this.timeOf(head)).toISOString(),
+        latest_state_root: this.randomHash('state', head),
+        earliest_block_hash: this.blockHash(GENESIS_HEIGHT),
+        earliest_block_height: GENESIS_HEIGHT,
+        earliest_block_time: new Date(GENESIS_TIME_MS).toISOString(),
+        syncing: false,
+      },
+      validators: VALIDATORS.map(account_id => ({ account_id })),
+      version: { version: 'demo', build: `seed-${this.seed}` },
+    };
+  }
+
+  private genesisConfig(): unknown {
+    return {
+      protocol_version: PROTOCOL_VERSION,
+      genesis_time: new Date(GENESIS_TIME_MS).toISOString(),
+      genesis_height: GENESIS_HEIGHT,
+      chain_id: CHAIN_ID,
+      epoch_length: EPOCH_LENGTH,
+      num_block_producer_seats: VALIDATORS.length,
+      total_supply: TOTAL_SUPPLY,
+      min_gas_price: GAS_PRICE.toString(),
+      max_gas_price: (GAS_PRICE * 100n).toString(),
+    };
+  }
+
+  private async handle(request: JsonRpcRequest, signal?: AbortSignal): Promise<JsonRpcReply> {
+    const { method, params } = request;
+    try {
+      switch (method) {
+        case 'status':
+          return { result: this.status() };
+        case 'block':
+          return { result: this.block(this.resolveBlock(params)) };
+        case 'chunk':
+          return { result: this.chunk(params) };
+        case 'tx':
+        case 'EXPERIMENTAL_tx_status':
+          return { result: await this.transactionStatus(params, method === 'EXPERIMENTAL_tx_status', signal) };
+        case 'EXPERIMENTAL_receipt':
+          return { result: this.receipt(params) };
+        case 'query':
+          return { result: this.query(params) };
+        case 'gas_price':
+          return { result: { gas_price: GAS_PRICE.toString() } };
+        case 'EXPERIMENTAL_genesis_config':
+          return { result: this.genesisConfig() };
+        default:
+          throw new DemoRpcError('METHOD_NOT_FOUND', `Method ${method} is not supported by the demo chain`, {
+            method_name: method,
+          }, 'REQUEST_VALIDATION_ERROR', -32601);
+      }
+    } catch (error) {
+      if (error instanceof DemoRpcError) return error.toReply();
+      throw error;
+    }
+  }
+}
+
+// One chain per seed and interval
+const chains = new Map<string, DemoChain>();
+
+function chainFor(url: string): DemoChain {
+  const options = new URLSearchParams(url.split('?')[1] ?? '');
+  const seed = Number(options.get('seed') ?? DEFAULT_SEED);
+  const interval = Number(options.get('interval') ?? DEFAULT_BLOCK_INTERVAL_MS);
+  const key = `${seed}|${interval}`;
+
+  let chain = chains.get(key);
+  if (!chain) {
+    chain = new DemoChain(
+      Number.isFinite(seed) ? seed : DEFAULT_SEED,
+      Number.isFinite(interval) && interval >= 100 ? interval : DEFAULT_BLOCK_INTERVAL_MS
+    );
+    chains.set(key, chain);
+  }
+  return chain;
+}
+
+rpcProxy.registerTransport('demo:', (url, body, signal) => chainFor(url).transport(url, body, signal));
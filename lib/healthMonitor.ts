@@ -0,0 +1,181 @@
+/**
+ * Background Provider Health Monitor
+ *
+ * Probes every enabled provider of the current network with `status` (through
+ * `providerManager.testProvider`, so probes also feed the latency averages the
+ * selection policies use) on the interval configured in Settings. Probing
+ * pauses while the page is hidden and resumes when it is shown again.
+ *
+ * Each provider keeps a rolling history of its last HISTORY_LIMIT probes, from
+ * which Settings shows uptime, p50/p95 latency and a sparkline. A provider
+ * whose last DOWN_AFTER_FAILURES probes all failed is "down": the failover
+ * client tries it only after every other provider (see orderProviders).
+ */
+
+import { providerManager } from './providerManager';
+
+export interface HealthSample {
+  at: number;
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface HealthSummary {
+  samples: number;
+  // Share of successful probes, 0..1
+  uptime: number;
+  // Latency percentiles of successful probes (undefined until one succeeded)
+  p50?: number;
+  p95?: number;
+  down: boolean;
+}
+
+type HealthMonitorListener = () => void;
+
+// 120 probes = one hour at the default 30s interval
+const HISTORY_LIMIT = 120;
+const DOWN_AFTER_FAILURES = 2;
+// Let the page's own first requests go out before the first probes
+const STARTUP_DELAY_MS = 5000;
+// Probes older than this many intervals (monitor paused or off) no longer mark a provider down
+const STALE_AFTER_INTERVALS = 3;
+
+// Nearest-rank percentile of sorted values
+function percentile(sorted: number[], p: number): number | undefined {
+  if (sorted.length === 0) return undefined;
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+function isPageHidden(): boolean {
+  return typeof document !== 'undefined' && document.visibilityState === 'hidden';
+}
+
+class HealthMonitor {
+  private history: Map<string, HealthSample[]> = new Map();
+  private listeners: HealthMonitorListener[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  private lastRunAt: number | null = null;
+  private readonly startedAt = Date.now();
+  private configKey = '';
+
+  constructor() {
+    this.configKey = JSON.stringify(providerManager.getHealthMonitorConfig());
+    providerManager.subscribe(() => {
+      // Reschedule only when the monitor settings changed
+      const key = JSON.stringify(providerManager.getHealthMonitorConfig());
+      if (key !== this.configKey) {
+        this.configKey = key;
+        this.schedule();
+      }
+    });
+    providerManager.onProviderRemoved(provider => this.history.delete(provider.id));
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', () => this.schedule());
+    }
+    this.schedule();
+  }
+
+  // Recorded probes of a provider, oldest first
+  getHistory(providerId: string): HealthSample[] {
+    return this.history.get(providerId) ?? [];
+  }
+
+  getSummary(providerId: string): HealthSummary {
+    const samples = this.getHistory(providerId);
+    const latencies = samples.filter(s => s.ok).map(s => s.latencyMs).sort((a, b) => a - b);
+    return {
+      samples: samples.length,
+      uptime: samples.length > 0 ? latencies.length / samples.length : 0,
+      p50: percentile(latencies, 50),
+      p95: percentile(latencies, 95),
+      down: this.isDown(providerId),
+    };
+  }
+
+  /**
+   * Whether recent probes say the provider is down. Only trusted while the
+   * probes are fresh.
+   */
+  isDown(providerId: string): boolean {
+    const recent = this.getHistory(providerId).slice(-DOWN_AFTER_FAILURES);
+    if (recent.length < DOWN_AFTER_FAILURES || recent.some(s => s.ok)) return false;
+    const { intervalMs } = providerManager.getHealthMonitorConfig();
+    return Date.now() - recent[recent.length - 1].at <= intervalMs * STALE_AFTER_INTERVALS;
+  }
+
+  // Probe every enabled provider now, without waiting for the next interval
+  async checkNow(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      // Replay providers are served from a fixture - probing them says nothing
+      const providers = providerManager.getEnabledProviders().filter(p => !p.replay);
+      // A provider removed while its probe ran rejects - skip it
+      await Promise.allSettled(providers.map(async provider => {
+        const health = await providerManager.testProvider(provider.id);
+        this.record(provider.id, {
+          at: health.lastChecked,
+          ok: health.isHealthy,
+          latencyMs: health.responseTime ?? 0,
+          ...(health.error !== undefined && { error: health.error }),
+        });
+      }));
+    } finally {
+      this.running = false;
+      this.lastRunAt = Date.now();
+      this.notifyListeners();
+      this.schedule();
+    }
+  }
+
+  // Forget all recorded probes
+  clear(): void {
+    this.history.clear();
+    this.notifyListeners();
+  }
+
+  subscribe(listener: HealthMonitorListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private record(providerId: string, sample: HealthSample): void {
+    const samples = [...this.getHistory(providerId), sample];
+    this.history.set(providerId, samples.slice(-HISTORY_LIMIT));
+  }
+
+  // Arm the timer for the next round of probes (or disarm it while off or hidden)
+  private schedule(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const { enabled, intervalMs } = providerManager.getHealthMonitorConfig();
+    if (!enabled || isPageHidden() || this.running) return;
+
+    const dueAt = this.lastRunAt === null ? this.startedAt + STARTUP_DELAY_MS : this.lastRunAt + intervalMs;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.checkNow();
+    }, Math.max(0, dueAt - Date.now()));
+    // Don't keep a Node process alive just for probes
+    (this.timer as any).unref?.();
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('Error in health monitor listener:', error);
+      }
+    });
+  }
+}
+
+// Singleton instance
+export const healthMonitor = new HealthMonitor();
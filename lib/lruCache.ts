@@ -0,0 +1,49 @@
+/**
+ * Bounded least-recently-used cache
+ *
+ * Relies on Map keeping insertion order: reading an entry re-inserts it at
+ * the end, and the first key is always the least recently used one.
+ */
+export class LruCache<K, V> {
+  private entries: Map<K, V> = new Map();
+  private readonly maxEntries: number;
+
+  constructor(maxEntries: number) {
+    this.maxEntries = maxEntries;
+  }
+
+  get(key: K): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: K, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest as K);
+    }
+  }
+
+  // Drop every entry whose key matches
+  deleteWhere(predicate: (key: K) => boolean): void {
+    for (const key of [...this.entries.keys()]) {
+      if (predicate(key)) this.entries.delete(key);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -1,6 +1,21 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
 import { useQuery, useQueries } from '@tanstack/react-query';
 import { Block } from './nearRpcFailover';
 import { nearRpc } from './nearRpcFailover';
+import { verificationReports } from './rpcVerification';
+import { rpcTraffic } from './rpcInspector';
+import {
+  BlockReference,
+  FinalExecutionOutcome,
+  Finality,
+  LightClientProofRequest,
+  TX_EXECUTION_STATUSES,
+  TxExecutionStatus,
+  TxStatusResult,
+  hasExecutionOutcome,
+} from './nearRpcTypes';
+import { UnknownTransactionError } from './rpcErrors';
+import { providerManager, NetworkDefinition, NetworkType } from './providerManager';
 
 /**
  * Query Key Factory Pattern
@@ -18,7 +33,32 @@ export const nearKeys = {
   transactions: () => [...nearKeys.all, 'transactions'] as const,
   recentTransactions: () => [...nearKeys.transactions(), 'recent'] as const,
   transactionRange: (from: number, to: number) => [...nearKeys.transactions(), { range: { from, to } }] as const,
-  latestBlock: () => [...nearKeys.blocks(), 'latest'] as const,
+  transactionStatus: (txHash: string, senderId: string) =>
+    [...nearKeys.transactions(), 'status', txHash, senderId] as const,
+  latestBlock: (finality: Finality) => [...nearKeys.blocks(), 'latest', finality] as const,
+  accounts: () => [...nearKeys.all, 'accounts'] as const,
+  account: (accountId: string, blockRef: BlockReference) => [...nearKeys.accounts(), accountId, blockRef] as const,
+  accessKey: (accountId: string, publicKey: string, blockRef: BlockReference) =>
+    [...nearKeys.accounts(), accountId, 'accessKey', publicKey, blockRef] as const,
+  accessKeyList: (accountId: string, blockRef: BlockReference) =>
+    [...nearKeys.accounts(), accountId, 'accessKeys', blockRef] as const,
+  contracts: () => [...nearKeys.all, 'contracts'] as const,
+  contractState: (accountId: string, prefixBase64: string, blockRef: BlockReference) =>
+    [...nearKeys.contracts(), accountId, 'state', prefixBase64, blockRef] as const,
+  contractCode: (accountId: string, blockRef: BlockReference) =>
+    [...nearKeys.contracts(), accountId, 'code', blockRef] as const,
+  functionCall: (accountId: string, methodName: string, argsBase64: string, blockRef: BlockReference) =>
+    [...nearKeys.contracts(), accountId, 'call', methodName, argsBase64, blockRef] as const,
+  network: () => [...nearKeys.all, 'network'] as const,
+  gasPrice: (blockRef: BlockReference) => [...nearKeys.network(), 'gasPrice', blockRef] as const,
+  validators: (blockRef: BlockReference) => [...nearKeys.network(), 'validators', blockRef] as const,
+  protocolConfig: (blockRef: BlockReference) => [...nearKeys.network(), 'protocolConfig', blockRef] as const,
+  genesisConfig: () => [...nearKeys.network(), 'genesisConfig'] as const,
+  networkInfo: () => [...nearKeys.network(), 'info'] as const,
+  receipts: () => [...nearKeys.all, 'receipts'] as const,
+  receipt: (receiptId: string) => [...nearKeys.receipts(), receiptId] as const,
+  lightClientProof: (request: LightClientProofRequest, lightClientHead: string) =>
+    [...nearKeys.all, 'lightClientProof', request, lightClientHead] as const,
 };
 
 /**
@@ -37,15 +77,42 @@ export const CACHE_CONFIG = {
   retryDelay: 1000,
 };
 
+/**
+ * Finality chosen in the header (providerManager) - re-renders when it changes
+ */
+const subscribeToProviders = (onChange: () => void) => providerManager.subscribe(onChange);
+
+export function useFinality(): Finality {
+  return useSyncExternalStore(subscribeToProviders, () => providerManager.getFinality());
+}
+
+// Selected network id and the network registry, re-rendering when either changes
+export function useSelectedNetwork(): NetworkType {
+  return useSyncExternalStore(subscribeToProviders, () => providerManager.getSelectedNetwork());
+}
+
+export function useNetworks(): NetworkDefinition[] {
+  return useSyncExternalStore(subscribeToProviders, () => providerManager.getNetworks());
+}
+
+/**
+ * Query functions forward TanStack Query's `signal` to the RPC client so requests
+ * (and block scans) are cancelled when a query is no longer needed.
+ */
+
 /**
  * Fetch latest block with auto-refresh
  * Polls at specified interval to detect new blocks
+ * Uses the finality chosen in the header unless one is given
+ * Hedged across providers when hedging is enabled in Settings
  * NOTE: Only polls when query is successful to prevent infinite retry loops
  */
-export function useLatestBlock(refetchInterval: number = 3000) {
+export function useLatestBlock(refetchInterval: number = 3000, finality?: Finality) {
+  const selectedFinality = useFinality();
+  const blockFinality = finality ?? selectedFinality;
   return useQuery({
-    queryKey: nearKeys.latestBlock(),
-    queryFn: () => nearRpc.getLatestBlock(),
+    queryKey: nearKeys.latestBlock(blockFinality),
+    queryFn: ({ signal }) => nearRpc.getLatestBlock({ signal, hedge: true }, blockFinality),
     staleTime: CACHE_CONFIG.staleTime,
     gcTime: CACHE_CONFIG.gcTime,
     // Only poll when query is successful (prevents infinite loops on errors)
@@ -58,13 +125,22 @@ export function useLatestBlock(refetchInterval: number = 3000) {
   });
 }
 
+/**
+ * Height of the latest final block - blocks at or below it can no longer change.
+ * Shares the latest-block query when the selected finality is already 'final'.
+ */
+export function useFinalBlockHeight(refetchInterval: number = 3000): number | undefined {
+  const { data } = useLatestBlock(refetchInterval, 'final');
+  return data?.header.height;
+}
+
 /**
  * Fetch a specific block by height
  */
 export function useBlock(height: number) {
   return useQuery({
     queryKey: nearKeys.block(height),
-    queryFn: () => nearRpc.getBlock(height),
+    queryFn: ({ signal }) => nearRpc.getBlock(height, { signal }),
     staleTime: Infinity, // Block data is immutable - never becomes stale
     gcTime: CACHE_CONFIG.gcTime,
     retry: CACHE_CONFIG.retry,
@@ -86,7 +162,7 @@ export function useRecentBlocks(count: number = 20) {
   const results = useQueries({
     queries: blockHeights.map((height) => ({
       queryKey: nearKeys.block(height),
-      queryFn: () => nearRpc.getBlock(height),
+      queryFn: ({ signal }) => nearRpc.getBlock(height, { signal }),
       staleTime: Infinity, // Block data is immutable
       gcTime: CACHE_CONFIG.gcTime,
       retry: CACHE_CONFIG.retry,
@@ -108,9 +184,9 @@ export function useRecentBlocks(count: number = 20) {
 export function useBlockTransactions(height: number) {
   return useQuery({
     queryKey: nearKeys.blockTransactions(height),
-    queryFn: async () => {
-      const block = await nearRpc.getBlock(height);
-      return nearRpc.getTransactionsFromBlock(block);
+    queryFn: async ({ signal }) => {
+      const block = await nearRpc.getBlock(height, { signal });
+      return nearRpc.getTransactionsFromBlock(block, { signal });
     },
     staleTime: Infinity, // Block transactions are immutable
     gcTime: CACHE_CONFIG.gcTime,
@@ -127,9 +203,9 @@ export function useBlockTransactionCounts(heights: number[]) {
   const results = useQueries({
     queries: heights.map((height) => ({
       queryKey: nearKeys.blockTransactions(height),
-      queryFn: async () => {
-        const block = await nearRpc.getBlock(height);
-        const transactions = await nearRpc.getTransactionsFromBlock(block);
+      queryFn: async ({ signal }) => {
+        const block = await nearRpc.getBlock(height, { signal });
+        const transactions = await nearRpc.getTransactionsFromBlock(block, { signal });
         return { height, count: transactions.length };
       },
       staleTime: Infinity,
@@ -153,3 +229,337 @@ export function useBlockTransactionCounts(heights: number[]) {
     error: results.find((r) => r.error)?.error,
   };
 }
+
+/**
+ * Cross-provider verification report for a subject (see readSubjects)
+ * Updates when a verified read of that subject completes
+ */
+const subscribeToVerification = (onChange: () => void) => verificationReports.subscribe(onChange);
+
+export function useVerificationReport(subject: string | undefined) {
+  return useSyncExternalStore(
+    subscribeToVerification,
+    () => (subject ? verificationReports.getReport(subject) : undefined)
+  );
+}
+
+/**
+ * Requests recorded by the RPC traffic inspector (newest first)
+ */
+const subscribeToTraffic = (onChange: () => void) => rpcTraffic.subscribe(onChange);
+
+export function useRpcTraffic() {
+  return useSyncExternalStore(subscribeToTraffic, () => rpcTraffic.getEntries());
+}
+
+/**
+ * The given block reference, or the latest block at the finality chosen in the header
+ */
+function useBlockReference(blockRef?: BlockReference): BlockReference {
+  const finality = useFinality();
+  return blockRef ?? { finality };
+}
+
+/**
+ * Reads pinned to a block id never change; reads at a finality follow the chain
+ */
+function blockReferenceStaleTime(blockRef: BlockReference): number {
+  return 'block_id' in blockRef ? Infinity : CACHE_CONFIG.staleTime;
+}
+
+/**
+ * Fetch an account (balance, storage, code hash)
+ */
+export function useAccount(accountId: string, blockRef?: BlockReference) {
+  const resolvedRef = useBlockReference(blockRef);
+  return useQuery({
+    queryKey: nearKeys.account(accountId, resolvedRef),
+    queryFn: ({ signal }) => nearRpc.getAccount(accountId, resolvedRef, { signal }),
+    enabled: !!accountId,
+    staleTime: blockReferenceStaleTime(resolvedRef),
+    gcTime: CACHE_CONFIG.gcTime,
+    retry: CACHE_CONFIG.retry,
+    retryDelay: CACHE_CONFIG.retryDelay,
+  });
+}
+
+/**
+ * Fetch a single access key of an account
+ */
+export function useAccessKey(accountId: string, publicKey: string, blockRef?: BlockReference) {
+  const resolvedRef = useBlockReference(blockRef);
+  return useQuery({
+    queryKey: nearKeys.accessKey(accountId, publicKey, resolvedRef),
+    queryFn: ({ signal }) => nearRpc.viewAccessKey(accountId, publicKey, resolvedRef, { signal }),
+    enabled: !!accountId && !!publicKey,
+    staleTime: blockReferenceStaleTime(resolvedRef),
+    gcTime: CACHE_CONFIG.gcTime,
+    retry: CACHE_CONFIG.retry,
+    retryDelay: CACHE_CONFIG.retryDelay,
+  });
+}
+
+/**
+ * Fetch all access keys of an account
+ */
+export function useAccessKeyList(accountId: string, blockRef?: BlockReference) {
+  const resolvedRef = useBlockReference(blockRef);
+  return useQuery({
+    queryKey: nearKeys.accessKeyList(accountId, resolvedRef),
+    queryFn: ({ signal }) => nearRpc.viewAccessKeyList(accountId, resolvedRef, { signal }),
+    enabled: !!accountId,
+    staleTime: blockReferenceStaleTime(resolvedRef),
+    gcTime: CACHE_CONFIG.gcTime,
+    retry: CACHE_CONFIG.retry,
+    retryDelay: CACHE_CONFIG.retryDelay,
+  });
+}
+
+/**
+ * Fetch contract storage under a base64 key prefix
+ */
+export function useContractState(accountId: string, prefixBase64: string = '', blockRef?: BlockReference) {
+  const resolvedRef = useBlockReference(blockRef);
+  return useQuery({
+    queryKey: nearKeys.contractState(accountId, prefixBase64, resolvedRef),
+    queryFn: ({ signal }) => nearRpc.viewState(accountId, prefixBase64, resolvedRef, { signal }),
+    enabled: !!accountId,
+    staleTime: blockReferenceStaleTime(resolvedRef),
+    gcTime: CACHE_CONFIG.gcTime,
+    retry: CACHE_CONFIG.retry,
+    retryDelay: CACHE_CONFIG.retryDelay,
+  });
+}
+
+/**
+ * Fetch the deployed contract wasm (base64)
+ */
+export function useContractCode(accountId: string, blockRef?: BlockReference) {
+  const resolvedRef = useBlockReference(blockRef);
+  return useQuery({
+    queryKey: nearKeys.contractCode(accountId, resolvedRef),
+    queryFn: ({ signal }) => nearRpc.viewCode(accountId, resolvedRef, { signal }),
+    enabled: !!accountId,
+    staleTime: blockReferenceStaleTime(resolvedRef),
+    gcTime: CACHE_CONFIG.gcTime,
+    retry: CACHE_CONFIG.retry,
+    retryDelay: CACHE_CONFIG.retryDelay,
+  });
+}
+
+/**
+ * Call a contract view method with base64-encoded arguments
+ */
+export function useFunctionCall(
+  accountId: string,
+  methodName: string,
+  argsBase64: string = '',
+  blockRef?: BlockReference
+) {
+  const resolvedRef = useBlockReference(blockRef);
+  return useQuery({
+    queryKey: nearKeys.functionCall(accountId, methodName, argsBase64, resolvedRef),
+    queryFn: ({ signal }) => nearRpc.callFunction(accountId, methodName, argsBase64, resolvedRef, { signal }),
+    enabled: !!accountId && !!methodName,
+    staleTime: blockReferenceStaleTime(resolvedRef),
+    gcTime: CACHE_CONFIG.gcTime,
+    retry: CACHE_CONFIG.retry,
+    retryDelay: CACHE_CONFIG.retryDelay,
+  });
+}
+
+/**
+ * Fetch the gas price at a block
+ */
+export function useGasPrice(blockRef?: BlockReference) {
+  const resolvedRef = useBlockReference(blockRef);
+  return useQuery({
+    queryKey: nearKeys.gasPrice(resolvedRef),
+    queryFn: ({ signal }) => nearRpc.getGasPrice(resolvedRef, { signal }),
+    staleTime: blockReferenceStaleTime(resolvedRef),
+    gcTime: CACHE_CONFIG.gcTime,
+    retry: CACHE_CONFIG.retry,
+    retryDelay: CACHE_CONFIG.retryDelay,
+  });
+}
+
+/**
+ * Fetch validators of the epoch containing a block
+ */
+export function useValidators(blockRef?: BlockReference) {
+  const resolvedRef = useBlockReference(blockRef);
+  return useQuery({
+    queryKey: nearKeys.validators(resolvedRef),
+    queryFn: ({ signal }) => nearRpc.getValidators(resolvedRef, { signal }),
+    staleTime: blockReferenceStaleTime(resolvedRef),
+    gcTime: CACHE_CONFIG.gcTime,
+    retry: CACHE_CONFIG.retry,
+    retryDelay: CACHE_CONFIG.retryDelay,
+  });
+}
+
+/**
+ * Fetch the protocol config in effect at a block
+ */
+export function useProtocolConfig(blockRef?: BlockReference) {
+  const resolvedRef = useBlockReference(blockRef);
+  return useQuery({
+    queryKey: nearKeys.protocolConfig(resolvedRef),
+    queryFn: ({ signal }) => nearRpc.getProtocolConfig(resolvedRef, { signal }),
+    staleTime: blockReferenceStaleTime(resolvedRef),
+    gcTime: CACHE_CONFIG.gcTime,
+    retry: CACHE_CONFIG.retry,
+    retryDelay: CACHE_CONFIG.retryDelay,
+  });
+}
+
+/**
+ * Fetch the genesis config of the network
+ */
+export function useGenesisConfig() {
+  return useQuery({
+    queryKey: nearKeys.genesisConfig(),
+    queryFn: ({ signal }) => nearRpc.getGenesisConfig({ signal }),
+    staleTime: Infinity, // Genesis never changes
+    gcTime: CACHE_CONFIG.gcTime,
+    retry: CACHE_CONFIG.retry,
+    retryDelay: CACHE_CONFIG.retryDelay,
+  });
+}
+
+/**
+ * Fetch a receipt by id
+ */
+export function useReceipt(receiptId: string) {
+  return useQuery({
+    queryKey: nearKeys.receipt(receiptId),
+    queryFn: ({ signal }) => nearRpc.getReceipt(receiptId, { signal }),
+    enabled: !!receiptId,
+    staleTime: Infinity, // Receipts are immutable
+    gcTime: CACHE_CONFIG.gcTime,
+    retry: CACHE_CONFIG.retry,
+    retryDelay: CACHE_CONFIG.retryDelay,
+  });
+}
+
+/**
+ * Fetch peer information of the current provider's node
+ */
+export function useNetworkInfo() {
+  return useQuery({
+    queryKey: nearKeys.networkInfo(),
+    queryFn: ({ signal }) => nearRpc.getNetworkInfo({ signal }),
+    staleTime: CACHE_CONFIG.staleTime,
+    gcTime: CACHE_CONFIG.gcTime,
+    retry: CACHE_CONFIG.retry,
+    retryDelay: CACHE_CONFIG.retryDelay,
+  });
+}
+
+/**
+ * Fetch a light client proof for a transaction or receipt outcome
+ */
+export function useLightClientProof(request: LightClientProofRequest, lightClientHead: string) {
+  return useQuery({
+    queryKey: nearKeys.lightClientProof(request, lightClientHead),
+    queryFn: ({ signal }) => nearRpc.getLightClientProof(request, lightClientHead, { signal }),
+    enabled: !!lightClientHead,
+    staleTime: Infinity, // A proof against a fixed head never changes
+    gcTime: CACHE_CONFIG.gcTime,
+    retry: CACHE_CONFIG.retry,
+    retryDelay: CACHE_CONFIG.retryDelay,
+  });
+}
+
+/**
+ * Stage a tx status result has reached. Nodes that predate `wait_until` only
+ * answer once the transaction has executed and report no stage - there is
+ * nothing further to follow.
+ */
+function getTransactionStage(result: TxStatusResult): TxExecutionStatus {
+  if (result.final_execution_status) return result.final_execution_status;
+  return hasExecutionOutcome(result) ? 'FINAL' : 'NONE';
+}
+
+export interface TransactionTracker {
+  // Latest stage reached, null until a node knows the transaction
+  stage: TxExecutionStatus | null;
+  // When each stage was first seen (stages passed between two polls share a time)
+  reachedAt: Partial<Record<TxExecutionStatus, number>>;
+  // When tracking started
+  startedAt: number;
+  // Execution outcome (receipts grow as they execute), once the transaction has executed
+  outcome: FinalExecutionOutcome | undefined;
+  isFinal: boolean;
+  isLoading: boolean;
+  error: Error | null;
+}
+
+/**
+ * Follow a transaction through its execution stages (NONE → ... → FINAL) by polling
+ * EXPERIMENTAL_tx_status with `wait_until: 'NONE'` until it is FINAL. A transaction no
+ * node knows about yet (just sent) keeps being polled.
+ * NOTE: Stops polling on errors like useLatestBlock does
+ */
+export function useTransactionTracker(
+  txHash: string,
+  senderId: string,
+  { enabled = true, intervalMs = 1000 }: { enabled?: boolean; intervalMs?: number } = {}
+): TransactionTracker {
+  const query = useQuery({
+    queryKey: nearKeys.transactionStatus(txHash, senderId),
+    queryFn: async ({ signal }) => {
+      try {
+        return await nearRpc.getTransactionStatus(txHash, senderId, 'NONE', { signal });
+      } catch (error) {
+        // Not received yet - poll again
+        if (error instanceof UnknownTransactionError) return null;
+        throw error;
+      }
+    },
+    enabled: enabled && !!txHash && !!senderId,
+    staleTime: 0, // Changes until FINAL
+    gcTime: CACHE_CONFIG.gcTime,
+    refetchInterval: (query) => {
+      const { data, status } = query.state;
+      if (status !== 'success') return false;
+      return data && getTransactionStage(data) === 'FINAL' ? false : intervalMs;
+    },
+    refetchIntervalInBackground: true,
+    retry: CACHE_CONFIG.retry,
+    retryDelay: CACHE_CONFIG.retryDelay,
+  });
+
+  const stage = query.data ? getTransactionStage(query.data) : null;
+  const [timeline, setTimeline] = useState(() => ({ startedAt: Date.now(), reachedAt: {} as TransactionTracker['reachedAt'] }));
+
+  // Start a fresh timeline for another transaction
+  useEffect(() => {
+    setTimeline({ startedAt: Date.now(), reachedAt: {} });
+  }, [txHash, senderId, enabled]);
+
+  useEffect(() => {
+    if (!stage) return;
+    setTimeline((current) => {
+      const now = Date.now();
+      const reached = TX_EXECUTION_STATUSES.slice(0, TX_EXECUTION_STATUSES.indexOf(stage) + 1);
+      if (reached.every((s) => current.reachedAt[s] !== undefined)) return current;
+
+      const reachedAt = { ...current.reachedAt };
+      reached.forEach((s) => {
+        if (reachedAt[s] === undefined) reachedAt[s] = now;
+      });
+      return { ...current, reachedAt };
+    });
+  }, [stage, txHash, senderId, enabled]);
+
+  return {
+    stage,
+    reachedAt: timeline.reachedAt,
+    startedAt: timeline.startedAt,
+    outcome: query.data && hasExecutionOutcome(query.data) ? query.data : undefined,
+    isFinal: stage === 'FINAL',
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
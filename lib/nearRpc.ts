@@ -1,42 +1,8 @@
 // Simple NEAR RPC client for localnet
-export interface Block {
-  author: string;
-  header: {
-    height: number;
-    hash: string;
-    prev_hash: string;
-    timestamp: number;
-    timestamp_nanosec: string;
-    gas_price: string;
-    total_supply: string;
-  };
-  chunks: any[];
-}
-
-export interface NetworkStatus {
-  chain_id: string;
-  sync_info: {
-    latest_block_hash: string;
-    latest_block_height: number;
-    latest_block_time: string;
-    syncing: boolean;
-  };
-  version: {
-    version: string;
-    build: string;
-  };
-}
+import type { Block, NetworkStatus, Transaction } from './nearRpcTypes';
+import { yoctoToNear } from './nearUnits';
 
-export interface Transaction {
-  hash: string;
-  signer_id: string;
-  receiver_id: string;
-  actions: any[];
-  block_height: number;
-  block_hash: string;
-  timestamp: number;
-  timestamp_nanosec: string;
-}
+export type { Block, NetworkStatus, Transaction };
 
 export class NearRpcClient {
   private rpcUrl: string;
@@ -171,12 +137,12 @@ export class NearRpcClient {
     return this.call('chunk', [chunkId]);
   }
 
+  // Exact BigInt conversion - see lib/nearUnits.ts for rounding options
   formatNear(yoctoNear: string): string {
     try {
-      const value = parseFloat(yoctoNear) / 1e24;
-      return value.toFixed(4);
+      return yoctoToNear(yoctoNear);
     } catch {
-      return '0.0000';
+      return '0';
     }
   }
 
@@ -1,45 +1,202 @@
 // NEAR RPC Client with Automatic Failover and Retry Logic
 
 import { providerManager, RpcProvider } from './providerManager';
+import { httpError, rpcBatcher } from './rpcBatcher';
 import { rpcProxy } from './rpcProxy';
-import type { Block, NetworkStatus, Transaction } from './nearRpc';
+import { orderProviders, outstandingRequests } from './providerSelection';
+import { circuitBreakers, CircuitState } from './circuitBreaker';
+import { rateLimiter } from './rateLimiter';
+import { ProviderAnswer, fingerprintResult, verificationReports, readSubjects } from './rpcVerification';
+import {
+  AllProvidersFailedError,
+  CircuitOpenError,
+  GarbageCollectedBlockError,
+  InvalidResponseError,
+  NearRpcError,
+  NoProvidersError,
+  RequestTimeoutError,
+  RpcRateLimitError,
+  UnknownBlockError,
+  createRpcError,
+  isRetryableError,
+  shouldFailover,
+  toRpcError,
+} from './rpcErrors';
+import { LinkedSignal, abortError, isAbortError, linkSignal, sleep, throwIfAborted } from './abortSignals';
+import { LruCache } from './lruCache';
+import { validateRpcResult } from './rpcSchemas';
+import { DEFAULT_SEARCH_WINDOW, TransactionSearchOptions, searchTransactionInBlocks } from './transactionSearch';
+import { yoctoToNear } from './nearUnits';
+import './rpcReplay'; // Registers the replay:// transport
+import './demoChain'; // Registers the demo:// transport
+import {
+  AccessKeyListView,
+  AccessKeyView,
+  AccountView,
+  Block,
+  BlockReference,
+  CallFunctionResult,
+  Chunk,
+  Finality,
+  ContractCodeView,
+  EpochValidatorInfo,
+  GasPriceView,
+  GenesisConfigView,
+  LightClientProof,
+  LightClientProofRequest,
+  NetworkInfoView,
+  NetworkStatus,
+  ProtocolConfigView,
+  ReceiptView,
+  Transaction,
+  TxExecutionStatus,
+  TxStatusResult,
+  ViewStateResult,
+} from './nearRpcTypes';
 
-export { Block, NetworkStatus, Transaction };
+export type { Block, NetworkStatus, Transaction };
 
-interface RpcError {
-  code: number;
-  message: string;
-  data?: any;
+// A JSON-RPC request sent to a provider (carried by 'request' and 'response' events)
+export interface RpcRequestInfo {
+  id: number; // JSON-RPC id - unique per request, so every retry gets a new one
+  callId?: number; // Client call the request belongs to (shared by its retries and failovers)
+  method: string;
+  params: any;
+  transport: 'proxy' | 'direct';
 }
 
-interface FailoverEvent {
-  type: 'provider-switch' | 'retry' | 'error' | 'success';
+export interface FailoverEvent {
+  type: 'provider-switch' | 'retry' | 'error' | 'success' | 'circuit-state' | 'rate-limited' | 'hedge' | 'verification-mismatch' | 'archival-fallback' | 'request' | 'response';
   providerId?: string;
   providerUrl?: string;
   attempt?: number;
   error?: string;
+  circuitState?: CircuitState;
+  retryAfterMs?: number;
+  // For 'hedge' events: the hedge was sent, or it answered before / after the primary
+  hedgeOutcome?: 'fired' | 'won' | 'lost';
+  // For 'request' / 'response' events
+  request?: RpcRequestInfo;
+  result?: any; // Response result (absent when the request failed)
+  responseTime?: number;
+  aborted?: boolean; // Cancelled before the provider answered
 }
 
 type FailoverListener = (event: FailoverEvent) => void;
 
+/**
+ * Per-call options accepted by every public method.
+ * - signal: cancels the call (including retries and failover) when aborted
+ * - timeoutMs: per-attempt timeout; a timeout counts as a network failure and triggers failover
+ * - hedge: when hedging is enabled in Settings, also send the call to a second provider if the
+ *   first one is slow (use for latency-sensitive reads only)
+ * - verify: when verify mode is enabled in Settings, send immutable reads (block by height,
+ *   chunk by hash, EXPERIMENTAL_tx_status) to several providers and compare the answers
+ */
+export interface RpcCallOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  hedge?: boolean;
+  verify?: boolean;
+}
+
+// Provider that served an immutable read from archival storage
+export interface ArchivalSource {
+  providerId: string;
+  providerName: string;
+}
+
+// Bookkeeping shared between call() and the strategies it delegates to
+interface CallTrace {
+  id: number; // Reported as `callId` on request events
+  tried: Set<string>; // Providers that were asked
+  servedBy?: RpcProvider; // Provider whose answer (result or RPC error) was returned
+}
+
+// Methods whose data a regular node garbage-collects after ~5 epochs
+const ARCHIVAL_METHODS = new Set(['block', 'chunk', 'EXPERIMENTAL_tx_status']);
+// Keep the archival label map from growing without bound on long sessions
+const MAX_ARCHIVAL_SOURCES = 500;
+// Immutable results (blocks, chunks) kept in memory and shared by every caller
+const MAX_CACHED_RESULTS = 500;
+
+// Methods that submit a signed transaction - sending one again submits it again
+const MUTATING_METHODS = new Set(['send_tx', 'broadcast_tx_async', 'broadcast_tx_commit']);
+
+export function isMutatingMethod(method: string): boolean {
+  return MUTATING_METHODS.has(method);
+}
+
+// A request that identical calls join instead of sending their own
+interface InflightCall {
+  promise: Promise<any>;
+  controller: AbortController;
+  waiters: number;
+}
+
+export interface HedgeStats {
+  fired: number;
+  won: number;
+}
+
 class NearRpcFailoverClient {
   private requestId: number = 0;
-  private currentProviderIndex: number = 0;
+  private callCount: number = 0;
+  private currentProviderId: string | null = null; // Provider that served the last request
+  private pinnedProviderId: string | null = null; // Manually selected provider, always tried first
   private listeners: FailoverListener[] = [];
+  private hedgeStats: HedgeStats = { fired: 0, won: 0 };
+  private archivalSources: Map<string, ArchivalSource> = new Map();
+  private archivalChecked: Set<string> = new Set(); // Providers we already ran archival detection for
+  private inflight: Map<string, InflightCall> = new Map();
+  private resultCache = new LruCache<string, any>(MAX_CACHED_RESULTS);
+  private finalHeadHeight: Partial<Record<string, number>> = {}; // Highest final block seen, per network
   
   // Retry configuration
   private readonly MAX_RETRIES = 3;
   private readonly INITIAL_BACKOFF = 100; // ms
   private readonly BACKOFF_MULTIPLIER = 3;
+  private readonly DEFAULT_TIMEOUT = 15000; // ms per attempt
+  private readonly PROBE_TIMEOUT = 5000; // ms for a half-open circuit breaker probe
+  private readonly MAX_RATE_LIMIT_WAIT = 1000; // ms to wait for a rate-limited provider before routing elsewhere
 
   constructor() {
     // Clear any bad provider data from localStorage (from broken GitHub parsing)
     // This ensures we always use the correct hardcoded RPC endpoints
     this.initializeProviders();
     
-    // Subscribe to provider manager changes to reset provider index when network changes
+    // Subscribe to provider manager changes to forget provider choices when the network changes
+    let network = providerManager.getSelectedNetwork();
     providerManager.subscribe(() => {
-      this.currentProviderIndex = 0;
+      if (providerManager.getSelectedNetwork() !== network) {
+        network = providerManager.getSelectedNetwork();
+        this.currentProviderId = null;
+        this.pinnedProviderId = null;
+      }
+    });
+    
+    // Forget what was read from a deleted network: a new network with the same name reuses its id
+    providerManager.onNetworkRemoved(({ id }) => {
+      const prefix = `${id}|`;
+      this.inflight.forEach((entry, key) => {
+        if (key.startsWith(prefix)) {
+          this.inflight.delete(key);
+          entry.controller.abort();
+        }
+      });
+      this.resultCache.deleteWhere(key => key.startsWith(prefix));
+      delete this.finalHeadHeight[id];
+    });
+    
+    // Surface circuit breaker transitions to the UI
+    circuitBreakers.subscribe((providerId, status) => {
+      const provider = providerManager.getAllProviders().find(p => p.id === providerId);
+      this.notifyListeners({
+        type: 'circuit-state',
+        providerId,
+        providerUrl: provider?.url,
+        circuitState: status.state,
+      });
     });
   }
 
@@ -59,25 +216,11 @@ class NearRpcFailoverClient {
     }
   }
 
-  // Get current provider
+  // Get current provider (the one that served the last request, or the policy's first choice)
   private getCurrentProvider(): RpcProvider | null {
-    const providers = providerManager.getEnabledProviders();
-    
-    if (providers.length === 0) {
-      return null;
-    }
-    
-    // Ensure index is within bounds
-    if (this.currentProviderIndex >= providers.length) {
-      this.currentProviderIndex = 0;
-    }
-    
-    // Handle negative index just in case
-    if (this.currentProviderIndex < 0) {
-      this.currentProviderIndex = 0;
-    }
-    
-    return providers[this.currentProviderIndex];
+    const providers = this.getProviders();
+    const current = providers.find(p => p.id === this.currentProviderId);
+    return current || this.getOrderedProviders()[0] || null;
   }
 
   // Get all enabled providers
@@ -85,83 +228,523 @@ class NearRpcFailoverClient {
     return providerManager.getEnabledProviders();
   }
 
+  // Enabled providers in the order this call should try them, as decided by the
+  // network's selection policy (see lib/providerSelection.ts). A manually selected
+  // provider always goes first.
+  private getOrderedProviders(): RpcProvider[] {
+    const ordered = orderProviders(this.getProviders());
+    const pinned = ordered.find(p => p.id === this.pinnedProviderId);
+    return pinned ? [pinned, ...ordered.filter(p => p !== pinned)] : ordered;
+  }
+
   // Switch to next provider
-  private switchToNextProvider(): RpcProvider | null {
-    const providers = this.getProviders();
-    
-    if (providers.length === 0) {
-      return null;
-    }
-    
-    this.currentProviderIndex = (this.currentProviderIndex + 1) % providers.length;
-    const provider = providers[this.currentProviderIndex];
+  private switchToProvider(provider: RpcProvider): void {
+    this.currentProviderId = provider.id;
     
     this.notifyListeners({
       type: 'provider-switch',
       providerId: provider.id,
       providerUrl: provider.url,
     });
-    
-    return provider;
   }
 
-  // Determine if error is network-related (should trigger failover)
-  private isNetworkError(error: any): boolean {
-    // Network errors include:
-    // - Fetch failures (network unreachable, timeout, CORS)
-    // - HTTP errors (500, 502, 503, 504)
-    // - Connection errors
+  // Half-open circuit breaker probe: a single `status` call decides whether the
+  // provider is used again. Returns false when the probe failed or another call
+  // is already probing the provider.
+  private async probeProvider(provider: RpcProvider, signal?: AbortSignal): Promise<boolean> {
+    if (!circuitBreakers.beginProbe(provider.id)) {
+      return false;
+    }
     
-    if (error instanceof TypeError) {
-      // Fetch network errors are TypeErrors
+    const attempt = linkSignal(signal, this.PROBE_TIMEOUT);
+    try {
+      const data = await rpcBatcher.enqueue(provider.url, {
+        jsonrpc: '2.0',
+        id: ++this.requestId,
+        method: 'status',
+        params: [],
+      }, attempt.signal, providerManager.getRequestHeaders(provider));
+      if (data.error) {
+        throw createRpcError(data.error);
+      }
+      circuitBreakers.recordSuccess(provider.id);
       return true;
+    } catch (err) {
+      if (signal?.aborted) {
+        circuitBreakers.cancelProbe(provider.id);
+        throw err;
+      }
+      circuitBreakers.recordFailure(provider.id);
+      return false;
+    } finally {
+      attempt.cleanup();
     }
+  }
+
+  // Entry point for every RPC call. Immutable results (blocks by height or hash, chunks
+  // by hash) are served from a shared LRU cache, and identical calls that are already in
+  // flight are joined rather than sent again. Each caller can still cancel its own wait;
+  // the shared request is aborted once every caller has gone away.
+  private async call(method: string, params: any, options: RpcCallOptions = {}): Promise<any> {
+    const { signal } = options;
+    throwIfAborted(signal);
     
-    if (error.message) {
-      const msg = error.message.toLowerCase();
-      return (
-        msg.includes('fetch') ||
-        msg.includes('network') ||
-        msg.includes('timeout') ||
-        msg.includes('econnrefused') ||
-        msg.includes('enotfound') ||
-        msg.includes('cors') ||
-        msg.includes('502') ||
-        msg.includes('503') ||
-        msg.includes('504')
-      );
+    const network = providerManager.getSelectedNetwork();
+    // Verified calls must reach several providers - don't answer them from unverified data
+    const verifying = !!options.verify && providerManager.getVerificationConfig().enabled;
+    const cacheKeys = this.getCacheKeys(method, params, network);
+    
+    if (cacheKeys.length > 0 && !verifying) {
+      const cached = this.resultCache.get(`${network}|${cacheKeys[0]}`);
+      if (cached !== undefined) return cached;
     }
     
-    return false;
+    const key = `${network}|${method}|${JSON.stringify(params)}${verifying ? '|verify' : ''}`;
+    let entry = this.inflight.get(key);
+    if (!entry) {
+      const controller = new AbortController();
+      const created: InflightCall = {
+        promise: this.execute(method, params, { ...options, signal: controller.signal }),
+        controller,
+        waiters: 0,
+      };
+      entry = created;
+      this.inflight.set(key, created);
+      
+      created.promise
+        .then((result) => {
+          if (method === 'block' && params?.finality === 'final') {
+            this.finalHeadHeight[network] = Math.max(this.finalHeadHeight[network] ?? 0, result.header.height);
+          }
+          // A finality-based block read only tells us its height and hash once it arrives
+          this.getCacheKeys(method, params, network, result).forEach(cacheKey =>
+            this.resultCache.set(`${network}|${cacheKey}`, result)
+          );
+        }, () => {})
+        .finally(() => {
+          if (this.inflight.get(key) === created) this.inflight.delete(key);
+        });
+    }
+    
+    return this.joinInflight(key, entry, signal);
+  }
+
+  // Wait for a shared request on behalf of one caller
+  private joinInflight(key: string, entry: InflightCall, signal?: AbortSignal): Promise<any> {
+    entry.waiters++;
+    // Callers without a signal never cancel, so the shared request always completes
+    if (!signal) return entry.promise;
+    
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        entry.waiters--;
+        if (entry.waiters === 0) {
+          // Nobody is waiting any more - cancel the request so later calls start a fresh one
+          if (this.inflight.get(key) === entry) this.inflight.delete(key);
+          entry.controller.abort(abortError(signal));
+        }
+        reject(abortError(signal));
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      
+      entry.promise.then(
+        (result) => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        (error) => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  // Cache keys for an immutable result: blocks by height and hash, chunks by hash.
+  // Blocks are only cached once final (at or below the latest final block we have
+  // seen), so optimistic blocks never stick.
+  private getCacheKeys(method: string, params: any, network: string, result?: any): string[] {
+    if (method === 'block') {
+      const header = result?.header;
+      if (header) {
+        const isFinal = params?.finality === 'final'
+          || (params?.block_id !== undefined && header.height <= (this.finalHeadHeight[network] ?? 0));
+        return isFinal ? [readSubjects.block(header.height), readSubjects.block(header.hash)] : [];
+      }
+      return params?.block_id !== undefined ? [readSubjects.block(params.block_id)] : [];
+    }
+    if (method === 'chunk' && Array.isArray(params) && typeof params[0] === 'string') {
+      return [readSubjects.chunk(params[0])];
+    }
+    return [];
   }
 
-  // Sleep utility for backoff
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  /**
+   * Drop every cached block and chunk (e.g. when the user clears caches in Settings)
+   */
+  clearCache(): void {
+    this.resultCache.clear();
   }
 
   // Core RPC call with retry and failover
-  private async call(method: string, params: any): Promise<any> {
-    const providers = this.getProviders();
+  //
+  // Errors are classified by type (see lib/rpcErrors.ts):
+  // - retryable errors (network failures, 5xx, node timeouts) are retried on the same provider
+  // - failover errors (node not synced, data garbage-collected) move on to the next provider
+  // - everything else (unknown block, invalid params, ...) is a valid answer and is thrown as-is
+  //
+  // Providers whose circuit breaker is open are skipped (see lib/circuitBreaker.ts).
+  // Each HTTP request takes a rate limiter token (see lib/rateLimiter.ts); a provider that
+  // answers HTTP 429 backs off for its Retry-After and the call moves to the next provider.
+  private async execute(method: string, params: any, options: RpcCallOptions): Promise<any> {
+    const providers = this.getOrderedProviders();
     
     if (providers.length === 0) {
-      throw new Error('No RPC providers enabled. Please enable at least one provider in settings.');
+      throw new NoProvidersError();
+    }
+    
+    const trace: CallTrace = { id: ++this.callCount, tried: new Set() };
+    let result;
+    try {
+      result = await this.dispatch(method, params, options, providers, trace);
+    } catch (err) {
+      if (!this.needsArchival(method, err)) {
+        throw err;
+      }
+      result = await this.archivalCall(method, params, options, err as NearRpcError, trace);
+    }
+    
+    this.recordArchivalSource(method, params, trace.servedBy);
+    return result;
+  }
+
+  // Pick the strategy for a call: verified, hedged or plain failover
+  private dispatch(
+    method: string,
+    params: any,
+    options: RpcCallOptions,
+    providers: RpcProvider[],
+    trace: CallTrace
+  ): Promise<any> {
+    // Only block *by height* is verified - a block fetched by hash is self-identifying
+    const verifySubject = options.verify && providerManager.getVerificationConfig().enabled &&
+      !(method === 'block' && typeof params?.block_id !== 'number')
+      ? this.getReadSubject(method, params)
+      : undefined;
+    if (verifySubject) {
+      return this.verifiedCall(method, params, options, providers, verifySubject, trace);
+    }
+    
+    if (options.hedge && providerManager.getHedgingConfig().enabled) {
+      const [primary, ...others] = providers;
+      const hedgeTarget = others.find(p => this.isHedgeCandidate(p));
+      if (hedgeTarget && this.isHedgeCandidate(primary)) {
+        return this.hedgedCall(method, params, options, providers, hedgeTarget, trace);
+      }
+    }
+    
+    return this.callWithFailover(method, params, options, providers, trace);
+  }
+
+  // Errors a regular node returns once data has been garbage-collected
+  private needsArchival(method: string, error: unknown): boolean {
+    return ARCHIVAL_METHODS.has(method) &&
+      (error instanceof UnknownBlockError || error instanceof GarbageCollectedBlockError);
+  }
+
+  // Retry a read that a regular node could not serve against the network's archival
+  // providers. Providers with unknown archival status are detected first.
+  private async archivalCall(
+    method: string,
+    params: any,
+    options: RpcCallOptions,
+    originalError: NearRpcError,
+    trace: CallTrace
+  ): Promise<any> {
+    // NEAR skips heights, so UNKNOWN_BLOCK at or above the node's earliest block means the
+    // block never existed - not that it was pruned
+    if (originalError instanceof UnknownBlockError && typeof params?.block_id === 'number' && trace.servedBy) {
+      await this.ensureArchivalDetected(trace.servedBy);
+      const earliest = providerManager.getHealth(trace.servedBy.id)?.earliestBlockHeight;
+      if (earliest !== undefined && params.block_id >= earliest) {
+        throw originalError;
+      }
+    }
+    
+    const untried = () => providerManager.getArchivalProviders().filter(p => !trace.tried.has(p.id));
+    let candidates = untried();
+    if (candidates.length === 0) {
+      await Promise.all(
+        providerManager.getEnabledProviders()
+          .filter(p => p.archival === undefined && !trace.tried.has(p.id))
+          .map(p => this.ensureArchivalDetected(p))
+      );
+      candidates = untried();
+    }
+    throwIfAborted(options.signal);
+    
+    if (candidates.length === 0) {
+      throw originalError;
+    }
+    
+    this.notifyListeners({
+      type: 'archival-fallback',
+      providerId: candidates[0].id,
+      providerUrl: candidates[0].url,
+      error: originalError.message,
+    });
+    return this.callWithFailover(method, params, options, candidates, trace);
+  }
+
+  // Run archival detection once per provider per session
+  private async ensureArchivalDetected(provider: RpcProvider): Promise<void> {
+    if (this.archivalChecked.has(provider.id)) return;
+    this.archivalChecked.add(provider.id);
+    await providerManager.detectArchival(provider.id);
+  }
+
+  private recordArchivalSource(method: string, params: any, servedBy?: RpcProvider): void {
+    const subject = this.getReadSubject(method, params);
+    if (!subject || !servedBy || !providerManager.isArchival(servedBy)) return;
+    
+    this.archivalSources.delete(subject);
+    this.archivalSources.set(subject, { providerId: servedBy.id, providerName: servedBy.name });
+    if (this.archivalSources.size > MAX_ARCHIVAL_SOURCES) {
+      // Maps iterate in insertion order - drop the oldest entry
+      const oldest = this.archivalSources.keys().next().value;
+      if (oldest !== undefined) this.archivalSources.delete(oldest);
+    }
+  }
+
+  // Only providers that look healthy are worth a duplicate request
+  private isHedgeCandidate(provider: RpcProvider): boolean {
+    return (
+      circuitBreakers.getState(provider.id) === 'closed' &&
+      !rateLimiter.isBlocked(provider.id) &&
+      providerManager.getHealth(provider.id)?.isHealthy !== false
+    );
+  }
+
+  // Hedged call: the primary provider gets `delayMs` to answer, after which the same
+  // request also goes to `hedgeTarget`. The first successful answer wins and the other
+  // request is aborted. Each side keeps its own retry/failover over the remaining providers.
+  private hedgedCall(
+    method: string,
+    params: any,
+    options: RpcCallOptions,
+    providers: RpcProvider[],
+    hedgeTarget: RpcProvider,
+    trace: CallTrace
+  ): Promise<any> {
+    const { signal } = options;
+    const { delayMs } = providerManager.getHedgingConfig();
+    const [primary] = providers;
+    const hedgeProviders = [hedgeTarget, ...providers.filter(p => p !== primary && p !== hedgeTarget)];
+    
+    return new Promise((resolve, reject) => {
+      const attempts: LinkedSignal[] = [];
+      let settled = false;
+      let running = 0;
+      let hedgeTimer: ReturnType<typeof setTimeout> | undefined;
+      
+      const settle = () => {
+        settled = true;
+        if (hedgeTimer) clearTimeout(hedgeTimer);
+        // Abort whichever request lost the race
+        attempts.forEach(attempt => {
+          attempt.abort();
+          attempt.cleanup();
+        });
+      };
+      
+      const launch = (ordered: RpcProvider[], isHedge: boolean) => {
+        const attempt = linkSignal(signal);
+        attempts.push(attempt);
+        running++;
+        
+        if (isHedge) {
+          this.hedgeStats.fired++;
+          this.notifyListeners({
+            type: 'hedge',
+            providerId: hedgeTarget.id,
+            providerUrl: hedgeTarget.url,
+            hedgeOutcome: 'fired',
+          });
+        }
+        
+        this.callWithFailover(method, params, { ...options, signal: attempt.signal }, ordered, trace).then(
+          (result) => {
+            if (settled) return;
+            const hedgeFired = hedgeTimer === undefined;
+            settle();
+            if (isHedge) this.hedgeStats.won++;
+            if (hedgeFired) {
+              this.notifyListeners({
+                type: 'hedge',
+                providerId: hedgeTarget.id,
+                providerUrl: hedgeTarget.url,
+                hedgeOutcome: isHedge ? 'won' : 'lost',
+              });
+            }
+            resolve(result);
+          },
+          (error) => {
+            running--;
+            if (settled) return;
+            // A valid node answer (not found, ...) or cancellation ends the race;
+            // a failure only does once the other side has failed as well
+            const providerFailure = error instanceof AllProvidersFailedError || shouldFailover(error);
+            if (signal?.aborted || !providerFailure || running === 0) {
+              settle();
+              reject(error);
+            }
+          }
+        );
+      };
+      
+      launch(providers, false);
+      hedgeTimer = setTimeout(() => {
+        hedgeTimer = undefined;
+        if (!settled) launch(hedgeProviders, true);
+      }, delayMs);
+    });
+  }
+
+  // Subject of an immutable read (used for verification reports and archival labels)
+  private getReadSubject(method: string, params: any): string | undefined {
+    if (method === 'block' && params?.block_id !== undefined) {
+      return readSubjects.block(params.block_id);
+    }
+    if (method === 'chunk' && Array.isArray(params) && typeof params[0] === 'string') {
+      return readSubjects.chunk(params[0]);
+    }
+    if (method === 'EXPERIMENTAL_tx_status' && Array.isArray(params)) {
+      return readSubjects.transaction(params[0]);
+    }
+    return undefined;
+  }
+
+  // Verified call: the same read goes to `quorum` providers in parallel and the answers
+  // are compared (see lib/rpcVerification.ts). The majority answer is returned; providers
+  // that disagreed are recorded in the report and in their health stats.
+  private async verifiedCall(
+    method: string,
+    params: any,
+    options: RpcCallOptions,
+    providers: RpcProvider[],
+    subject: string,
+    trace: CallTrace
+  ): Promise<any> {
+    const { quorum } = providerManager.getVerificationConfig();
+    const verifiers = providers.filter(p => circuitBreakers.getState(p.id) !== 'open').slice(0, quorum);
+    
+    if (verifiers.length < 2) {
+      return this.callWithFailover(method, params, options, providers, trace);
+    }
+    
+    // Each verifier gets its own retries but no failover - the point is to hear from each of them
+    const results = await Promise.allSettled(
+      verifiers.map(provider => this.callWithFailover(method, params, options, [provider], trace))
+    );
+    throwIfAborted(options.signal);
+    
+    const answers: ProviderAnswer[] = results.map((result, i) => ({
+      providerId: verifiers[i].id,
+      providerName: verifiers[i].name,
+      ...(result.status === 'fulfilled'
+        ? { fingerprint: fingerprintResult(method, result.value) }
+        : { error: result.reason instanceof Error ? result.reason.message : String(result.reason) }),
+    }));
+    
+    // Nobody answered - surface the first provider's error as a normal call would
+    if (answers.every(answer => answer.fingerprint === undefined)) {
+      trace.servedBy = verifiers[0];
+      throw (results[0] as PromiseRejectedResult).reason;
     }
     
+    // Majority vote; ties go to the provider that comes first in selection order
+    const votes = new Map<string, number>();
+    answers.forEach(answer => {
+      if (answer.fingerprint !== undefined) {
+        votes.set(answer.fingerprint, (votes.get(answer.fingerprint) || 0) + 1);
+      }
+    });
+    const acceptedFingerprint = [...votes.entries()].reduce((best, entry) => entry[1] > best[1] ? entry : best)[0];
+    const acceptedIndex = answers.findIndex(answer => answer.fingerprint === acceptedFingerprint);
+    const disagreeing = answers.filter(answer =>
+      answer.fingerprint !== undefined && answer.fingerprint !== acceptedFingerprint
+    );
+    
+    verificationReports.record({
+      subject,
+      method,
+      checkedAt: Date.now(),
+      answers,
+      acceptedFingerprint,
+      disagreeingProviderIds: disagreeing.map(answer => answer.providerId),
+    });
+    
+    disagreeing.forEach(answer => {
+      const health = providerManager.getHealth(answer.providerId);
+      providerManager.updateHealth(answer.providerId, {
+        disagreements: (health?.disagreements || 0) + 1,
+      });
+      this.notifyListeners({
+        type: 'verification-mismatch',
+        providerId: answer.providerId,
+        providerUrl: verifiers.find(p => p.id === answer.providerId)?.url,
+        error: `Answer for ${subject} differs from the majority`,
+      });
+    });
+    
+    trace.servedBy = verifiers[acceptedIndex];
+    return (results[acceptedIndex] as PromiseFulfilledResult<any>).value;
+  }
+
+  private async callWithFailover(
+    method: string,
+    params: any,
+    options: RpcCallOptions,
+    providers: RpcProvider[],
+    trace?: CallTrace
+  ): Promise<any> {
+    const { signal, timeoutMs = this.DEFAULT_TIMEOUT } = options;
+    
+    let lastError: Error | undefined;
+    let triedProvider = false;
+    
     // Try each provider
-    for (let providerAttempt = 0; providerAttempt < providers.length; providerAttempt++) {
-      const provider = this.getCurrentProvider();
+    for (let providerIndex = 0; providerIndex < providers.length; providerIndex++) {
+      const provider = providers[providerIndex];
+      const hasFallback = providerIndex < providers.length - 1;
+      
+      const circuitState = circuitBreakers.getState(provider.id);
+      if (circuitState === 'open' || (circuitState === 'half-open' && !(await this.probeProvider(provider, signal)))) {
+        lastError = lastError || new CircuitOpenError(provider.id);
+        continue;
+      }
       
-      if (!provider) {
-        throw new Error('No provider available');
+      // Route around a provider that is backing off or out of tokens for a while;
+      // the last provider is waited for instead
+      const rateLimitWait = rateLimiter.getWaitTime(provider.id);
+      if (rateLimitWait > this.MAX_RATE_LIMIT_WAIT && hasFallback) {
+        lastError = lastError || new RpcRateLimitError(rateLimitWait);
+        continue;
       }
       
+      // Moving on from a provider that could not serve the request
+      if (triedProvider) {
+        this.switchToProvider(provider);
+      }
+      triedProvider = true;
+      trace?.tried.add(provider.id);
+      
       // Retry current provider with exponential backoff
       for (let retry = 0; retry < this.MAX_RETRIES; retry++) {
         try {
           if (retry > 0) {
             const backoffTime = this.INITIAL_BACKOFF * Math.pow(this.BACKOFF_MULTIPLIER, retry - 1);
-            await this.sleep(backoffTime);
+            await sleep(backoffTime, signal);
             
             this.notifyListeners({
               type: 'retry',
@@ -171,50 +754,52 @@ class NearRpcFailoverClient {
             });
           }
           
+          // Batched calls share an HTTP request - its token is taken when the batcher sends it.
+          // Endpoints that only take single requests pay for each call up front.
+          const batched = rpcBatcher.supportsBatching(provider.url);
+          await (batched ? rateLimiter.waitForToken(provider.id, signal) : rateLimiter.acquire(provider.id, signal));
           const startTime = Date.now();
+          const request = this.announceRequest(provider, method, params, trace, retry + 1);
           
-          const body = JSON.stringify({
-            jsonrpc: '2.0',
-            id: ++this.requestId,
-            method,
-            params,
-          });
-          
-          // Use smart fetch which automatically decides proxy vs direct
-          const response = await rpcProxy.smartFetch(provider.url, body);
-          
-          const responseTime = Date.now() - startTime;
-          
-          if (!response.ok) {
-            // HTTP errors might be network issues
-            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+          // Calls made in the same tick are sent together as one JSON-RPC batch
+          // (the batcher uses smartFetch, which decides proxy vs direct)
+          const attempt = linkSignal(signal, timeoutMs);
+          let data;
+          outstandingRequests.start(provider.id);
+          try {
+            data = await rpcBatcher.enqueue(provider.url, {
+              jsonrpc: '2.0',
+              id: request.id,
+              method,
+              params,
+            }, attempt.signal, providerManager.getRequestHeaders(provider), batched ? provider.id : undefined);
+          } catch (fetchError) {
+            const error = attempt.timedOut() ? new RequestTimeoutError(timeoutMs) : fetchError;
+            this.announceResponse(provider, request, startTime, { error });
+            throw error;
+          } finally {
+            outstandingRequests.finish(provider.id);
+            attempt.cleanup();
           }
           
-          const data = await response.json();
-          
-          // Check for RPC errors
-          if (data.error) {
-            const rpcError = data.error as RpcError;
-            
-            // RPC-level errors (like "not found", "invalid params") should NOT trigger failover
-            // These are valid responses from the server
-            providerManager.updateHealth(provider.id, {
-              isHealthy: true,
-              responseTime,
-            });
-            
-            // Provide more detailed error message
-            const errorMessage = rpcError.message || 'RPC error';
-            const errorCode = rpcError.code ? ` (code: ${rpcError.code})` : '';
-            throw new Error(`${errorMessage}${errorCode}`);
-          }
+          const responseTime = Date.now() - startTime;
           
-          // Success!
+          // The provider answered - record its latency even if the answer is an RPC error
           providerManager.updateHealth(provider.id, {
             isHealthy: true,
             responseTime,
           });
           
+          // A malformed result fails here, once, and is treated as a provider failure
+          const answerError = this.checkAnswer(method, params, data);
+          this.announceResponse(provider, request, startTime, { result: data.result, error: answerError });
+          if (answerError) {
+            throw answerError;
+          }
+          
+          circuitBreakers.recordSuccess(provider.id);
+          this.currentProviderId = provider.id;
+          if (trace) trace.servedBy = provider;
           this.notifyListeners({
             type: 'success',
             providerId: provider.id,
@@ -223,141 +808,404 @@ class NearRpcFailoverClient {
           
           return data.result;
           
-        } catch (error) {
+        } catch (err) {
+          // Cancelled by the caller - stop immediately, this says nothing about the provider
+          if (signal?.aborted || isAbortError(err)) {
+            throw err;
+          }
+          
+          const error = toRpcError(err);
+          
+          if (!shouldFailover(error)) {
+            // A valid answer from the node (not found, invalid params, ...) - don't retry or failover
+            circuitBreakers.recordSuccess(provider.id);
+            if (trace) trace.servedBy = provider;
+            throw error;
+          }
+          
+          lastError = error;
           const isLastRetry = retry === this.MAX_RETRIES - 1;
-          const isLastProvider = providerAttempt === providers.length - 1;
           
-          // Check if it's a network error
-          if (this.isNetworkError(error)) {
-            providerManager.updateHealth(provider.id, {
-              isHealthy: false,
-              error: error instanceof Error ? error.message : 'Unknown error',
-            });
-            
+          if (error instanceof RpcRateLimitError) {
+            // Rate limiting says nothing about the provider's health - back off and
+            // route elsewhere, or wait out Retry-After if this is the last provider
+            rateLimiter.backOff(provider.id, error.retryAfterMs);
             this.notifyListeners({
-              type: 'error',
+              type: 'rate-limited',
               providerId: provider.id,
               providerUrl: provider.url,
-              error: error instanceof Error ? error.message : 'Unknown error',
+              retryAfterMs: error.retryAfterMs,
             });
-            
-            if (isLastRetry) {
-              // Move to next provider
+            if (hasFallback || isLastRetry) {
               break;
             }
-            // Retry with backoff
             continue;
-          } else {
-            // RPC error (not network error) - don't retry or failover
-            throw error;
           }
+          
+          circuitBreakers.recordFailure(provider.id);
+          
+          providerManager.updateHealth(provider.id, {
+            isHealthy: false,
+            error: error.message,
+          });
+          
+          this.notifyListeners({
+            type: 'error',
+            providerId: provider.id,
+            providerUrl: provider.url,
+            error: error.message,
+          });
+          
+          if (isLastRetry || !isRetryableError(error) || circuitBreakers.getState(provider.id) === 'open') {
+            // Move to next provider
+            break;
+          }
+          // Retry with backoff
         }
       }
       
-      // If we get here, all retries failed for this provider
-      // Switch to next provider
-      if (providerAttempt < providers.length - 1) {
-        this.switchToNextProvider();
+      // If we get here, this provider could not serve the request
+    }
+    
+    // All providers exhausted. Node-level errors (e.g. garbage-collected everywhere) and
+    // malformed results are surfaced directly so pages can explain them; transport failures are wrapped.
+    if (lastError instanceof NearRpcError || lastError instanceof InvalidResponseError) {
+      throw lastError;
+    }
+    throw new AllProvidersFailedError(lastError);
+  }
+
+  // A single attempt outside of retry and failover (sendTransaction, callProvider)
+  private async sendOnce(provider: RpcProvider, method: string, params: any, options: RpcCallOptions): Promise<any> {
+    const { signal, timeoutMs = this.DEFAULT_TIMEOUT } = options;
+    await rateLimiter.acquire(provider.id, signal);
+    const startTime = Date.now();
+    const request = this.announceRequest(provider, method, params, { id: ++this.callCount, tried: new Set() }, 1);
+    
+    const attempt = linkSignal(signal, timeoutMs);
+    let data;
+    try {
+      const response = await rpcProxy.smartFetch(
+        provider.url,
+        JSON.stringify({ jsonrpc: '2.0', id: request.id, method, params }),
+        attempt.signal,
+        providerManager.getRequestHeaders(provider)
+      );
+      if (!response.ok) {
+        throw await httpError(response);
       }
+      data = await response.json();
+    } catch (err) {
+      const error = attempt.timedOut() ? new RequestTimeoutError(timeoutMs) : isAbortError(err) ? err : toRpcError(err);
+      this.announceResponse(provider, request, startTime, { error });
+      throw error;
+    } finally {
+      attempt.cleanup();
     }
     
-    // All providers exhausted
-    throw new Error('All RPC providers failed. Please check your network connection and provider settings.');
+    const answerError = this.checkAnswer(method, params, data);
+    this.announceResponse(provider, request, startTime, { result: data.result, error: answerError });
+    if (answerError) {
+      throw answerError;
+    }
+    return data.result;
+  }
+
+  // The RPC error or malformed result in a provider's answer, if any
+  private checkAnswer(method: string, params: any, data: any): Error | undefined {
+    if (data.error) {
+      return createRpcError(data.error);
+    }
+    try {
+      validateRpcResult(method, params, data.result);
+    } catch (err) {
+      return err as Error;
+    }
+    return undefined;
+  }
+
+  // Report a request about to be sent (see the traffic inspector, lib/rpcInspector.ts)
+  private announceRequest(
+    provider: RpcProvider,
+    method: string,
+    params: any,
+    trace: CallTrace | undefined,
+    attempt: number
+  ): RpcRequestInfo {
+    const request: RpcRequestInfo = {
+      id: ++this.requestId,
+      callId: trace?.id,
+      method,
+      params,
+      transport: rpcProxy.usesProxy(provider.url) ? 'proxy' : 'direct',
+    };
+    this.notifyListeners({ type: 'request', providerId: provider.id, providerUrl: provider.url, attempt, request });
+    return request;
+  }
+
+  private announceResponse(
+    provider: RpcProvider,
+    request: RpcRequestInfo,
+    startTime: number,
+    answer: { result?: any; error?: unknown }
+  ): void {
+    const { result, error } = answer;
+    this.notifyListeners({
+      type: 'response',
+      providerId: provider.id,
+      providerUrl: provider.url,
+      request,
+      responseTime: Date.now() - startTime,
+      ...(error === undefined
+        ? { result }
+        : { error: error instanceof Error ? error.message : String(error), aborted: isAbortError(error) }),
+    });
   }
 
   // Public API methods (matching original NearRpcClient)
   
-  async getStatus(): Promise<NetworkStatus> {
-    return this.call('status', []);
+  async getStatus(options?: RpcCallOptions): Promise<NetworkStatus> {
+    return this.call('status', [], options);
   }
 
-  async getBlock(blockId: number | string): Promise<Block> {
+  async getBlock(blockId: number | string, options?: RpcCallOptions): Promise<Block> {
     const params = typeof blockId === 'number' 
       ? { block_id: blockId }
       : { block_id: blockId };
-    return this.call('block', params);
+    return this.call('block', params, options);
+  }
+
+  // Latest block at the finality chosen in the header (or an explicit one)
+  async getLatestBlock(options?: RpcCallOptions, finality: Finality = providerManager.getFinality()): Promise<Block> {
+    return this.call('block', { finality }, options);
   }
 
-  async getLatestBlock(): Promise<Block> {
-    return this.call('block', { finality: 'final' });
+  async getTransaction(txHash: string, accountId: string, options?: RpcCallOptions): Promise<TxStatusResult> {
+    return this.call('tx', [txHash, accountId], options);
   }
 
-  async getTransaction(txHash: string, accountId: string): Promise<any> {
-    return this.call('tx', [txHash, accountId]);
+  /**
+   * Transaction status once it has reached the `waitUntil` stage. The node holds
+   * the request until then; 'NONE' answers right away with the stage reached so far
+   * (and the execution outcome once there is one).
+   */
+  async getTransactionStatus(
+    txHash: string,
+    senderAccountId: string,
+    waitUntil: TxExecutionStatus = 'NONE',
+    options?: RpcCallOptions
+  ): Promise<TxStatusResult> {
+    return this.call(
+      'EXPERIMENTAL_tx_status',
+      { tx_hash: txHash, sender_account_id: senderAccountId, wait_until: waitUntil },
+      options
+    );
+  }
+
+  /**
+   * Submit a signed transaction (base64 Borsh `SignedTransaction`) with send_tx and
+   * wait until it reaches the `waitUntil` stage ('NONE' returns right after the node
+   * accepted it).
+   *
+   * Unlike reads this goes out exactly once, to a single provider: no coalescing,
+   * batching, hedging or verification, and no retry or failover. A request that
+   * failed or timed out may still have reached the node - sending it again could
+   * submit the transaction twice.
+   */
+  async sendTransaction(
+    signedTxBase64: string,
+    waitUntil: TxExecutionStatus = 'EXECUTED_OPTIMISTIC',
+    options: RpcCallOptions = {}
+  ): Promise<TxStatusResult> {
+    // Replay and demo providers would only pretend to broadcast it
+    const provider = this.getOrderedProviders().find(
+      p => !rpcProxy.isVirtualUrl(p.url) && circuitBreakers.getState(p.id) !== 'open'
+    );
+    if (!provider) {
+      throw new NoProvidersError();
+    }
+    
+    return this.sendOnce(
+      provider,
+      'send_tx',
+      { signed_tx_base64: signedTxBase64, wait_until: waitUntil },
+      options
+    );
+  }
+
+  /**
+   * Send one request to a specific provider, e.g. to replay a recorded request
+   * against another provider. Like sendTransaction it is sent exactly once.
+   * Transaction submissions are refused - replaying one would broadcast it again.
+   */
+  async callProvider(providerId: string, method: string, params: any, options: RpcCallOptions = {}): Promise<any> {
+    if (isMutatingMethod(method)) {
+      throw new Error(`Refusing to resend ${method}: it would submit the transaction again`);
+    }
+    const provider = providerManager.getAllProviders().find(p => p.id === providerId);
+    if (!provider) {
+      throw new NoProvidersError();
+    }
+    return this.sendOnce(provider, method, params, options);
   }
 
-  async getTransactionByHash(txHash: string, accountId?: string): Promise<any> {
+  async getTransactionByHash(
+    txHash: string,
+    accountId?: string,
+    options?: RpcCallOptions,
+    search?: TransactionSearchOptions
+  ): Promise<TxStatusResult> {
     // If account ID is provided, use it directly
     if (accountId) {
-      return this.call('EXPERIMENTAL_tx_status', [txHash, accountId]);
+      return this.call('EXPERIMENTAL_tx_status', [txHash, accountId], options);
     }
     
     // Otherwise, search through recent blocks to find the transaction
-    // This is useful for localnet and when account ID is unknown
-    try {
-      const latestBlock = await this.getLatestBlock();
-      const startHeight = Math.max(0, latestBlock.header.height - 1000); // Search last 1000 blocks (~10 min at 600ms/block)
-      
-      // Search backwards through blocks
-      for (let height = latestBlock.header.height; height >= startHeight; height--) {
-        try {
-          const block = await this.getBlock(height);
-          
-          // Check each chunk for the transaction
-          for (const chunk of block.chunks) {
-            try {
-              const chunkData = await this.getChunk(chunk.chunk_hash);
-              
-              if (chunkData.transactions) {
-                for (const tx of chunkData.transactions) {
-                  if (tx.hash === txHash) {
-                    // Found it! Now fetch full transaction details with the account ID
-                    return await this.call('EXPERIMENTAL_tx_status', [txHash, tx.signer_id]);
-                  }
-                }
-              }
-            } catch (err) {
-              // Skip chunks that fail to fetch
-              continue;
-            }
-          }
-        } catch (err) {
-          // Skip blocks that fail to fetch
-          continue;
-        }
-      }
-      
-      // If not found in recent blocks, throw error
-      throw new Error(
-        `Transaction ${txHash} not found in the last 1000 blocks. ` +
-        'For older transactions, you may need to provide the sender account ID, ' +
-        'or use a block explorer with indexer support.'
-      );
-    } catch (err) {
-      throw err;
+    // This is useful for localnet and when account ID is unknown.
+    // Only the final tx status is verified, not every block scanned on the way
+    const tx = await searchTransactionInBlocks(this, txHash, { ...options, verify: false }, search);
+    if (tx) {
+      // Found it! Now fetch full transaction details with the account ID
+      return this.call('EXPERIMENTAL_tx_status', [txHash, tx.signer_id], options);
     }
+    
+    throw new Error(
+      `Transaction ${txHash} not found in the last ${search?.windowBlocks ?? DEFAULT_SEARCH_WINDOW} blocks. ` +
+      'For older transactions, you may need to provide the sender account ID, ' +
+      'or use a block explorer with indexer support.'
+    );
+  }
+
+  /**
+   * Block reference used when a method is not given one: the latest block at
+   * the finality chosen in the header
+   */
+  getDefaultBlockReference(): BlockReference {
+    return { finality: providerManager.getFinality() };
+  }
+
+  // `query` RPC methods - each is answered at the given block (latest block at the chosen finality by default)
+
+  private query(requestType: string, fields: Record<string, unknown>, blockRef: BlockReference, options?: RpcCallOptions): Promise<any> {
+    return this.call('query', { request_type: requestType, ...blockRef, ...fields }, options);
+  }
+
+  async getAccount(accountId: string, blockRef: BlockReference = this.getDefaultBlockReference(), options?: RpcCallOptions): Promise<AccountView> {
+    return this.query('view_account', { account_id: accountId }, blockRef, options);
+  }
+
+  async viewAccessKey(
+    accountId: string,
+    publicKey: string,
+    blockRef: BlockReference = this.getDefaultBlockReference(),
+    options?: RpcCallOptions
+  ): Promise<AccessKeyView> {
+    return this.query('view_access_key', { account_id: accountId, public_key: publicKey }, blockRef, options);
+  }
+
+  async viewAccessKeyList(accountId: string, blockRef: BlockReference = this.getDefaultBlockReference(), options?: RpcCallOptions): Promise<AccessKeyListView> {
+    return this.query('view_access_key_list', { account_id: accountId }, blockRef, options);
   }
 
-  async getAccount(accountId: string): Promise<any> {
-    return this.call('query', {
-      request_type: 'view_account',
-      finality: 'final',
+  /**
+   * Contract storage under a base64 key prefix ('' = all keys; nodes refuse
+   * contracts with more than 50kb of state)
+   */
+  async viewState(
+    accountId: string,
+    prefixBase64: string = '',
+    blockRef: BlockReference = this.getDefaultBlockReference(),
+    options?: RpcCallOptions & { includeProof?: boolean }
+  ): Promise<ViewStateResult> {
+    return this.query('view_state', {
       account_id: accountId,
-    });
+      prefix_base64: prefixBase64,
+      ...(options?.includeProof && { include_proof: true }),
+    }, blockRef, options);
+  }
+
+  async viewCode(accountId: string, blockRef: BlockReference = this.getDefaultBlockReference(), options?: RpcCallOptions): Promise<ContractCodeView> {
+    return this.query('view_code', { account_id: accountId }, blockRef, options);
   }
 
-  async getChunk(chunkId: string): Promise<any> {
-    return this.call('chunk', [chunkId]);
+  /**
+   * Call a view method; `argsBase64` is the base64-encoded argument bytes
+   * (usually JSON). The result bytes are returned as-is.
+   */
+  async callFunction(
+    accountId: string,
+    methodName: string,
+    argsBase64: string = '',
+    blockRef: BlockReference = this.getDefaultBlockReference(),
+    options?: RpcCallOptions
+  ): Promise<CallFunctionResult> {
+    return this.query('call_function', {
+      account_id: accountId,
+      method_name: methodName,
+      args_base64: argsBase64,
+    }, blockRef, options);
+  }
+
+  // Network and protocol methods
+  
+  /**
+   * Gas price at a block. The RPC only takes a block id - finality references
+   * are answered at the node's latest block.
+   */
+  async getGasPrice(blockRef: BlockReference = this.getDefaultBlockReference(), options?: RpcCallOptions): Promise<GasPriceView> {
+    return this.call('gas_price', ['block_id' in blockRef ? blockRef.block_id : null], options);
+  }
+
+  /**
+   * Validators of the epoch containing the block. As with gas_price, finality
+   * references are answered for the current epoch.
+   */
+  async getValidators(blockRef: BlockReference = this.getDefaultBlockReference(), options?: RpcCallOptions): Promise<EpochValidatorInfo> {
+    return this.call('validators', 'block_id' in blockRef ? { block_id: blockRef.block_id } : [null], options);
+  }
+
+  async getProtocolConfig(blockRef: BlockReference = this.getDefaultBlockReference(), options?: RpcCallOptions): Promise<ProtocolConfigView> {
+    return this.call('EXPERIMENTAL_protocol_config', blockRef, options);
+  }
+
+  // Genesis config, receipts and peers are not tied to a block, so these take no block reference
+
+  async getGenesisConfig(options?: RpcCallOptions): Promise<GenesisConfigView> {
+    return this.call('EXPERIMENTAL_genesis_config', [], options);
+  }
+
+  async getReceipt(receiptId: string, options?: RpcCallOptions): Promise<ReceiptView> {
+    return this.call('EXPERIMENTAL_receipt', { receipt_id: receiptId }, options);
+  }
+
+  async getNetworkInfo(options?: RpcCallOptions): Promise<NetworkInfoView> {
+    return this.call('network_info', [], options);
+  }
+
+  /**
+   * Proof that a transaction or receipt outcome is included in the chain, relative
+   * to `lightClientHead` (hash of a block the light client already trusts)
+   */
+  async getLightClientProof(
+    request: LightClientProofRequest,
+    lightClientHead: string,
+    options?: RpcCallOptions
+  ): Promise<LightClientProof> {
+    return this.call('light_client_proof', { ...request, light_client_head: lightClientHead }, options);
+  }
+
+  async getChunk(chunkId: string, options?: RpcCallOptions): Promise<Chunk> {
+    return this.call('chunk', [chunkId], options);
   }
 
   // Utility methods
   
+  // Exact BigInt conversion - see lib/nearUnits.ts for rounding options
   formatNear(yoctoNear: string): string {
     try {
-      const value = parseFloat(yoctoNear) / 1e24;
-      return value.toFixed(4);
+      return yoctoToNear(yoctoNear);
     } catch {
-      return '0.0000';
+      return '0';
     }
   }
 
@@ -398,39 +1246,28 @@ class NearRpcFailoverClient {
    * Search for a specific transaction hash across recent blocks
    * Useful for debugging missing transactions
    */
-  async searchTransactionHash(txHash: string, maxBlocks: number = 1000): Promise<Transaction | null> {
+  async searchTransactionHash(
+    txHash: string,
+    maxBlocks: number = DEFAULT_SEARCH_WINDOW,
+    options?: RpcCallOptions,
+    search?: Omit<TransactionSearchOptions, 'windowBlocks'>
+  ): Promise<Transaction | null> {
     try {
-      const latestBlock = await this.getLatestBlock();
-      const startHeight = Math.max(0, latestBlock.header.height - maxBlocks);
-      
-      console.log(`[searchTransactionHash] Searching for ${txHash.substring(0, 16)}... in blocks ${startHeight} to ${latestBlock.header.height}`);
-      
-      // Search backwards through blocks
-      for (let height = latestBlock.header.height; height >= startHeight; height--) {
-        try {
-          const block = await this.getBlock(height);
-          const transactions = await this.getTransactionsFromBlock(block);
-          
-          const found = transactions.find(tx => tx.hash === txHash);
-          if (found) {
-            console.log(`[searchTransactionHash] ✅ Found transaction ${txHash.substring(0, 16)}... in block ${height}`);
-            return found;
-          }
-        } catch (err) {
-          // Skip blocks that fail to fetch
-          continue;
-        }
+      const found = await searchTransactionInBlocks(this, txHash, options, { ...search, windowBlocks: maxBlocks });
+      if (found) {
+        console.log(`[searchTransactionHash] ✅ Found transaction ${txHash.substring(0, 16)}... in block ${found.block_height}`);
+      } else {
+        console.log(`[searchTransactionHash] ❌ Transaction ${txHash.substring(0, 16)}... not found in the last ${maxBlocks} blocks`);
       }
-      
-      console.log(`[searchTransactionHash] ❌ Transaction ${txHash.substring(0, 16)}... not found in blocks ${startHeight} to ${latestBlock.header.height}`);
-      return null;
+      return found;
     } catch (err) {
+      if (isAbortError(err)) throw err;
       console.error(`[searchTransactionHash] Error searching for transaction:`, err);
       return null;
     }
   }
 
-  async getTransactionsFromBlock(block: Block): Promise<Transaction[]> {
+  async getTransactionsFromBlock(block: Block, options?: RpcCallOptions): Promise<Transaction[]> {
     const transactions: Transaction[] = [];
     
     if (!block.chunks || block.chunks.length === 0) {
@@ -438,10 +1275,20 @@ class NearRpcFailoverClient {
       return transactions;
     }
     
+    // Request every chunk at once so they go out as a single JSON-RPC batch
+    const chunkResults = await Promise.allSettled(
+      block.chunks.map(chunk => this.getChunk(chunk.chunk_hash, options))
+    );
+    throwIfAborted(options?.signal);
+    
     for (let chunkIdx = 0; chunkIdx < block.chunks.length; chunkIdx++) {
       const chunk = block.chunks[chunkIdx];
+      const chunkResult = chunkResults[chunkIdx];
       try {
-        const chunkData = await this.getChunk(chunk.chunk_hash);
+        if (chunkResult.status === 'rejected') {
+          throw chunkResult.reason;
+        }
+        const chunkData = chunkResult.value;
         
         if (chunkData.transactions && chunkData.transactions.length > 0) {
           // Only log when we find transactions, and only for summary purposes (not every chunk)
@@ -487,6 +1334,17 @@ class NearRpcFailoverClient {
 
   // Failover management
   
+  /**
+   * Archival provider that served an immutable read, if any (subject from readSubjects)
+   */
+  getArchivalSource(subject: string): ArchivalSource | undefined {
+    return this.archivalSources.get(subject);
+  }
+  
+  getHedgeStats(): HedgeStats {
+    return { ...this.hedgeStats };
+  }
+  
   getCurrentProviderInfo(): { provider: RpcProvider | null; health: any } {
     const provider = this.getCurrentProvider();
     const health = provider ? providerManager.getHealth(provider.id) : null;
@@ -519,16 +1377,11 @@ class NearRpcFailoverClient {
   // Manual provider selection
   
   selectProvider(providerId: string): boolean {
-    const providers = this.getProviders();
-    const index = providers.findIndex(p => p.id === providerId);
+    const provider = this.getProviders().find(p => p.id === providerId);
     
-    if (index !== -1) {
-      this.currentProviderIndex = index;
-      this.notifyListeners({
-        type: 'provider-switch',
-        providerId: providers[index].id,
-        providerUrl: providers[index].url,
-      });
+    if (provider) {
+      this.pinnedProviderId = provider.id;
+      this.switchToProvider(provider);
       return true;
     }
     
@@ -0,0 +1,459 @@
+/**
+ * NEAR RPC request and response models
+ *
+ * Blocks, chunks, transactions (actions, receipts, execution outcomes) and the
+ * query / network methods of NearRpcFailoverClient. Responses are checked
+ * against these shapes at runtime by lib/rpcSchemas.ts.
+ */
+
+export type Finality = 'optimistic' | 'near-final' | 'final';
+export const FINALITIES: Finality[] = ['optimistic', 'near-final', 'final'];
+
+/**
+ * Which block a read is answered at: the latest block with the given finality,
+ * or a specific block by height or hash
+ */
+export type BlockReference = { finality: Finality } | { block_id: number | string };
+
+// Blocks and chunks
+
+export interface BlockHeader {
+  height: number;
+  prev_height?: number | null;
+  epoch_id: string;
+  next_epoch_id: string;
+  hash: string;
+  prev_hash: string;
+  prev_state_root: string;
+  chunk_receipts_root: string;
+  chunk_headers_root: string;
+  chunk_tx_root: string;
+  outcome_root: string;
+  chunks_included: number;
+  // Removed from newer nearcore versions
+  challenges_root?: string;
+  timestamp: number;
+  timestamp_nanosec: string;
+  random_value: string;
+  validator_proposals: ValidatorStakeView[];
+  chunk_mask: boolean[];
+  gas_price: string;
+  block_ordinal?: number | null;
+  total_supply: string;
+  last_final_block: string;
+  last_ds_final_block: string;
+  next_bp_hash: string;
+  block_merkle_root: string;
+  epoch_sync_data_hash?: string | null;
+  approvals: (string | null)[];
+  signature: string;
+  latest_protocol_version: number;
+}
+
+export interface ChunkHeader {
+  chunk_hash: string;
+  prev_block_hash: string;
+  outcome_root: string;
+  prev_state_root: string;
+  encoded_merkle_root: string;
+  encoded_length: number;
+  height_created: number;
+  height_included: number;
+  shard_id: number;
+  gas_used: number;
+  gas_limit: number;
+  balance_burnt: string;
+  outgoing_receipts_root: string;
+  tx_root: string;
+  validator_proposals: ValidatorStakeView[];
+  signature: string;
+}
+
+export interface Block {
+  author: string;
+  header: BlockHeader;
+  chunks: ChunkHeader[];
+}
+
+export interface Chunk {
+  author: string;
+  header: ChunkHeader;
+  transactions: SignedTransactionView[];
+  receipts: ReceiptView[];
+}
+
+export interface NetworkStatus {
+  chain_id: string;
+  protocol_version?: number;
+  latest_protocol_version?: number;
+  rpc_addr?: string | null;
+  sync_info: {
+    latest_block_hash: string;
+    latest_block_height: number;
+    latest_block_time: string;
+    latest_state_root?: string;
+    earliest_block_hash?: string | null;
+    earliest_block_height?: number | null;
+    earliest_block_time?: string | null;
+    syncing: boolean;
+  };
+  validators?: { account_id: string }[];
+  version: {
+    version: string;
+    build: string;
+  };
+}
+
+// Actions - the RPC encodes each as an object with a single key naming the action,
+// except CreateAccount, which has no payload and is sent as the bare string
+
+export interface FunctionCallAction {
+  method_name: string;
+  // Base64-encoded argument bytes
+  args: string;
+  gas: number;
+  deposit: string;
+}
+
+export interface DelegateAction {
+  sender_id: string;
+  receiver_id: string;
+  actions: (NonDelegateAction | UnknownAction)[];
+  nonce: number;
+  max_block_height: number;
+  public_key: string;
+}
+
+export type NonDelegateAction =
+  | 'CreateAccount'
+  | { DeployContract: { code: string } }
+  | { FunctionCall: FunctionCallAction }
+  | { Transfer: { deposit: string } }
+  | { Stake: { stake: string; public_key: string } }
+  | { AddKey: { public_key: string; access_key: AccessKey } }
+  | { DeleteKey: { public_key: string } }
+  | { DeleteAccount: { beneficiary_id: string } };
+
+export type KnownAction = NonDelegateAction | { Delegate: { delegate_action: DelegateAction; signature: string } };
+
+// An action this explorer has no model for yet (e.g. DeployGlobalContract on newer nodes)
+export type UnknownAction = { [kind: string]: unknown };
+
+export type Action = KnownAction | UnknownAction;
+
+export const ACTION_KINDS = [
+  'CreateAccount',
+  'DeployContract',
+  'FunctionCall',
+  'Transfer',
+  'Stake',
+  'AddKey',
+  'DeleteKey',
+  'DeleteAccount',
+  'Delegate',
+] as const;
+
+export type ActionKind = typeof ACTION_KINDS[number];
+
+/**
+ * Name of an action, e.g. 'Transfer' - unknown actions keep their tag
+ */
+export function getActionKind(action: Action): string {
+  return typeof action === 'string' ? action : Object.keys(action)[0];
+}
+
+/**
+ * Whether the action is one the explorer models (narrows it for `'Transfer' in action` checks)
+ */
+export function isKnownAction(action: Action): action is KnownAction {
+  return (ACTION_KINDS as readonly string[]).includes(getActionKind(action));
+}
+
+// Transactions
+
+export interface SignedTransactionView {
+  signer_id: string;
+  public_key: string;
+  nonce: number;
+  receiver_id: string;
+  actions: Action[];
+  priority_fee?: number;
+  signature: string;
+  hash: string;
+}
+
+// A transaction as listed by the explorer (flattened from the chunk it was included in)
+export interface Transaction {
+  hash: string;
+  signer_id: string;
+  receiver_id: string;
+  actions: Action[];
+  block_height: number;
+  block_hash: string;
+  timestamp: number;
+  timestamp_nanosec: string;
+}
+
+// Receipts and execution outcomes
+
+export interface DataReceiver {
+  data_id: string;
+  receiver_id: string;
+}
+
+export type ReceiptEnum =
+  | {
+      Action: {
+        signer_id: string;
+        signer_public_key: string;
+        gas_price: string;
+        output_data_receivers: DataReceiver[];
+        input_data_ids: string[];
+        actions: Action[];
+        is_promise_yield?: boolean;
+      };
+    }
+  | { Data: { data_id: string; data: string | null; is_promise_resume?: boolean } }
+  | { GlobalContractDistribution: Record<string, unknown> };
+
+// `Failure` carries nearcore's nested ActionError / InvalidTxError structure
+export type TxExecutionError = Record<string, unknown>;
+
+export type ExecutionStatus =
+  | 'Unknown'
+  | { Failure: TxExecutionError }
+  | { SuccessValue: string }
+  | { SuccessReceiptId: string };
+
+export type FinalExecutionStatus =
+  | 'NotStarted'
+  | 'Started'
+  | { Failure: TxExecutionError }
+  | { SuccessValue: string };
+
+/**
+ * Whether an outcome or transaction status reports success
+ */
+export function isSuccessStatus(status: ExecutionStatus | FinalExecutionStatus | undefined): boolean {
+  return typeof status === 'object' && ('SuccessValue' in status || 'SuccessReceiptId' in status);
+}
+
+export interface ExecutionOutcome {
+  logs: string[];
+  receipt_ids: string[];
+  gas_burnt: number;
+  tokens_burnt: string;
+  executor_id: string;
+  status: ExecutionStatus;
+  metadata?: { version: number; gas_profile: Record<string, unknown>[] | null };
+}
+
+export interface MerklePathItem {
+  hash: string;
+  direction: 'Left' | 'Right';
+}
+
+export interface ExecutionOutcomeWithId {
+  proof: MerklePathItem[];
+  block_hash: string;
+  id: string;
+  outcome: ExecutionOutcome;
+}
+
+// How far a transaction has progressed (the `wait_until` stages of tx / send_tx)
+export type TxExecutionStatus =
+  | 'NONE'
+  | 'INCLUDED'
+  | 'EXECUTED_OPTIMISTIC'
+  | 'INCLUDED_FINAL'
+  | 'EXECUTED'
+  | 'FINAL';
+// In the order a transaction goes through them
+export const TX_EXECUTION_STATUSES: TxExecutionStatus[] = [
+  'NONE',
+  'INCLUDED',
+  'EXECUTED_OPTIMISTIC',
+  'INCLUDED_FINAL',
+  'EXECUTED',
+  'FINAL',
+];
+
+/**
+ * Result of tx / EXPERIMENTAL_tx_status. Before the transaction has executed
+ * (NONE, INCLUDED, INCLUDED_FINAL) nodes return only `final_execution_status`.
+ */
+export interface FinalExecutionOutcome {
+  final_execution_status?: TxExecutionStatus;
+  status: FinalExecutionStatus;
+  transaction: SignedTransactionView;
+  transaction_outcome: ExecutionOutcomeWithId;
+  receipts_outcome: ExecutionOutcomeWithId[];
+  // Only returned by EXPERIMENTAL_tx_status
+  receipts?: ReceiptView[];
+}
+
+export type TxStatusResult = FinalExecutionOutcome | { final_execution_status: TxExecutionStatus };
+
+/**
+ * Whether a tx status result carries the execution outcome
+ */
+export function hasExecutionOutcome(result: TxStatusResult): result is FinalExecutionOutcome {
+  return 'transaction' in result;
+}
+
+// Every `query` result names the block it was answered at
+export interface QueryResponseBase {
+  block_height: number;
+  block_hash: string;
+}
+
+export interface AccountView extends QueryResponseBase {
+  amount: string;
+  locked: string;
+  code_hash: string;
+  storage_usage: number;
+  storage_paid_at: number;
+}
+
+export type AccessKeyPermission =
+  | 'FullAccess'
+  | {
+      FunctionCall: {
+        allowance: string | null;
+        receiver_id: string;
+        method_names: string[];
+      };
+    };
+
+export interface AccessKey {
+  nonce: number;
+  permission: AccessKeyPermission;
+}
+
+export interface AccessKeyView extends QueryResponseBase, AccessKey {}
+
+export interface AccessKeyInfo {
+  public_key: string;
+  access_key: AccessKey;
+}
+
+export interface AccessKeyListView extends QueryResponseBase {
+  keys: AccessKeyInfo[];
+}
+
+export interface StateItem {
+  // Base64-encoded key and value
+  key: string;
+  value: string;
+}
+
+export interface ViewStateResult extends QueryResponseBase {
+  values: StateItem[];
+  proof?: string[];
+}
+
+export interface ContractCodeView extends QueryResponseBase {
+  // Base64-encoded wasm
+  code_base64: string;
+  hash: string;
+}
+
+export interface CallFunctionResult extends QueryResponseBase {
+  // Raw bytes returned by the contract (usually UTF-8 JSON)
+  result: number[];
+  logs: string[];
+}
+
+export interface GasPriceView {
+  gas_price: string;
+}
+
+export interface ValidatorStakeView {
+  account_id: string;
+  public_key: string;
+  stake: string;
+}
+
+export interface CurrentEpochValidatorInfo extends ValidatorStakeView {
+  is_slashed: boolean;
+  shards: number[];
+  num_produced_blocks: number;
+  num_expected_blocks: number;
+  num_produced_chunks?: number;
+  num_expected_chunks?: number;
+}
+
+export interface EpochValidatorInfo {
+  current_validators: CurrentEpochValidatorInfo[];
+  next_validators: (ValidatorStakeView & { shards: number[] })[];
+  current_fishermen: ValidatorStakeView[];
+  next_fishermen: ValidatorStakeView[];
+  current_proposals: ValidatorStakeView[];
+  prev_epoch_kickout: { account_id: string; reason: Record<string, unknown> | string }[];
+  epoch_start_height: number;
+  epoch_height: number;
+}
+
+// Only the commonly used fields are listed - nodes return many more
+export interface ProtocolConfigView {
+  protocol_version: number;
+  genesis_time: string;
+  genesis_height: number;
+  chain_id: string;
+  epoch_length: number;
+  num_block_producer_seats: number;
+  max_gas_price: string;
+  min_gas_price: string;
+  gas_limit: number;
+  transaction_validity_period: number;
+  runtime_config: Record<string, unknown>;
+  [field: string]: unknown;
+}
+
+export interface GenesisConfigView {
+  protocol_version: number;
+  genesis_time: string;
+  genesis_height: number;
+  chain_id: string;
+  epoch_length: number;
+  total_supply: string;
+  [field: string]: unknown;
+}
+
+export interface ReceiptView {
+  predecessor_id: string;
+  receiver_id: string;
+  receipt_id: string;
+  receipt: ReceiptEnum;
+  priority?: number;
+}
+
+export interface PeerInfo {
+  id: string;
+  addr: string | null;
+  account_id: string | null;
+}
+
+export interface NetworkInfoView {
+  active_peers: PeerInfo[];
+  num_active_peers: number;
+  peer_max_count: number;
+  sent_bytes_per_sec: number;
+  received_bytes_per_sec: number;
+  known_producers: { account_id: string; addr: string | null; peer_id: string }[];
+}
+
+export type LightClientProofRequest =
+  | { type: 'transaction'; transaction_hash: string; sender_id: string }
+  | { type: 'receipt'; receipt_id: string; receiver_id: string };
+
+export interface LightClientProof {
+  outcome_proof: ExecutionOutcomeWithId;
+  outcome_root_proof: MerklePathItem[];
+  block_header_lite: {
+    prev_block_hash: string;
+    inner_rest_hash: string;
+    inner_lite: Record<string, unknown>;
+  };
+  block_proof: MerklePathItem[];
+}
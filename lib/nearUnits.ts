@@ -0,0 +1,187 @@
+/**
+ * NEAR Amount Formatting and Unit Conversion
+ *
+ * All arithmetic is done on BigInt so yoctoNEAR balances (24 decimals) and
+ * fungible token amounts never lose precision. Display helpers round to a
+ * configurable number of fraction digits; `formatUnitsExact` gives the full
+ * value for tooltips.
+ */
+
+export const NEAR_DECIMALS = 24;
+export const TGAS = 10n ** 12n;
+export const GGAS = 10n ** 9n;
+
+/**
+ * How to round when dropping fraction digits:
+ * - down / up: towards / away from zero
+ * - half-up: nearest, ties away from zero
+ * - half-even: nearest, ties to the even digit (banker's rounding)
+ */
+export type RoundingMode = 'down' | 'up' | 'half-up' | 'half-even';
+
+export interface FormatAmountOptions {
+  // Fraction digits to round to (default 4)
+  maxFractionDigits?: number;
+  rounding?: RoundingMode;
+  // Show thousands separators in the integer part (default true)
+  groupThousands?: boolean;
+  // When a non-zero amount would round to 0, show enough digits for two
+  // significant figures instead (default true)
+  keepSmallAmounts?: boolean;
+}
+
+// Metadata of a fungible token (NEP-141 ft_metadata)
+export interface TokenMetadata {
+  decimals: number;
+  symbol?: string;
+}
+
+function toBigInt(amount: bigint | string | number): bigint {
+  if (typeof amount === 'bigint') return amount;
+  if (typeof amount === 'number') {
+    if (!Number.isSafeInteger(amount)) {
+      throw new RangeError(`Amount ${amount} is not a safe integer - pass it as a string`);
+    }
+    return BigInt(amount);
+  }
+  return BigInt(amount.trim() || '0');
+}
+
+function groupDigits(integer: string): string {
+  return integer.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+}
+
+function roundQuotient(quotient: bigint, remainder: bigint, divisor: bigint, rounding: RoundingMode): bigint {
+  if (remainder === 0n) return quotient;
+  switch (rounding) {
+    case 'down':
+      return quotient;
+    case 'up':
+      return quotient + 1n;
+    case 'half-up':
+      return remainder * 2n >= divisor ? quotient + 1n : quotient;
+    case 'half-even': {
+      const twice = remainder * 2n;
+      if (twice > divisor) return quotient + 1n;
+      if (twice < divisor) return quotient;
+      return quotient % 2n === 0n ? quotient : quotient + 1n;
+    }
+  }
+}
+
+// Render a non-negative integer with `decimals` implied fraction digits, trailing zeros trimmed
+function render(value: bigint, decimals: number, groupThousands: boolean): string {
+  const base = 10n ** BigInt(decimals);
+  const integer = (value / base).toString();
+  const fraction = decimals > 0 ? (value % base).toString().padStart(decimals, '0').replace(/0+$/, '') : '';
+  const integerPart = groupThousands ? groupDigits(integer) : integer;
+  return fraction ? `${integerPart}.${fraction}` : integerPart;
+}
+
+/**
+ * Format an integer amount of the smallest unit (yoctoNEAR, token base units)
+ * as a decimal string, e.g. formatUnits('1500000', 6) === '1.5'
+ */
+export function formatUnits(
+  amount: bigint | string | number,
+  decimals: number,
+  options: FormatAmountOptions = {}
+): string {
+  const {
+    maxFractionDigits = 4,
+    rounding = 'half-up',
+    groupThousands = true,
+    keepSmallAmounts = true,
+  } = options;
+
+  const value = toBigInt(amount);
+  const negative = value < 0n;
+  const magnitude = negative ? -value : value;
+
+  let digits = Math.min(maxFractionDigits, decimals);
+  if (keepSmallAmounts && magnitude !== 0n && magnitude < 10n ** BigInt(decimals - digits)) {
+    // Rounds to zero - show up to the second significant digit
+    const significant = magnitude.toString().length;
+    digits = Math.min(decimals, decimals - significant + 2);
+  }
+
+  const divisor = 10n ** BigInt(decimals - digits);
+  const rounded = roundQuotient(magnitude / divisor, magnitude % divisor, divisor, rounding);
+  const text = render(rounded, digits, groupThousands);
+  return negative && rounded !== 0n ? `-${text}` : text;
+}
+
+/**
+ * Full-precision decimal string (no rounding), e.g. for hover text
+ */
+export function formatUnitsExact(amount: bigint | string | number, decimals: number, groupThousands: boolean = true): string {
+  const value = toBigInt(amount);
+  const text = render(value < 0n ? -value : value, decimals, groupThousands);
+  return value < 0n ? `-${text}` : text;
+}
+
+/**
+ * Parse a decimal string into an integer amount of the smallest unit, e.g.
+ * parseUnits('1.5', 24) === 1500000000000000000000000n. Throws on malformed
+ * input or more fraction digits than the unit has.
+ */
+export function parseUnits(value: string, decimals: number): bigint {
+  const match = value.trim().replace(/,/g, '').match(/^(-)?(\d*)(?:\.(\d*))?$/);
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid amount: "${value}"`);
+  }
+
+  const [, sign, integer, fraction = ''] = match;
+  if (fraction.length > decimals) {
+    throw new Error(`Amount "${value}" has more than ${decimals} decimal places`);
+  }
+
+  const units = BigInt(integer || '0') * 10n ** BigInt(decimals) + BigInt(fraction.padEnd(decimals, '0') || '0');
+  return sign ? -units : units;
+}
+
+// NEAR
+
+export function yoctoToNear(yocto: bigint | string | number, options?: FormatAmountOptions): string {
+  return formatUnits(yocto, NEAR_DECIMALS, options);
+}
+
+export function nearToYocto(near: string): bigint {
+  return parseUnits(near, NEAR_DECIMALS);
+}
+
+/**
+ * Full-precision NEAR amount, e.g. '0.000000000000000000000001'
+ */
+export function yoctoToNearExact(yocto: bigint | string | number): string {
+  return formatUnitsExact(yocto, NEAR_DECIMALS);
+}
+
+// Gas
+
+/**
+ * Human readable gas: '2.43 Tgas', '450 Ggas' or '1,200 gas'
+ */
+export function formatGas(gas: bigint | string | number, options: FormatAmountOptions = {}): string {
+  const value = toBigInt(gas);
+  const magnitude = value < 0n ? -value : value;
+  const format = { maxFractionDigits: 2, ...options };
+
+  if (magnitude >= TGAS) return `${formatUnits(value, 12, format)} Tgas`;
+  if (magnitude >= GGAS) return `${formatUnits(value, 9, format)} Ggas`;
+  return `${formatUnitsExact(value, 0)} gas`;
+}
+
+// Fungible tokens
+
+/**
+ * Token amount using the token's `decimals`, with its symbol when known
+ */
+export function formatTokenAmount(
+  amount: bigint | string | number,
+  metadata: TokenMetadata,
+  options?: FormatAmountOptions
+): string {
+  const text = formatUnits(amount, metadata.decimals, options);
+  return metadata.symbol ? `${text} ${metadata.symbol}` : text;
+}
@@ -0,0 +1,377 @@
+/**
+ * Provider Configuration Documents
+ *
+ * The provider setup (built-in and custom providers with their priorities and
+ * enabled flags, the network registry, the selected network, per-network
+ * selection policies and the failover settings) as one versioned JSON
+ * document, so it can be shared:
+ *
+ *   {
+ *     "format": "near-explorer-provider-config",
+ *     "version": 1,
+ *     "exportedAt": "2026-01-01T00:00:00.000Z",
+ *     "networks": [{ "id": "ci-sandbox", "name": "CI Sandbox", ... }],
+ *     "selectedNetwork": "localnet",
+ *     "selectionPolicies": { "mainnet": "latency" },
+ *     "providers": [{ "id": "custom-1", "name": "Team Localnet", ... }],
+ *     "settings": { "finality": "final", "circuitBreaker": { ... }, ... }
+ *   }
+ *
+ * Produced by `providerManager.exportConfig()` and applied with
+ * `providerManager.importConfig(document, 'merge' | 'replace')`.
+ */
+
+import { FINALITIES, Finality } from './nearRpcTypes';
+import {
+  BUILT_IN_NETWORKS,
+  CircuitBreakerConfig,
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
+  DEFAULT_HEALTH_MONITOR_CONFIG,
+  DEFAULT_HEDGING_CONFIG,
+  DEFAULT_RATE_LIMIT_CONFIG,
+  DEFAULT_VERIFICATION_CONFIG,
+  HealthMonitorConfig,
+  HedgingConfig,
+  NetworkDefinition,
+  NetworkType,
+  PROVIDER_CONFIG_FORMAT,
+  PROVIDER_CONFIG_VERSION,
+  RateLimitConfig,
+  RpcProvider,
+  SELECTION_POLICY_IDS,
+  SelectionPolicyId,
+  VerificationConfig,
+} from './providerManager';
+
+export interface ProviderSettings {
+  finality: Finality;
+  circuitBreaker: CircuitBreakerConfig;
+  rateLimit: RateLimitConfig;
+  hedging: HedgingConfig;
+  verification: VerificationConfig;
+  healthMonitor: HealthMonitorConfig;
+}
+
+export interface ProviderConfigDocument {
+  format: typeof PROVIDER_CONFIG_FORMAT;
+  version: number;
+  exportedAt: string;
+  // Every registered network, built-in ones included (older documents have none)
+  networks: NetworkDefinition[];
+  selectedNetwork: NetworkType;
+  selectionPolicies: Partial<Record<NetworkType, SelectionPolicyId>>;
+  // Built-in and custom providers of every network
+  providers: RpcProvider[];
+  // Missing settings keep their current value when merging and reset to the default when replacing
+  settings: Partial<ProviderSettings>;
+}
+
+// How an imported document would change the current configuration
+export interface ProviderConfigChange {
+  type: 'added' | 'removed' | 'changed';
+  subject: string;
+  detail?: string;
+}
+
+// Raised for an imported file that is not a valid provider configuration
+export class ProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderConfigError';
+  }
+}
+
+// Defaults of the object-valued settings, also used to check their field types
+const SETTINGS_DEFAULTS: Record<Exclude<keyof ProviderSettings, 'finality'>, object> = {
+  circuitBreaker: DEFAULT_CIRCUIT_BREAKER_CONFIG,
+  rateLimit: DEFAULT_RATE_LIMIT_CONFIG,
+  hedging: DEFAULT_HEDGING_CONFIG,
+  verification: DEFAULT_VERIFICATION_CONFIG,
+  healthMonitor: DEFAULT_HEALTH_MONITOR_CONFIG,
+};
+
+const SETTINGS_LABELS: Record<keyof ProviderSettings, string> = {
+  finality: 'Finality',
+  circuitBreaker: 'Circuit breaker',
+  rateLimit: 'Rate limit',
+  hedging: 'Hedged requests',
+  verification: 'Verify mode',
+  healthMonitor: 'Health monitor',
+};
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkNetwork(value: unknown, index: number): NetworkDefinition {
+  const where = `networks[${index}]`;
+  if (!isRecord(value)) throw new ProviderConfigError(`${where} is not an object`);
+  for (const field of ['id', 'name', 'color']) {
+    if (typeof value[field] !== 'string' || !value[field]) {
+      throw new ProviderConfigError(`${where}.${field} must be a non-empty string`);
+    }
+  }
+  if (value.chainId !== undefined && typeof value.chainId !== 'string') {
+    throw new ProviderConfigError(`${where}.chainId must be a string`);
+  }
+  if (!FINALITIES.includes(value.finality)) {
+    throw new ProviderConfigError(`${where}.finality must be one of ${FINALITIES.join(', ')}`);
+  }
+
+  const { id, name, chainId, color, finality } = value;
+  return {
+    id, name, color, finality,
+    ...(chainId && { chainId }),
+    ...(BUILT_IN_NETWORKS.some(n => n.id === id) && { builtIn: true }),
+  };
+}
+
+function checkProvider(value: unknown, index: number, networks: Set<string>): RpcProvider {
+  const where = `providers[${index}]`;
+  if (!isRecord(value)) throw new ProviderConfigError(`${where} is not an object`);
+  for (const field of ['id', 'name', 'url']) {
+    if (typeof value[field] !== 'string' || !value[field]) {
+      throw new ProviderConfigError(`${where}.${field} must be a non-empty string`);
+    }
+  }
+  if (!networks.has(value.network)) {
+    throw new ProviderConfigError(`${where}.network ${value.network} is not a network of the file`);
+  }
+  if (typeof value.enabled !== 'boolean') throw new ProviderConfigError(`${where}.enabled must be a boolean`);
+  if (typeof value.priority !== 'number') throw new ProviderConfigError(`${where}.priority must be a number`);
+  for (const field of ['isCustom', 'archival']) {
+    if (value[field] !== undefined && typeof value[field] !== 'boolean') {
+      throw new ProviderConfigError(`${where}.${field} must be a boolean`);
+    }
+  }
+
+  if (value.headers !== undefined && (
+    !isRecord(value.headers) || Object.values(value.headers).some(header => typeof header !== 'string')
+  )) {
+    throw new ProviderConfigError(`${where}.headers must be an object of strings`);
+  }
+
+  if (value.rateLimit !== undefined) {
+    if (!isRecord(value.rateLimit)) throw new ProviderConfigError(`${where}.rateLimit must be an object`);
+    // Same bounds as setRateLimitConfig: 0 requests per second disables limiting, a burst needs a token
+    const minimums: Record<keyof RateLimitConfig, number> = { requestsPerSecond: 0, burst: 1 };
+    for (const [field, minimum] of Object.entries(minimums)) {
+      const limit = value.rateLimit[field];
+      if (limit !== undefined && (typeof limit !== 'number' || limit < minimum)) {
+        throw new ProviderConfigError(`${where}.rateLimit.${field} must be a number of at least ${minimum}`);
+      }
+    }
+  }
+
+  const { id, name, url, network, enabled, priority, isCustom, archival, headers, rateLimit } = value;
+  return {
+    id, name, url, network, enabled, priority,
+    ...(isCustom !== undefined && { isCustom }),
+    ...(archival !== undefined && { archival }),
+    ...(headers !== undefined && { headers: { ...headers } }),
+    ...(rateLimit !== undefined && {
+      rateLimit: {
+        ...(rateLimit.requestsPerSecond !== undefined && { requestsPerSecond: rateLimit.requestsPerSecond }),
+        ...(rateLimit.burst !== undefined && { burst: rateLimit.burst }),
+      },
+    }),
+  };
+}
+
+function checkSettings(value: unknown): Partial<ProviderSettings> {
+  if (value === undefined) return {};
+  if (!isRecord(value)) throw new ProviderConfigError('settings must be an object');
+
+  const settings: Partial<ProviderSettings> = {};
+  if (value.finality !== undefined) {
+    if (!FINALITIES.includes(value.finality)) throw new ProviderConfigError(`Unknown finality ${value.finality}`);
+    settings.finality = value.finality;
+  }
+  for (const [section, defaults] of Object.entries(SETTINGS_DEFAULTS)) {
+    const incoming = value[section];
+    if (incoming === undefined) continue;
+    if (!isRecord(incoming)) throw new ProviderConfigError(`settings.${section} must be an object`);
+    // Fill fields the document leaves out, so every section is complete
+    const checked: Record<string, unknown> = { ...defaults };
+    for (const [field, fallback] of Object.entries(defaults)) {
+      if (incoming[field] === undefined) continue;
+      if (typeof incoming[field] !== typeof fallback) {
+        throw new ProviderConfigError(`settings.${section}.${field} must be a ${typeof fallback}`);
+      }
+      checked[field] = incoming[field];
+    }
+    (settings as Record<string, unknown>)[section] = checked;
+  }
+  return settings;
+}
+
+/**
+ * Validate an imported document. Throws ProviderConfigError naming the first problem.
+ */
+export function parseProviderConfig(data: unknown): ProviderConfigDocument {
+  if (!isRecord(data) || data.format !== PROVIDER_CONFIG_FORMAT) {
+    throw new ProviderConfigError('Not a provider configuration file');
+  }
+  if (data.version !== PROVIDER_CONFIG_VERSION) {
+    throw new ProviderConfigError(`Unsupported configuration version ${data.version} (expected ${PROVIDER_CONFIG_VERSION})`);
+  }
+  if (data.networks !== undefined && !Array.isArray(data.networks)) {
+    throw new ProviderConfigError('networks must be an array');
+  }
+  const networks: NetworkDefinition[] = (data.networks ?? []).map(checkNetwork);
+  const networkIds = new Set(BUILT_IN_NETWORKS.map(n => n.id));
+  networks.forEach(network => {
+    if (networks.filter(n => n.id === network.id).length > 1) {
+      throw new ProviderConfigError(`Duplicate network id ${network.id}`);
+    }
+    networkIds.add(network.id);
+  });
+
+  if (!networkIds.has(data.selectedNetwork)) {
+    throw new ProviderConfigError(`Unknown network ${data.selectedNetwork}`);
+  }
+  if (!Array.isArray(data.providers)) {
+    throw new ProviderConfigError('providers must be an array');
+  }
+
+  const providers = data.providers.map((provider: unknown, index: number) => checkProvider(provider, index, networkIds));
+  const ids = new Set<string>();
+  providers.forEach(provider => {
+    if (ids.has(provider.id)) throw new ProviderConfigError(`Duplicate provider id ${provider.id}`);
+    ids.add(provider.id);
+  });
+
+  const selectionPolicies: Partial<Record<NetworkType, SelectionPolicyId>> = {};
+  if (data.selectionPolicies !== undefined) {
+    if (!isRecord(data.selectionPolicies)) throw new ProviderConfigError('selectionPolicies must be an object');
+    Object.entries(data.selectionPolicies).forEach(([network, policy]) => {
+      if (!networkIds.has(network) || !SELECTION_POLICY_IDS.includes(policy)) {
+        throw new ProviderConfigError(`Invalid selection policy ${policy} for ${network}`);
+      }
+      selectionPolicies[network as NetworkType] = policy;
+    });
+  }
+
+  return {
+    format: PROVIDER_CONFIG_FORMAT,
+    version: PROVIDER_CONFIG_VERSION,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    networks,
+    selectedNetwork: data.selectedNetwork,
+    selectionPolicies,
+    providers,
+    settings: checkSettings(data.settings),
+  };
+}
+
+function describeProvider(provider: RpcProvider): string {
+  return `${provider.name} (${provider.network}${provider.isCustom ? ', custom' : ''})`;
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? 'auto' : String(value);
+}
+
+// A provider's rate limit override, e.g. "5/s burst 10"; fields it leaves out use the global config
+function formatRateLimit(rateLimit: Partial<RateLimitConfig> | undefined): string {
+  if (!rateLimit || Object.keys(rateLimit).length === 0) return 'global';
+  return [
+    rateLimit.requestsPerSecond !== undefined && `${rateLimit.requestsPerSecond}/s`,
+    rateLimit.burst !== undefined && `burst ${rateLimit.burst}`,
+  ].filter(Boolean).join(' ');
+}
+
+// Names of headers that differ - values can be credentials, so they are not shown
+function changedHeaderNames(before: Record<string, string> = {}, after: Record<string, string> = {}): string[] {
+  return [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter(name => before[name] !== after[name])
+    .sort();
+}
+
+/**
+ * Changes that importing `incoming` would make to `current`. Providers only in
+ * `current` are reported as removed - merging keeps them.
+ */
+export function diffProviderConfig(current: ProviderConfigDocument, incoming: ProviderConfigDocument): ProviderConfigChange[] {
+  const changes: ProviderConfigChange[] = [];
+
+  if (current.selectedNetwork !== incoming.selectedNetwork) {
+    changes.push({ type: 'changed', subject: 'Selected network', detail: `${current.selectedNetwork} → ${incoming.selectedNetwork}` });
+  }
+
+  const currentNetworks = new Map(current.networks.map(network => [network.id, network]));
+  const incomingNetworkIds = new Set(incoming.networks.map(network => network.id));
+  incoming.networks.forEach(network => {
+    const existing = currentNetworks.get(network.id);
+    if (!existing) {
+      changes.push({ type: 'added', subject: `Network ${network.name}`, detail: network.chainId ? `chain ${network.chainId}` : undefined });
+      return;
+    }
+    const fields = (['name', 'chainId', 'color', 'finality'] as const)
+      .filter(field => existing[field] !== network[field])
+      .map(field => `${field} ${existing[field] ?? 'any'} → ${network[field] ?? 'any'}`);
+    if (fields.length > 0) {
+      changes.push({ type: 'changed', subject: `Network ${existing.name}`, detail: fields.join(', ') });
+    }
+  });
+  // Older documents have no networks - nothing to compare. Built-in networks always stay.
+  if (incoming.networks.length > 0) {
+    current.networks
+      .filter(network => !network.builtIn && !incomingNetworkIds.has(network.id))
+      .forEach(network => changes.push({ type: 'removed', subject: `Network ${network.name}` }));
+  }
+
+  Object.keys({ ...current.selectionPolicies, ...incoming.selectionPolicies }).forEach(network => {
+    const before = current.selectionPolicies[network];
+    const after = incoming.selectionPolicies[network];
+    if (after !== undefined && before !== after) {
+      changes.push({ type: 'changed', subject: `Selection policy (${network})`, detail: `${before ?? 'priority'} → ${after}` });
+    }
+  });
+
+  const currentById = new Map(current.providers.map(provider => [provider.id, provider]));
+  const incomingIds = new Set(incoming.providers.map(provider => provider.id));
+  incoming.providers.forEach(provider => {
+    const existing = currentById.get(provider.id);
+    if (!existing) {
+      changes.push({ type: 'added', subject: describeProvider(provider), detail: provider.url });
+      return;
+    }
+    const fields = (['name', 'url', 'network', 'enabled', 'priority', 'archival'] as const)
+      .filter(field => existing[field] !== provider[field])
+      .map(field => `${field} ${formatValue(existing[field])} → ${formatValue(provider[field])}`);
+    // Neither document holds secret headers (importing keeps the current ones)
+    const headers = changedHeaderNames(existing.headers, provider.headers);
+    if (headers.length > 0) {
+      fields.push(`headers ${headers.join(', ')} changed`);
+    }
+    if (formatRateLimit(existing.rateLimit) !== formatRateLimit(provider.rateLimit)) {
+      fields.push(`rate limit ${formatRateLimit(existing.rateLimit)} → ${formatRateLimit(provider.rateLimit)}`);
+    }
+    if (fields.length > 0) {
+      changes.push({ type: 'changed', subject: describeProvider(existing), detail: fields.join(', ') });
+    }
+  });
+  current.providers
+    .filter(provider => !incomingIds.has(provider.id))
+    .forEach(provider => changes.push({ type: 'removed', subject: describeProvider(provider), detail: provider.url }));
+
+  (Object.keys(SETTINGS_LABELS) as (keyof ProviderSettings)[]).forEach(section => {
+    const before = current.settings[section];
+    const after = incoming.settings[section];
+    if (after === undefined) return;
+    if (section === 'finality') {
+      if (before !== after) changes.push({ type: 'changed', subject: SETTINGS_LABELS.finality, detail: `${before} → ${after}` });
+      return;
+    }
+    const beforeFields = (before ?? {}) as Record<string, unknown>;
+    const fields = Object.entries(after as object)
+      .filter(([field, value]) => beforeFields[field] !== value)
+      .map(([field, value]) => `${field} ${formatValue(beforeFields[field])} → ${formatValue(value)}`);
+    if (fields.length > 0) {
+      changes.push({ type: 'changed', subject: SETTINGS_LABELS[section], detail: fields.join(', ') });
+    }
+  });
+
+  return changes;
+}
@@ -1,13 +1,20 @@
 // Provider Management Service for NEAR RPC endpoints
 
+import { FINALITIES, Finality } from './nearRpcTypes';
+import type { ProviderConfigDocument } from './providerConfig';
+
 export interface RpcProvider {
   id: string;
   name: string;
   url: string;
-  network: 'mainnet' | 'testnet' | 'localnet' | 'custom';
+  network: NetworkType;
   enabled: boolean;
   priority: number;
   isCustom?: boolean;
+  archival?: boolean; // Keeps full chain history; undefined = auto-detect
+  replay?: boolean; // Served from a recorded fixture (lib/rpcReplay.ts), never the network
+  headers?: Record<string, string>; // Sent with every request, e.g. an API key
+  rateLimit?: Partial<RateLimitConfig>; // Overrides the global rate limit fields it sets
 }
 
 export interface ProviderHealth {
@@ -15,19 +22,141 @@ export interface ProviderHealth {
   isHealthy: boolean;
   lastChecked: number;
   responseTime?: number;
+  ewmaResponseTime?: number; // Exponentially weighted moving average of responseTime
+  disagreements?: number; // Verified reads where this provider's answer differed from the majority
+  archivalDetected?: boolean; // Result of detectArchival (status vs genesis height)
+  earliestBlockHeight?: number; // Oldest block the provider still stores (from detectArchival)
+  chainId?: string; // status.chain_id at the last check
+  wrongChain?: boolean; // chainId does not belong to the provider's network
+  latestBlockHeight?: number; // status.sync_info.latest_block_height at the last check
+  syncing?: boolean; // The node reported it is still catching up
+  blocksBehind?: number; // How far latestBlockHeight trailed the highest recently seen on the network
   error?: string;
 }
 
-export type NetworkType = 'mainnet' | 'testnet' | 'localnet';
+// Called when a provider is disabled automatically, e.g. because it serves the wrong chain
+type ProviderDisabledListener = (provider: RpcProvider, reason: string) => void;
+type NetworkRemovedListener = (network: NetworkDefinition) => void;
+type ProviderRemovedListener = (provider: RpcProvider) => void;
+
+// Id of a network in the registry (see NetworkDefinition)
+export type NetworkType = string;
+
+// A network the explorer can switch to. Mainnet, testnet and localnet are built in;
+// users add their own (per-developer localnets, CI sandboxes, staging chains) in Settings.
+export interface NetworkDefinition {
+  id: NetworkType;
+  name: string;
+  chainId?: string; // Expected status.chain_id; unset = any chain no other network claims
+  color: string; // CSS color of the network in switchers
+  finality: Finality; // Finality applied when switching to the network
+  builtIn?: boolean; // Built-in networks can be edited but not deleted
+}
+
+// Finality of "latest" reads - 'final' trails the chain tip by a couple of blocks
+const DEFAULT_FINALITY: Finality = 'final';
+
+export const BUILT_IN_NETWORKS: NetworkDefinition[] = [
+  { id: 'mainnet', name: 'NEAR Mainnet', chainId: 'mainnet', color: '#00c08b', finality: DEFAULT_FINALITY, builtIn: true },
+  { id: 'testnet', name: 'NEAR Testnet', chainId: 'testnet', color: '#9797ff', finality: DEFAULT_FINALITY, builtIn: true },
+  { id: 'localnet', name: 'Local Development', color: '#f59e0b', finality: DEFAULT_FINALITY, builtIn: true },
+];
+const DEFAULT_NETWORK: NetworkType = 'localnet';
+
+// How the failover client picks a provider (see lib/providerSelection.ts)
+export type SelectionPolicyId = 'priority' | 'latency' | 'least-outstanding' | 'random-weighted';
+export const SELECTION_POLICY_IDS: SelectionPolicyId[] = ['priority', 'latency', 'least-outstanding', 'random-weighted'];
+const DEFAULT_SELECTION_POLICY: SelectionPolicyId = 'priority';
+
+// Circuit breaker thresholds (see lib/circuitBreaker.ts)
+export interface CircuitBreakerConfig {
+  failureThreshold: number; // Consecutive failures before a provider is skipped
+  cooldownMs: number; // How long a provider is skipped before a half-open probe
+}
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 3,
+  cooldownMs: 30000,
+};
+
+// Token bucket limits applied to each provider (see lib/rateLimiter.ts)
+export interface RateLimitConfig {
+  requestsPerSecond: number; // Refill rate; 0 disables client-side limiting
+  burst: number; // Bucket size - requests that may go out at once
+}
+export const DEFAULT_RATE_LIMIT_CONFIG: RateLimitConfig = {
+  requestsPerSecond: 20,
+  burst: 40,
+};
+
+// Hedged requests (see NearRpcFailoverClient.hedgedCall)
+export interface HedgingConfig {
+  enabled: boolean;
+  delayMs: number; // How long the primary provider gets before the request is also sent to the next one
+}
+export const DEFAULT_HEDGING_CONFIG: HedgingConfig = {
+  enabled: false,
+  delayMs: 300,
+};
+
+// Cross-provider verification of immutable reads (see lib/rpcVerification.ts)
+export interface VerificationConfig {
+  enabled: boolean;
+  quorum: number; // Number of providers each verified read is sent to
+}
+export const DEFAULT_VERIFICATION_CONFIG: VerificationConfig = {
+  enabled: false,
+  quorum: 2,
+};
+
+// Background `status` probes of the enabled providers (see lib/healthMonitor.ts)
+export interface HealthMonitorConfig {
+  enabled: boolean;
+  intervalMs: number; // Time between probes of each provider
+}
+export const DEFAULT_HEALTH_MONITOR_CONFIG: HealthMonitorConfig = {
+  enabled: true,
+  intervalMs: 30000,
+};
+
+// Shared configuration files (lib/providerConfig.ts)
+export const PROVIDER_CONFIG_FORMAT = 'near-explorer-provider-config';
+export const PROVIDER_CONFIG_VERSION = 1;
 
 const STORAGE_KEY_PROVIDERS = 'near_rpc_providers';
 const STORAGE_KEY_CUSTOM = 'near_rpc_custom_providers';
 const STORAGE_KEY_ENABLED = 'near_rpc_enabled_providers';
 const STORAGE_KEY_NETWORK = 'near_rpc_network';
+const STORAGE_KEY_NETWORKS = 'near_rpc_networks';
+const STORAGE_KEY_FINALITY = 'near_rpc_finality';
+const STORAGE_KEY_SELECTION = 'near_rpc_selection_policy';
+const STORAGE_KEY_CIRCUIT_BREAKER = 'near_rpc_circuit_breaker';
+const STORAGE_KEY_RATE_LIMIT = 'near_rpc_rate_limit';
+const STORAGE_KEY_HEDGING = 'near_rpc_hedging';
+const STORAGE_KEY_VERIFICATION = 'near_rpc_verification';
+const STORAGE_KEY_HEALTH_MONITOR = 'near_rpc_health_monitor';
+const REPLAY_PROVIDER_ID = 'replay-fixture';
 const STORAGE_KEY_VERSION = 'near_rpc_config_version';
 const CURRENT_CONFIG_VERSION = '2.0'; // Updated to force migration to AWS Localnet
+const EWMA_ALPHA = 0.3; // Weight of the newest response time sample
+// A provider further than this many blocks behind the highest height seen on its network is lagging
+const SYNC_LAG_THRESHOLD = 30;
+// Heights checked longer ago than this are too old to compare with
+const SYNC_LAG_WINDOW_MS = 120000;
 const GITHUB_PROVIDERS_URL = 'https://raw.githubusercontent.com/near/docs/master/docs/api/rpc/providers.md';
 
+// Header names whose values are credentials - masked in Settings, left out of exports
+const SECRET_HEADER_PATTERN = /auth|key|token|secret|password/i;
+
+export function isSecretHeader(name: string): boolean {
+  return SECRET_HEADER_PATTERN.test(name);
+}
+
+// Only the headers that are safe to share
+function publicHeaders(headers: Record<string, string> | undefined): Record<string, string> | undefined {
+  const kept = Object.entries(headers ?? {}).filter(([name]) => !isSecretHeader(name));
+  return kept.length > 0 ? Object.fromEntries(kept) : undefined;
+}
+
 // Fallback static provider list
 const FALLBACK_PROVIDERS: RpcProvider[] = [
   // Mainnet
@@ -36,15 +165,19 @@ const FALLBACK_PROVIDERS: RpcProvider[] = [
   { id: 'mainnet-pagoda', name: 'Pagoda', url: 'https://rpc.mainnet.pagoda.co', network: 'mainnet', enabled: true, priority: 3 },
   { id: 'mainnet-aurora', name: 'Aurora', url: 'https://mainnet.aurora.dev', network: 'mainnet', enabled: false, priority: 4 },
   { id: 'mainnet-lava', name: 'Lava Network', url: 'https://near.lava.build', network: 'mainnet', enabled: false, priority: 5 },
+  { id: 'mainnet-near-archival', name: 'NEAR Archival', url: 'https://archival-rpc.mainnet.near.org', network: 'mainnet', enabled: true, priority: 6, archival: true },
   
   // Testnet
   { id: 'testnet-near-official', name: 'NEAR Testnet Official', url: 'https://rpc.testnet.near.org', network: 'testnet', enabled: true, priority: 10 },
   { id: 'testnet-fastnear', name: 'FastNEAR Testnet', url: 'https://test.rpc.fastnear.com', network: 'testnet', enabled: false, priority: 11 },
   { id: 'testnet-pagoda', name: 'Pagoda Testnet', url: 'https://rpc.testnet.pagoda.co', network: 'testnet', enabled: false, priority: 12 },
+  { id: 'testnet-near-archival', name: 'NEAR Testnet Archival', url: 'https://archival-rpc.testnet.near.org', network: 'testnet', enabled: true, priority: 13, archival: true },
   
   // Localnet
   { id: 'localnet-aws', name: 'AWS Localnet', url: 'http://54.90.246.254:3030', network: 'localnet', enabled: true, priority: 20 },
   { id: 'localnet-default', name: 'Localhost:3030', url: 'http://localhost:3030', network: 'localnet', enabled: false, priority: 21 },
+  // Simulated in the browser (lib/demoChain.ts) - works offline
+  { id: 'localnet-demo', name: 'Demo Chain (offline)', url: 'demo://chain', network: 'localnet', enabled: false, priority: 22, archival: true },
 ];
 
 class ProviderManager {
@@ -52,7 +185,18 @@ class ProviderManager {
   private customProviders: RpcProvider[] = [];
   private healthStatus: Map<string, ProviderHealth> = new Map();
   private listeners: Array<() => void> = [];
-  private selectedNetwork: NetworkType = 'localnet';
+  private disabledListeners: ProviderDisabledListener[] = [];
+  private networkRemovedListeners: NetworkRemovedListener[] = [];
+  private providerRemovedListeners: ProviderRemovedListener[] = [];
+  private networks: NetworkDefinition[] = BUILT_IN_NETWORKS.map(n => ({ ...n }));
+  private selectedNetwork: NetworkType = DEFAULT_NETWORK;
+  private finality: Finality = DEFAULT_FINALITY;
+  private selectionPolicies: Partial<Record<NetworkType, SelectionPolicyId>> = {};
+  private circuitBreakerConfig: CircuitBreakerConfig = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG };
+  private rateLimitConfig: RateLimitConfig = { ...DEFAULT_RATE_LIMIT_CONFIG };
+  private hedgingConfig: HedgingConfig = { ...DEFAULT_HEDGING_CONFIG };
+  private verificationConfig: VerificationConfig = { ...DEFAULT_VERIFICATION_CONFIG };
+  private healthMonitorConfig: HealthMonitorConfig = { ...DEFAULT_HEALTH_MONITOR_CONFIG };
 
   constructor() {
     this.loadFromStorage();
@@ -68,17 +212,75 @@ class ProviderManager {
         console.log('Resetting to new defaults with AWS Localnet...');
         this.providers = [...FALLBACK_PROVIDERS];
         this.customProviders = [];
-        this.selectedNetwork = 'localnet';
+        this.selectedNetwork = DEFAULT_NETWORK;
         this.saveToStorage();
         return;
       }
 
+      // Load the network registry - built-in networks are always present
+      const networksJson = localStorage.getItem(STORAGE_KEY_NETWORKS);
+      if (networksJson) {
+        const saved = JSON.parse(networksJson) as NetworkDefinition[];
+        const savedIds = new Set(saved.map(n => n.id));
+        this.networks = [
+          ...BUILT_IN_NETWORKS.filter(n => !savedIds.has(n.id)).map(n => ({ ...n })),
+          ...saved.map(n => ({ ...n, builtIn: BUILT_IN_NETWORKS.some(b => b.id === n.id) || undefined })),
+        ];
+      }
+
       // Load selected network
       const savedNetwork = localStorage.getItem(STORAGE_KEY_NETWORK) as NetworkType | null;
-      if (savedNetwork && ['mainnet', 'testnet', 'localnet'].includes(savedNetwork)) {
+      if (savedNetwork && this.getNetwork(savedNetwork)) {
         this.selectedNetwork = savedNetwork;
       } else {
-        this.selectedNetwork = 'localnet';
+        this.selectedNetwork = DEFAULT_NETWORK;
+      }
+
+      // Load finality used for latest-block reads
+      const savedFinality = localStorage.getItem(STORAGE_KEY_FINALITY) as Finality | null;
+      if (savedFinality && FINALITIES.includes(savedFinality)) {
+        this.finality = savedFinality;
+      }
+
+      // Load per-network selection policies
+      const selectionJson = localStorage.getItem(STORAGE_KEY_SELECTION);
+      if (selectionJson) {
+        const saved = JSON.parse(selectionJson) as Record<string, string>;
+        Object.entries(saved).forEach(([network, policy]) => {
+          if (SELECTION_POLICY_IDS.includes(policy as SelectionPolicyId)) {
+            this.selectionPolicies[network as NetworkType] = policy as SelectionPolicyId;
+          }
+        });
+      }
+
+      // Load circuit breaker thresholds
+      const breakerJson = localStorage.getItem(STORAGE_KEY_CIRCUIT_BREAKER);
+      if (breakerJson) {
+        this.circuitBreakerConfig = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...JSON.parse(breakerJson) };
+      }
+
+      // Load rate limits
+      const rateLimitJson = localStorage.getItem(STORAGE_KEY_RATE_LIMIT);
+      if (rateLimitJson) {
+        this.rateLimitConfig = { ...DEFAULT_RATE_LIMIT_CONFIG, ...JSON.parse(rateLimitJson) };
+      }
+
+      // Load hedging settings
+      const hedgingJson = localStorage.getItem(STORAGE_KEY_HEDGING);
+      if (hedgingJson) {
+        this.hedgingConfig = { ...DEFAULT_HEDGING_CONFIG, ...JSON.parse(hedgingJson) };
+      }
+
+      // Load verification settings
+      const verificationJson = localStorage.getItem(STORAGE_KEY_VERIFICATION);
+      if (verificationJson) {
+        this.verificationConfig = { ...DEFAULT_VERIFICATION_CONFIG, ...JSON.parse(verificationJson) };
+      }
+
+      // Load health monitor settings
+      const healthMonitorJson = localStorage.getItem(STORAGE_KEY_HEALTH_MONITOR);
+      if (healthMonitorJson) {
+        this.healthMonitorConfig = { ...DEFAULT_HEALTH_MONITOR_CONFIG, ...JSON.parse(healthMonitorJson) };
       }
 
       // Load custom providers
@@ -108,10 +310,16 @@ class ProviderManager {
           p.enabled = enabledSet.has(p.id);
         });
       }
+
+      // Pick up built-in providers added since the config was saved (with their default enabled state)
+      const knownIds = new Set(this.providers.map(p => p.id));
+      FALLBACK_PROVIDERS
+        .filter(p => !knownIds.has(p.id))
+        .forEach(p => this.providers.push({ ...p }));
     } catch (error) {
       console.error('Failed to load providers from storage:', error);
       this.providers = [...FALLBACK_PROVIDERS];
-      this.selectedNetwork = 'localnet';
+      this.selectedNetwork = DEFAULT_NETWORK;
     }
   }
 
@@ -121,9 +329,18 @@ class ProviderManager {
       localStorage.setItem(STORAGE_KEY_VERSION, CURRENT_CONFIG_VERSION);
       localStorage.setItem(STORAGE_KEY_PROVIDERS, JSON.stringify(this.providers));
       localStorage.setItem(STORAGE_KEY_CUSTOM, JSON.stringify(this.customProviders));
+      localStorage.setItem(STORAGE_KEY_NETWORKS, JSON.stringify(this.networks));
       localStorage.setItem(STORAGE_KEY_NETWORK, this.selectedNetwork);
+      localStorage.setItem(STORAGE_KEY_FINALITY, this.finality);
+      localStorage.setItem(STORAGE_KEY_SELECTION, JSON.stringify(this.selectionPolicies));
+      localStorage.setItem(STORAGE_KEY_CIRCUIT_BREAKER, JSON.stringify(this.circuitBreakerConfig));
+      localStorage.setItem(STORAGE_KEY_RATE_LIMIT, JSON.stringify(this.rateLimitConfig));
+      localStorage.setItem(STORAGE_KEY_HEDGING, JSON.stringify(this.hedgingConfig));
+      localStorage.setItem(STORAGE_KEY_VERIFICATION, JSON.stringify(this.verificationConfig));
+      localStorage.setItem(STORAGE_KEY_HEALTH_MONITOR, JSON.stringify(this.healthMonitorConfig));
       
-      const enabledIds = this.getAllProviders()
+      // Every network, so switching networks keeps their enabled providers
+      const enabledIds = [...this.providers, ...this.customProviders]
         .filter(p => p.enabled)
         .map(p => p.id);
       localStorage.setItem(STORAGE_KEY_ENABLED, JSON.stringify(enabledIds));
@@ -139,9 +356,194 @@ class ProviderManager {
     return this.selectedNetwork;
   }
 
-  // Set current network (disables all other networks)
+  // Set current network (disables all other networks) and switch to its finality
   setSelectedNetwork(network: NetworkType): void {
+    const definition = this.getNetwork(network);
+    if (!definition) return;
     this.selectedNetwork = network;
+    this.finality = definition.finality;
+    this.saveToStorage();
+  }
+
+  // Registered networks, built-in ones first. The array is replaced on every change.
+  getNetworks(): NetworkDefinition[] {
+    return this.networks;
+  }
+
+  getNetwork(id: NetworkType): NetworkDefinition | undefined {
+    return this.networks.find(n => n.id === id);
+  }
+
+  // Register a network; its id is derived from the name
+  addNetwork(network: Omit<NetworkDefinition, 'id' | 'builtIn'>): NetworkDefinition {
+    const base = network.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'network';
+    let id = base;
+    for (let n = 2; this.getNetwork(id); n++) {
+      id = `${base}-${n}`;
+    }
+    const definition: NetworkDefinition = { ...network, id, name: network.name.trim() };
+    this.networks = [...this.networks, definition];
+    this.saveToStorage();
+    return definition;
+  }
+
+  // Rename or reconfigure a network (the id never changes)
+  updateNetwork(id: NetworkType, changes: Partial<Omit<NetworkDefinition, 'id' | 'builtIn'>>): void {
+    if (this.getNetwork(id)) {
+      this.networks = this.networks.map(n => (n.id === id ? { ...n, ...changes } : n));
+      this.saveToStorage();
+    }
+  }
+
+  // Delete a user-defined network together with every provider on it (imported ones included)
+  removeNetwork(id: NetworkType): void {
+    const network = this.getNetwork(id);
+    if (!network || network.builtIn) return;
+    this.networks = this.networks.filter(n => n.id !== id);
+    this.forgetProviders([...this.providers, ...this.customProviders].filter(p => p.network === id));
+    this.providers = this.providers.filter(p => p.network !== id);
+    this.customProviders = this.customProviders.filter(p => p.network !== id);
+    this.forgetNetworks([network]);
+    this.saveToStorage();
+  }
+
+  // Clean up after networks that were deleted from the registry
+  private forgetNetworks(networks: NetworkDefinition[]): void {
+    networks.forEach(network => {
+      delete this.selectionPolicies[network.id];
+      // A network created later with the same name gets the same id - let caches forget this one
+      this.networkRemovedListeners.forEach(listener => listener(network));
+    });
+    if (!this.getNetwork(this.selectedNetwork)) {
+      this.selectedNetwork = DEFAULT_NETWORK;
+    }
+  }
+
+  // Drop the health of deleted providers and let breakers and rate limiters forget them,
+  // so a provider added later with the same id starts fresh
+  private forgetProviders(providers: RpcProvider[]): void {
+    providers.forEach(provider => {
+      this.healthStatus.delete(provider.id);
+      this.providerRemovedListeners.forEach(listener => listener(provider));
+    });
+  }
+
+  // Whether a status chain_id belongs to the network: its expected chain_id, or for
+  // networks without one (e.g. localnet) any chain that no other network expects
+  isExpectedChain(network: NetworkType, chainId: string): boolean {
+    const expected = this.getNetwork(network)?.chainId;
+    if (expected) return chainId === expected;
+    return !this.networks.some(n => n.id !== network && n.chainId === chainId);
+  }
+
+  // Get the finality that "latest" reads use (latest block, account and contract queries)
+  getFinality(): Finality {
+    return this.finality;
+  }
+
+  // Set the finality for "latest" reads
+  setFinality(finality: Finality): void {
+    this.finality = finality;
+    this.saveToStorage();
+  }
+
+  // Get provider selection policy (defaults to the current network)
+  getSelectionPolicy(network: NetworkType = this.selectedNetwork): SelectionPolicyId {
+    return this.selectionPolicies[network] || DEFAULT_SELECTION_POLICY;
+  }
+
+  // Set provider selection policy for a network
+  setSelectionPolicy(policy: SelectionPolicyId, network: NetworkType = this.selectedNetwork): void {
+    this.selectionPolicies[network] = policy;
+    this.saveToStorage();
+  }
+
+  // Get circuit breaker thresholds
+  getCircuitBreakerConfig(): CircuitBreakerConfig {
+    return this.circuitBreakerConfig;
+  }
+
+  // Update circuit breaker thresholds
+  setCircuitBreakerConfig(config: Partial<CircuitBreakerConfig>): void {
+    this.circuitBreakerConfig = {
+      failureThreshold: Math.max(1, Math.round(config.failureThreshold ?? this.circuitBreakerConfig.failureThreshold)),
+      cooldownMs: Math.max(0, config.cooldownMs ?? this.circuitBreakerConfig.cooldownMs),
+    };
+    this.saveToStorage();
+  }
+
+  // Get per-provider rate limits
+  getRateLimitConfig(): RateLimitConfig {
+    return this.rateLimitConfig;
+  }
+
+  // Limits of one provider - its own override where set, the global config elsewhere
+  getProviderRateLimit(providerId: string): RateLimitConfig {
+    const override = [...this.providers, ...this.customProviders].find(p => p.id === providerId)?.rateLimit;
+    return { ...this.rateLimitConfig, ...override };
+  }
+
+  // Replace a provider's rate limit override (undefined or empty = use the global config)
+  setProviderRateLimit(id: string, rateLimit: Partial<RateLimitConfig> | undefined): void {
+    const provider = this.getAllProviders().find(p => p.id === id);
+    if (provider) {
+      const override: Partial<RateLimitConfig> = {
+        ...(rateLimit?.requestsPerSecond !== undefined && { requestsPerSecond: Math.max(0, rateLimit.requestsPerSecond) }),
+        ...(rateLimit?.burst !== undefined && { burst: Math.max(1, Math.round(rateLimit.burst)) }),
+      };
+      provider.rateLimit = Object.keys(override).length > 0 ? override : undefined;
+      this.saveToStorage();
+    }
+  }
+
+  // Update per-provider rate limits
+  setRateLimitConfig(config: Partial<RateLimitConfig>): void {
+    this.rateLimitConfig = {
+      requestsPerSecond: Math.max(0, config.requestsPerSecond ?? this.rateLimitConfig.requestsPerSecond),
+      burst: Math.max(1, Math.round(config.burst ?? this.rateLimitConfig.burst)),
+    };
+    this.saveToStorage();
+  }
+
+  // Get hedged request settings
+  getHedgingConfig(): HedgingConfig {
+    return this.hedgingConfig;
+  }
+
+  // Update hedged request settings
+  setHedgingConfig(config: Partial<HedgingConfig>): void {
+    this.hedgingConfig = {
+      enabled: config.enabled ?? this.hedgingConfig.enabled,
+      delayMs: Math.max(0, config.delayMs ?? this.hedgingConfig.delayMs),
+    };
+    this.saveToStorage();
+  }
+
+  // Get cross-provider verification settings
+  getVerificationConfig(): VerificationConfig {
+    return this.verificationConfig;
+  }
+
+  // Update cross-provider verification settings
+  setVerificationConfig(config: Partial<VerificationConfig>): void {
+    this.verificationConfig = {
+      enabled: config.enabled ?? this.verificationConfig.enabled,
+      quorum: Math.max(2, Math.round(config.quorum ?? this.verificationConfig.quorum)),
+    };
+    this.saveToStorage();
+  }
+
+  // Get background health monitor settings
+  getHealthMonitorConfig(): HealthMonitorConfig {
+    return this.healthMonitorConfig;
+  }
+
+  // Update background health monitor settings
+  setHealthMonitorConfig(config: Partial<HealthMonitorConfig>): void {
+    this.healthMonitorConfig = {
+      enabled: config.enabled ?? this.healthMonitorConfig.enabled,
+      intervalMs: Math.max(5000, config.intervalMs ?? this.healthMonitorConfig.intervalMs),
+    };
     this.saveToStorage();
   }
 
@@ -226,9 +628,11 @@ class ProviderManager {
     return allProviders;
   }
 
-  // Get enabled providers for current network
+  // Get enabled providers for current network - only the replay provider while it is enabled
   getEnabledProviders(): RpcProvider[] {
-    return this.getAllProviders().filter(p => p.enabled);
+    const enabled = this.getAllProviders().filter(p => p.enabled);
+    const replay = enabled.filter(p => p.replay);
+    return replay.length > 0 ? replay : enabled;
   }
 
   // Get providers by network (across all networks)
@@ -259,8 +663,28 @@ class ProviderManager {
     return provider;
   }
 
+  // Add (or with a null url remove) the provider that replays a recorded fixture
+  setReplayProvider(url: string | null, network: NetworkType = this.selectedNetwork): void {
+    this.customProviders = this.customProviders.filter(p => p.id !== REPLAY_PROVIDER_ID);
+    if (url) {
+      this.customProviders.push({
+        id: REPLAY_PROVIDER_ID,
+        name: 'Replay Fixture',
+        url,
+        // A fixture recorded on a network that is not registered here replays on the current one
+        network: this.getNetwork(network) ? network : this.selectedNetwork,
+        enabled: true,
+        priority: 0,
+        isCustom: true,
+        replay: true,
+      });
+    }
+    this.saveToStorage();
+  }
+
   // Remove custom provider
   removeCustomProvider(id: string): void {
+    this.forgetProviders(this.customProviders.filter(p => p.id === id));
     this.customProviders = this.customProviders.filter(p => p.id !== id);
     this.saveToStorage();
   }
@@ -323,9 +747,17 @@ class ProviderManager {
       lastChecked: Date.now(),
     };
     
+    // Smooth response times so one slow request doesn't reorder providers
+    const ewmaResponseTime = health.responseTime === undefined
+      ? current.ewmaResponseTime
+      : current.ewmaResponseTime === undefined
+        ? health.responseTime
+        : EWMA_ALPHA * health.responseTime + (1 - EWMA_ALPHA) * current.ewmaResponseTime;
+    
     this.healthStatus.set(providerId, {
       ...current,
       ...health,
+      ewmaResponseTime,
       lastChecked: Date.now(),
     });
     
@@ -337,6 +769,88 @@ class ProviderManager {
     return this.healthStatus.get(providerId);
   }
 
+  // Whether a provider keeps full history - the manual setting wins over detection
+  isArchival(provider: RpcProvider): boolean {
+    return provider.archival ?? this.healthStatus.get(provider.id)?.archivalDetected ?? false;
+  }
+
+  // Enabled archival providers for current network
+  getArchivalProviders(): RpcProvider[] {
+    return this.getEnabledProviders().filter(p => this.isArchival(p));
+  }
+
+  // Mark a provider as archival or regular (undefined = auto-detect)
+  setProviderArchival(id: string, archival: boolean | undefined): void {
+    const provider = this.getAllProviders().find(p => p.id === id);
+    if (provider) {
+      provider.archival = archival;
+      this.saveToStorage();
+    }
+  }
+
+  // Headers to send to a provider (headers set on the proxy server are added there, see proxy-server.js)
+  getRequestHeaders(provider: RpcProvider): Record<string, string> {
+    return { ...provider.headers };
+  }
+
+  // Replace a provider's stored headers (empty = none)
+  setProviderHeaders(id: string, headers: Record<string, string>): void {
+    const provider = this.getAllProviders().find(p => p.id === id);
+    if (provider) {
+      provider.headers = Object.keys(headers).length > 0 ? { ...headers } : undefined;
+      this.saveToStorage();
+    }
+  }
+
+  // Detect whether a provider is archival: an archival node still has the genesis block,
+  // so its earliest available block is the genesis height
+  async detectArchival(providerId: string): Promise<boolean | undefined> {
+    const provider = this.getAllProviders().find(p => p.id === providerId);
+    
+    if (!provider) {
+      throw new Error(`Provider ${providerId} not found`);
+    }
+    
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
+      
+      // Dynamically import rpcProxy to avoid circular dependency
+      const { rpcProxy } = await import('./rpcProxy');
+      
+      const request = async (method: string) => {
+        const body = JSON.stringify({ jsonrpc: '2.0', id: method, method, params: method === 'status' ? [] : {} });
+        const response = await rpcProxy.smartFetch(provider.url, body, controller.signal, this.getRequestHeaders(provider));
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+        const data = await response.json();
+        if (data.error) {
+          throw new Error(data.error.message);
+        }
+        return data.result;
+      };
+      
+      const [status, genesis] = await Promise.all([
+        request('status'),
+        request('EXPERIMENTAL_genesis_config'),
+      ]).finally(() => clearTimeout(timeoutId));
+      
+      const earliest = status?.sync_info?.earliest_block_height;
+      const genesisHeight = genesis?.genesis_height;
+      if (typeof earliest !== 'number' || typeof genesisHeight !== 'number') {
+        return undefined;
+      }
+      
+      const archivalDetected = earliest <= genesisHeight;
+      this.updateHealth(providerId, { archivalDetected, earliestBlockHeight: earliest });
+      return archivalDetected;
+    } catch (error) {
+      console.warn(`Archival detection failed for ${provider.name}:`, error);
+      return undefined;
+    }
+  }
+
   // Test provider connection
   async testProvider(providerId: string): Promise<ProviderHealth> {
     const provider = this.getAllProviders().find(p => p.id === providerId);
@@ -362,13 +876,14 @@ class ProviderManager {
         params: [],
       });
       
-      const response = await rpcProxy.smartFetch(provider.url, body, controller.signal);
+      const response = await rpcProxy.smartFetch(provider.url, body, controller.signal, this.getRequestHeaders(provider));
       
       clearTimeout(timeoutId);
       const responseTime = Date.now() - startTime;
       
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        const { httpError } = await import('./rpcBatcher');
+        throw await httpError(response);
       }
       
       const data = await response.json();
@@ -379,9 +894,20 @@ class ProviderManager {
         lastChecked: Date.now(),
         responseTime,
         error: data.error ? data.error.message : undefined,
+        // Replay and demo chains answer from a fixture or simulation - their chain and height say nothing
+        ...(rpcProxy.isVirtualUrl(provider.url) ? {} : this.checkStatus(provider, data.result)),
       };
+      if (health.wrongChain) {
+        health.isHealthy = false;
+        health.error = `Serves chain "${health.chainId}", not ${this.getNetwork(provider.network)?.name ?? provider.network}`;
+      }
       
       this.updateHealth(providerId, health);
+      if (health.wrongChain && provider.enabled) {
+        provider.enabled = false;
+        this.saveToStorage();
+        this.notifyDisabled(provider, health.error!);
+      }
       return health;
     } catch (error) {
       const health: ProviderHealth = {
@@ -397,6 +923,127 @@ class ProviderManager {
     }
   }
 
+  // Chain and sync state from a status result (empty if it is not one)
+  private checkStatus(provider: RpcProvider, status: any): Partial<ProviderHealth> {
+    const chainId = status?.chain_id;
+    const latestBlockHeight = status?.sync_info?.latest_block_height;
+    if (typeof chainId !== 'string' || typeof latestBlockHeight !== 'number') {
+      return {};
+    }
+    
+    const wrongChain = !this.isExpectedChain(provider.network, chainId);
+    // Highest height other right-chain providers of the network reported recently
+    const highest = Math.max(
+      latestBlockHeight,
+      ...[...this.providers, ...this.customProviders]
+        .filter(p => p.network === provider.network && p.id !== provider.id)
+        .map(p => this.healthStatus.get(p.id))
+        .filter((h): h is ProviderHealth =>
+          !!h && !h.wrongChain && h.latestBlockHeight !== undefined && Date.now() - h.lastChecked < SYNC_LAG_WINDOW_MS
+        )
+        .map(h => h.latestBlockHeight!)
+    );
+    
+    return {
+      chainId,
+      wrongChain,
+      latestBlockHeight,
+      syncing: status.sync_info.syncing === true,
+      blocksBehind: wrongChain ? undefined : highest - latestBlockHeight,
+    };
+  }
+
+  // Whether the last check found the provider lagging behind the network or still syncing
+  isLagging(providerId: string): boolean {
+    const health = this.healthStatus.get(providerId);
+    return !!health && (health.syncing === true || (health.blocksBehind ?? 0) > SYNC_LAG_THRESHOLD);
+  }
+
+  // The provider configuration as a shareable document (without the replay provider
+  // and secret header values)
+  exportConfig(): ProviderConfigDocument {
+    return {
+      format: PROVIDER_CONFIG_FORMAT,
+      version: PROVIDER_CONFIG_VERSION,
+      exportedAt: new Date().toISOString(),
+      networks: this.networks.map(n => ({ ...n })),
+      selectedNetwork: this.selectedNetwork,
+      selectionPolicies: { ...this.selectionPolicies },
+      providers: [...this.providers, ...this.customProviders]
+        .filter(p => !p.replay)
+        .map(({ headers, ...provider }) => {
+          const shared = publicHeaders(headers);
+          return shared ? { ...provider, headers: shared } : provider;
+        }),
+      settings: {
+        finality: this.finality,
+        circuitBreaker: { ...this.circuitBreakerConfig },
+        rateLimit: { ...this.rateLimitConfig },
+        hedging: { ...this.hedgingConfig },
+        verification: { ...this.verificationConfig },
+        healthMonitor: { ...this.healthMonitorConfig },
+      },
+    };
+  }
+
+  // Apply a validated configuration document (parseProviderConfig). Merging updates
+  // providers with the same id and keeps the rest; replacing makes the config match it.
+  importConfig(config: ProviderConfigDocument, mode: 'merge' | 'replace'): void {
+    // Exports leave out secret headers - keep the ones already set for the same provider
+    const currentById = new Map([...this.providers, ...this.customProviders].map(p => [p.id, p]));
+    const incoming = config.providers.map(p => {
+      const secrets = Object.entries(currentById.get(p.id)?.headers ?? {}).filter(([name]) => isSecretHeader(name));
+      const headers = { ...Object.fromEntries(secrets), ...p.headers };
+      return Object.keys(headers).length > 0 ? { ...p, headers } : { ...p };
+    });
+    const incomingBase = incoming.filter(p => !p.isCustom);
+    const incomingCustom = incoming.filter(p => p.isCustom);
+    const replay = this.customProviders.filter(p => p.replay);
+    const previousNetworks = this.networks;
+    const previousProviders = [...this.providers, ...this.customProviders];
+
+    const mergeNetworks = (current: NetworkDefinition[]) => {
+      const byId = new Map(config.networks.map(n => [n.id, { ...n }]));
+      const currentIds = new Set(current.map(n => n.id));
+      return [...current.map(n => byId.get(n.id) ?? n), ...config.networks.filter(n => !currentIds.has(n.id)).map(n => ({ ...n }))];
+    };
+
+    if (mode === 'replace') {
+      // Built-in networks stay registered even if the document leaves them out
+      this.networks = mergeNetworks(BUILT_IN_NETWORKS.map(n => ({ ...n })));
+      this.providers = incomingBase;
+      this.customProviders = [...incomingCustom, ...replay];
+      this.selectionPolicies = { ...config.selectionPolicies };
+    } else {
+      const mergeById = (current: RpcProvider[], updates: RpcProvider[]) => {
+        const byId = new Map(updates.map(p => [p.id, p]));
+        const currentIds = new Set(current.map(p => p.id));
+        return [...current.map(p => byId.get(p.id) ?? p), ...updates.filter(p => !currentIds.has(p.id))];
+      };
+      this.networks = mergeNetworks(this.networks);
+      this.providers = mergeById(this.providers, incomingBase);
+      this.customProviders = mergeById(this.customProviders, incomingCustom);
+      this.selectionPolicies = { ...this.selectionPolicies, ...config.selectionPolicies };
+    }
+
+    // Networks and providers a replace dropped go through the same cleanup as deleting them
+    const remainingIds = new Set([...this.providers, ...this.customProviders].map(p => p.id));
+    this.forgetProviders(previousProviders.filter(p => !remainingIds.has(p.id)));
+    this.forgetNetworks(previousNetworks.filter(n => !this.getNetwork(n.id)));
+
+    // Settings the document leaves out keep their value (merge) or reset (replace)
+    const { settings } = config;
+    const keep = mode === 'merge';
+    this.finality = settings.finality ?? (keep ? this.finality : DEFAULT_FINALITY);
+    this.circuitBreakerConfig = settings.circuitBreaker ?? (keep ? this.circuitBreakerConfig : { ...DEFAULT_CIRCUIT_BREAKER_CONFIG });
+    this.rateLimitConfig = settings.rateLimit ?? (keep ? this.rateLimitConfig : { ...DEFAULT_RATE_LIMIT_CONFIG });
+    this.hedgingConfig = settings.hedging ?? (keep ? this.hedgingConfig : { ...DEFAULT_HEDGING_CONFIG });
+    this.verificationConfig = settings.verification ?? (keep ? this.verificationConfig : { ...DEFAULT_VERIFICATION_CONFIG });
+    this.healthMonitorConfig = settings.healthMonitor ?? (keep ? this.healthMonitorConfig : { ...DEFAULT_HEALTH_MONITOR_CONFIG });
+    this.selectedNetwork = config.selectedNetwork;
+    this.saveToStorage();
+  }
+
   // Subscribe to changes
   subscribe(listener: () => void): () => void {
     this.listeners.push(listener);
@@ -409,11 +1056,47 @@ class ProviderManager {
     this.listeners.forEach(listener => listener());
   }
 
+  // Subscribe to providers being disabled automatically (with the reason)
+  onProviderDisabled(listener: ProviderDisabledListener): () => void {
+    this.disabledListeners.push(listener);
+    return () => {
+      this.disabledListeners = this.disabledListeners.filter(l => l !== listener);
+    };
+  }
+
+  private notifyDisabled(provider: RpcProvider, reason: string): void {
+    this.disabledListeners.forEach(listener => listener(provider, reason));
+  }
+
+  // Subscribe to networks being deleted
+  onNetworkRemoved(listener: NetworkRemovedListener): () => void {
+    this.networkRemovedListeners.push(listener);
+    return () => {
+      this.networkRemovedListeners = this.networkRemovedListeners.filter(l => l !== listener);
+    };
+  }
+
+  // Subscribe to providers being deleted (removed, on a deleted network or dropped by an import)
+  onProviderRemoved(listener: ProviderRemovedListener): () => void {
+    this.providerRemovedListeners.push(listener);
+    return () => {
+      this.providerRemovedListeners = this.providerRemovedListeners.filter(l => l !== listener);
+    };
+  }
+
   // Reset to defaults
   resetToDefaults(): void {
     this.providers = [...FALLBACK_PROVIDERS];
     this.customProviders = [];
-    this.selectedNetwork = 'localnet';
+    this.networks = BUILT_IN_NETWORKS.map(n => ({ ...n }));
+    this.selectedNetwork = DEFAULT_NETWORK;
+    this.finality = DEFAULT_FINALITY;
+    this.selectionPolicies = {};
+    this.circuitBreakerConfig = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG };
+    this.rateLimitConfig = { ...DEFAULT_RATE_LIMIT_CONFIG };
+    this.hedgingConfig = { ...DEFAULT_HEDGING_CONFIG };
+    this.verificationConfig = { ...DEFAULT_VERIFICATION_CONFIG };
+    this.healthMonitorConfig = { ...DEFAULT_HEALTH_MONITOR_CONFIG };
     this.saveToStorage();
   }
 
@@ -0,0 +1,130 @@
+/**
+ * Provider Selection Policies
+ *
+ * Decides the order in which the failover client tries the enabled providers
+ * of the current network. The first provider in the returned list receives
+ * the request; the rest are used, in order, for failover.
+ *
+ * Policies:
+ * - priority: strict priority order (the order shown in Settings)
+ * - latency: lowest EWMA response time first
+ * - least-outstanding: fewest in-flight requests first
+ * - random-weighted: random order, weighted towards faster providers
+ *
+ * Whatever the policy, providers the health monitor reports down go last.
+ */
+
+import { providerManager, RpcProvider, SelectionPolicyId } from './providerManager';
+import { healthMonitor } from './healthMonitor';
+
+export interface SelectionPolicy {
+  id: SelectionPolicyId;
+  name: string;
+  description: string;
+  order(providers: RpcProvider[]): RpcProvider[];
+}
+
+// Latency assumed for providers that have not been measured yet, so they get a chance to be sampled
+const UNMEASURED_LATENCY = 0;
+
+/**
+ * Tracks in-flight requests per provider (for the least-outstanding policy)
+ */
+class OutstandingRequests {
+  private counts: Map<string, number> = new Map();
+
+  start(providerId: string): void {
+    this.counts.set(providerId, this.get(providerId) + 1);
+  }
+
+  finish(providerId: string): void {
+    this.counts.set(providerId, Math.max(0, this.get(providerId) - 1));
+  }
+
+  get(providerId: string): number {
+    return this.counts.get(providerId) || 0;
+  }
+}
+
+export const outstandingRequests = new OutstandingRequests();
+
+function getLatency(provider: RpcProvider): number {
+  const health = providerManager.getHealth(provider.id);
+  return health?.ewmaResponseTime ?? health?.responseTime ?? UNMEASURED_LATENCY;
+}
+
+function byPriority(a: RpcProvider, b: RpcProvider): number {
+  return a.priority - b.priority;
+}
+
+// Providers that failed their last request are kept as a last resort
+function byHealth(a: RpcProvider, b: RpcProvider): number {
+  const aHealthy = providerManager.getHealth(a.id)?.isHealthy !== false;
+  const bHealthy = providerManager.getHealth(b.id)?.isHealthy !== false;
+  return Number(bHealthy) - Number(aHealthy);
+}
+
+const priorityPolicy: SelectionPolicy = {
+  id: 'priority',
+  name: 'Priority',
+  description: 'Always use the highest-priority provider first',
+  order: (providers) => [...providers].sort(byPriority),
+};
+
+const latencyPolicy: SelectionPolicy = {
+  id: 'latency',
+  name: 'Fastest (EWMA)',
+  description: 'Prefer the provider with the lowest average response time',
+  order: (providers) => [...providers].sort((a, b) =>
+    byHealth(a, b) || getLatency(a) - getLatency(b) || byPriority(a, b)
+  ),
+};
+
+const leastOutstandingPolicy: SelectionPolicy = {
+  id: 'least-outstanding',
+  name: 'Least busy',
+  description: 'Prefer the provider with the fewest requests in flight',
+  order: (providers) => [...providers].sort((a, b) =>
+    byHealth(a, b) ||
+    outstandingRequests.get(a.id) - outstandingRequests.get(b.id) ||
+    getLatency(a) - getLatency(b) ||
+    byPriority(a, b)
+  ),
+};
+
+const randomWeightedPolicy: SelectionPolicy = {
+  id: 'random-weighted',
+  name: 'Random (weighted)',
+  description: 'Spread requests randomly, favouring faster providers',
+  order: (providers) => {
+    // Weighted shuffle (Efraimidis-Spirakis): key = random^(1 / weight), highest key first.
+    // With weight = 1 / latency the key is compared in log space to avoid underflow.
+    const keyed = providers.map(provider => {
+      const latency = Math.max(getLatency(provider), 10);
+      return { provider, key: Math.log(Math.random()) * latency };
+    });
+    return keyed
+      .sort((a, b) => byHealth(a.provider, b.provider) || b.key - a.key)
+      .map(entry => entry.provider);
+  },
+};
+
+export const SELECTION_POLICIES: Record<SelectionPolicyId, SelectionPolicy> = {
+  'priority': priorityPolicy,
+  'latency': latencyPolicy,
+  'least-outstanding': leastOutstandingPolicy,
+  'random-weighted': randomWeightedPolicy,
+};
+
+/**
+ * Order providers using the policy configured for the current network. Providers
+ * known to be down are kept as a last resort.
+ */
+export function orderProviders(providers: RpcProvider[]): RpcProvider[] {
+  const policyId = providerManager.getSelectionPolicy();
+  const ordered = SELECTION_POLICIES[policyId].order(providers);
+  return [
+    ...ordered.filter(p => !healthMonitor.isDown(p.id)),
+    ...ordered.filter(p => healthMonitor.isDown(p.id)),
+  ];
+}
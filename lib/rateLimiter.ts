@@ -0,0 +1,138 @@
+/**
+ * Per-provider Rate Limiter
+ *
+ * A token bucket per provider keeps the explorer under the request limits of
+ * free RPC endpoints. Every HTTP request takes one token - a JSON-RPC batch
+ * (lib/rpcBatcher.ts) counts once however many calls it carries. Tokens refill
+ * at `requestsPerSecond` up to `burst` - a provider's own `rateLimit` override,
+ * falling back to the global config. When a provider answers with HTTP 429
+ * the bucket is blocked until its `Retry-After` has passed.
+ *
+ * Limits are configured in Settings and stored by providerManager.
+ */
+
+import { providerManager } from './providerManager';
+import { sleep } from './abortSignals';
+
+// Back-off used when a 429 response carries no Retry-After header
+export const DEFAULT_RETRY_AFTER_MS = 1000;
+
+export interface RateLimitStatus {
+  tokens: number;
+  // Set while the provider is backing off after a 429
+  blockedUntil?: number;
+}
+
+interface Bucket {
+  tokens: number;
+  lastRefill: number;
+  blockedUntil: number;
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+class RateLimiter {
+  private buckets: Map<string, Bucket> = new Map();
+
+  constructor() {
+    providerManager.onProviderRemoved(provider => this.buckets.delete(provider.id));
+  }
+
+  /**
+   * How long a request to this provider would have to wait for a token (0 = send now)
+   */
+  getWaitTime(providerId: string): number {
+    const bucket = this.refill(providerId);
+    const { requestsPerSecond } = providerManager.getProviderRateLimit(providerId);
+    const now = Date.now();
+
+    const blockedFor = Math.max(0, bucket.blockedUntil - now);
+    if (requestsPerSecond <= 0 || bucket.tokens >= 1) {
+      return blockedFor;
+    }
+    return Math.max(blockedFor, Math.ceil(((1 - bucket.tokens) / requestsPerSecond) * 1000));
+  }
+
+  /**
+   * Wait until the provider has a token available, then take it
+   */
+  async acquire(providerId: string, signal?: AbortSignal): Promise<void> {
+    await this.waitForToken(providerId, signal);
+    this.take(providerId);
+  }
+
+  /**
+   * Wait until the provider has a token available without taking it - the
+   * batcher takes it when the HTTP request goes out
+   */
+  async waitForToken(providerId: string, signal?: AbortSignal): Promise<void> {
+    let wait = this.getWaitTime(providerId);
+    while (wait > 0) {
+      await sleep(wait, signal);
+      wait = this.getWaitTime(providerId);
+    }
+  }
+
+  /**
+   * Take a token for an HTTP request that is being sent
+   */
+  take(providerId: string): void {
+    if (providerManager.getProviderRateLimit(providerId).requestsPerSecond > 0) {
+      this.refill(providerId).tokens -= 1;
+    }
+  }
+
+  /**
+   * Block the provider after a 429 response
+   */
+  backOff(providerId: string, retryAfterMs: number = DEFAULT_RETRY_AFTER_MS): void {
+    const bucket = this.refill(providerId);
+    bucket.blockedUntil = Math.max(bucket.blockedUntil, Date.now() + retryAfterMs);
+    // The provider told us we were too fast - start again from an empty bucket
+    bucket.tokens = 0;
+  }
+
+  isBlocked(providerId: string): boolean {
+    return this.refill(providerId).blockedUntil > Date.now();
+  }
+
+  getStatus(providerId: string): RateLimitStatus {
+    const bucket = this.refill(providerId);
+    return {
+      tokens: Math.floor(bucket.tokens),
+      blockedUntil: bucket.blockedUntil > Date.now() ? bucket.blockedUntil : undefined,
+    };
+  }
+
+  private refill(providerId: string): Bucket {
+    const { requestsPerSecond, burst } = providerManager.getProviderRateLimit(providerId);
+    const now = Date.now();
+
+    let bucket = this.buckets.get(providerId);
+    if (!bucket) {
+      bucket = { tokens: burst, lastRefill: now, blockedUntil: 0 };
+      this.buckets.set(providerId, bucket);
+    }
+
+    const elapsed = (now - bucket.lastRefill) / 1000;
+    bucket.tokens = Math.min(burst, bucket.tokens + elapsed * requestsPerSecond);
+    bucket.lastRefill = now;
+    return bucket;
+  }
+}
+
+// Singleton instance
+export const rateLimiter = new RateLimiter();
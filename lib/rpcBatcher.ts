@@ -0,0 +1,254 @@
+/**
+ * JSON-RPC Batcher
+ *
+ * Collects RPC requests issued in the same tick for the same endpoint and
+ * sends them as a single JSON-RPC batch array through `rpcProxy.smartFetch`.
+ * Each response is routed back to the promise of the request with the same id.
+ *
+ * Some NEAR RPC providers (including plain nearcore nodes) reject batch
+ * arrays. When that happens the endpoint is remembered and every request in
+ * the failed batch - and all future ones - is sent individually instead.
+ */
+
+import { rpcProxy } from './rpcProxy';
+import { RpcErrorPayload, RpcHttpError, RpcRateLimitError } from './rpcErrors';
+import { parseRetryAfter, rateLimiter } from './rateLimiter';
+import { abortError } from './abortSignals';
+
+/**
+ * Typed error for a non-2xx response - HTTP 429 carries its Retry-After delay, other
+ * statuses the `error` text of a JSON body (e.g. the proxy refusing a target)
+ */
+export async function httpError(response: Response): Promise<RpcHttpError> {
+  if (response.status === 429) {
+    return new RpcRateLimitError(parseRetryAfter(response.headers.get('Retry-After')));
+  }
+  let detail: string | undefined;
+  try {
+    const body = await response.json();
+    detail = typeof body?.error === 'string' ? body.error : undefined;
+  } catch {
+    // Not JSON - the status line says it all
+  }
+  return new RpcHttpError(response.status, response.statusText, { detail });
+}
+
+// Statuses that reject this particular request rather than batch arrays as such
+const NOT_A_BATCH_REJECTION = new Set([401, 403, 429]);
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: number;
+  method: string;
+  params: any;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: number | string | null;
+  result?: any;
+  error?: RpcErrorPayload;
+}
+
+interface PendingRequest {
+  request: JsonRpcRequest;
+  signal?: AbortSignal;
+  headers: Record<string, string>;
+  providerId?: string; // Charged one rate limiter token per HTTP request
+  resolve: (response: JsonRpcResponse) => void;
+  reject: (error: unknown) => void;
+}
+
+class RpcBatcher {
+  // Keyed by endpoint and headers - requests with different API keys never share a batch
+  private queues: Map<string, PendingRequest[]> = new Map();
+  private unsupportedUrls: Set<string> = new Set();
+
+  // Upper bound on requests per batch - large arrays are split into several batches
+  private readonly MAX_BATCH_SIZE = 50;
+
+  /**
+   * Queue a request for the given endpoint. Resolves with the raw JSON-RPC
+   * response object (which may carry an `error`), rejects with an
+   * `RpcNetworkError` on transport failures (`RpcRateLimitError` on HTTP 429).
+   *
+   * Aborting `signal` rejects only this request; the shared HTTP request is
+   * cancelled once every request in its batch has been aborted.
+   *
+   * `providerId` is charged one rate limiter token for each HTTP request the
+   * call goes out in, so a batch costs one token however many calls it carries.
+   */
+  enqueue(
+    url: string,
+    request: JsonRpcRequest,
+    signal?: AbortSignal,
+    headers: Record<string, string> = {},
+    providerId?: string
+  ): Promise<JsonRpcResponse> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortError(signal));
+        return;
+      }
+
+      const key = `${url} ${JSON.stringify(headers)}`;
+      let queue = this.queues.get(key);
+      if (!queue) {
+        queue = [];
+        this.queues.set(key, queue);
+        // Flush on the next macrotask so every call made in this tick joins the batch
+        setTimeout(() => this.flush(key, url), 0);
+      }
+
+      const onAbort = () => reject(abortError(signal));
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      queue.push({
+        request,
+        signal,
+        headers,
+        providerId,
+        resolve: (response) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(response);
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      });
+    });
+  }
+
+  /**
+   * Whether the endpoint is known to accept batch requests
+   */
+  supportsBatching(url: string): boolean {
+    return !this.unsupportedUrls.has(url);
+  }
+
+  private flush(key: string, url: string): void {
+    // Requests aborted while queued have already been rejected
+    const queue = (this.queues.get(key) || []).filter(pending => !pending.signal?.aborted);
+    this.queues.delete(key);
+
+    if (queue.length === 0) return;
+
+    if (!this.supportsBatching(url)) {
+      queue.forEach(pending => this.sendSingle(url, pending));
+      return;
+    }
+
+    for (let i = 0; i < queue.length; i += this.MAX_BATCH_SIZE) {
+      const batch = queue.slice(i, i + this.MAX_BATCH_SIZE);
+      if (batch.length === 1) {
+        this.sendSingle(url, batch[0]);
+      } else {
+        this.sendBatch(url, batch);
+      }
+    }
+  }
+
+  private async sendSingle(url: string, pending: PendingRequest): Promise<void> {
+    this.chargeRateLimit([pending]);
+    try {
+      const response = await rpcProxy.smartFetch(url, JSON.stringify(pending.request), pending.signal, pending.headers);
+
+      if (!response.ok) {
+        throw await httpError(response);
+      }
+
+      pending.resolve(await response.json());
+    } catch (error) {
+      pending.reject(error);
+    }
+  }
+
+  private async sendBatch(url: string, batch: PendingRequest[]): Promise<void> {
+    let data: any;
+    const batchSignal = this.createBatchSignal(batch);
+    this.chargeRateLimit(batch);
+
+    try {
+      const response = await rpcProxy.smartFetch(
+        url,
+        JSON.stringify(batch.map(p => p.request)),
+        batchSignal,
+        batch[0].headers
+      );
+
+      // 4xx on a batch usually means the endpoint doesn't understand arrays
+      if (response.status >= 400 && response.status < 500 && !NOT_A_BATCH_REJECTION.has(response.status)) {
+        this.markUnsupported(url, `HTTP ${response.status}`);
+        batch.forEach(pending => this.sendSingle(url, pending));
+        return;
+      }
+
+      if (!response.ok) {
+        throw await httpError(response);
+      }
+
+      data = await response.json();
+    } catch (error) {
+      batch.forEach(pending => pending.reject(error));
+      return;
+    }
+
+    // A single error object instead of an array means batching was rejected
+    if (!Array.isArray(data)) {
+      this.markUnsupported(url, data?.error?.message || 'non-array response');
+      batch.forEach(pending => this.sendSingle(url, pending));
+      return;
+    }
+
+    const responsesById = new Map<number | string | null, JsonRpcResponse>();
+    data.forEach((item: JsonRpcResponse) => responsesById.set(item.id, item));
+
+    batch.forEach(pending => {
+      const item = responsesById.get(pending.request.id);
+      if (item) {
+        pending.resolve(item);
+      } else {
+        // Provider dropped this entry - retry it on its own
+        this.sendSingle(url, pending);
+      }
+    });
+  }
+
+  // Signal that aborts only when every request in the batch has been aborted
+  private createBatchSignal(batch: PendingRequest[]): AbortSignal | undefined {
+    if (batch.some(pending => !pending.signal)) {
+      return undefined;
+    }
+
+    const controller = new AbortController();
+    let aborted = 0;
+    batch.forEach(pending => {
+      pending.signal!.addEventListener('abort', () => {
+        aborted++;
+        if (aborted === batch.length) {
+          controller.abort();
+        }
+      }, { once: true });
+    });
+    return controller.signal;
+  }
+
+  // One token per provider in the HTTP request (requests with the same URL and headers
+  // may come from providers of different networks)
+  private chargeRateLimit(requests: PendingRequest[]): void {
+    new Set(requests.map(p => p.providerId)).forEach(providerId => {
+      if (providerId) rateLimiter.take(providerId);
+    });
+  }
+
+  private markUnsupported(url: string, reason: string): void {
+    if (!this.unsupportedUrls.has(url)) {
+      console.warn(`[RpcBatcher] ${url} rejected batch request (${reason}) - falling back to single requests`);
+      this.unsupportedUrls.add(url);
+    }
+  }
+}
+
+// Singleton instance
+export const rpcBatcher = new RpcBatcher();
@@ -0,0 +1,306 @@
+/**
+ * Typed NEAR RPC Errors
+ *
+ * NEAR RPC nodes return structured errors:
+ *
+ *   { code: -32000, message: 'Server error', name: 'HANDLER_ERROR',
+ *     cause: { name: 'UNKNOWN_BLOCK', info: {...} }, data: '...' }
+ *
+ * `createRpcError` maps `cause.name` onto one of the classes below so the
+ * failover client and pages can branch with `instanceof` instead of
+ * searching error messages.
+ *
+ * Two flags drive the failover client:
+ * - `retryable`: the same provider may succeed if asked again (transient)
+ * - `failover`: a different provider may succeed (provider-specific problem)
+ */
+
+export interface RpcErrorPayload {
+  code: number;
+  message: string;
+  data?: any;
+  name?: string;
+  cause?: {
+    name: string;
+    info?: any;
+  };
+}
+
+// Base class for errors returned by an RPC node as a JSON-RPC `error` object
+export class NearRpcError extends Error {
+  readonly code: number;
+  readonly type?: string;
+  readonly causeName?: string;
+  readonly info?: any;
+  readonly data?: any;
+  readonly retryable: boolean = false;
+  readonly failover: boolean = false;
+
+  constructor(payload: RpcErrorPayload) {
+    super(NearRpcError.describe(payload));
+    this.name = new.target.name;
+    this.code = payload.code;
+    this.type = payload.name;
+    this.causeName = payload.cause?.name;
+    this.info = payload.cause?.info;
+    this.data = payload.data;
+  }
+
+  private static describe(payload: RpcErrorPayload): string {
+    // `data` usually carries the human readable detail, `message` is often just "Server error"
+    const detail = typeof payload.data === 'string' && payload.data
+      ? payload.data
+      : payload.message || 'RPC error';
+    const cause = payload.cause?.name ? ` (${payload.cause.name})` : '';
+    return `${detail}${cause}`;
+  }
+}
+
+// Requested data does not exist (or is not known to this node)
+
+export class UnknownBlockError extends NearRpcError {}
+
+export class UnknownChunkError extends NearRpcError {}
+
+export class UnknownTransactionError extends NearRpcError {}
+
+export class UnknownReceiptError extends NearRpcError {}
+
+export class UnknownEpochError extends NearRpcError {}
+
+export class UnknownAccountError extends NearRpcError {}
+
+export class UnknownAccessKeyError extends NearRpcError {}
+
+export class NoContractCodeError extends NearRpcError {}
+
+// Data existed but was pruned - an archival node still has it
+export class GarbageCollectedBlockError extends NearRpcError {
+  readonly failover = true;
+}
+
+// Invalid input
+
+export class InvalidAccountError extends NearRpcError {}
+
+export class InvalidShardIdError extends NearRpcError {}
+
+export class InvalidTransactionError extends NearRpcError {}
+
+export class ParseError extends NearRpcError {}
+
+export class ContractExecutionError extends NearRpcError {}
+
+export class TooLargeContractStateError extends NearRpcError {}
+
+// The node is not able to serve the request right now
+
+export class NoSyncedBlocksError extends NearRpcError {
+  readonly failover = true;
+}
+
+export class NotSyncedYetError extends NearRpcError {
+  readonly failover = true;
+}
+
+export class UnavailableShardError extends NearRpcError {
+  readonly failover = true;
+}
+
+export class RpcTimeoutError extends NearRpcError {
+  readonly retryable = true;
+  readonly failover = true;
+}
+
+export class InternalRpcError extends NearRpcError {
+  readonly retryable = true;
+  readonly failover = true;
+}
+
+const ERROR_CLASSES: Record<string, new (payload: RpcErrorPayload) => NearRpcError> = {
+  UNKNOWN_BLOCK: UnknownBlockError,
+  UNKNOWN_CHUNK: UnknownChunkError,
+  UNKNOWN_TRANSACTION: UnknownTransactionError,
+  UNKNOWN_RECEIPT: UnknownReceiptError,
+  UNKNOWN_EPOCH: UnknownEpochError,
+  UNKNOWN_ACCOUNT: UnknownAccountError,
+  UNKNOWN_ACCESS_KEY: UnknownAccessKeyError,
+  NO_CONTRACT_CODE: NoContractCodeError,
+  GARBAGE_COLLECTED_BLOCK: GarbageCollectedBlockError,
+  INVALID_ACCOUNT: InvalidAccountError,
+  INVALID_SHARD_ID: InvalidShardIdError,
+  INVALID_TRANSACTION: InvalidTransactionError,
+  PARSE_ERROR: ParseError,
+  CONTRACT_EXECUTION_ERROR: ContractExecutionError,
+  TOO_LARGE_CONTRACT_STATE: TooLargeContractStateError,
+  NO_SYNCED_BLOCKS: NoSyncedBlocksError,
+  NOT_SYNCED_YET: NotSyncedYetError,
+  UNAVAILABLE_SHARD: UnavailableShardError,
+  TIMEOUT_ERROR: RpcTimeoutError,
+  INTERNAL_ERROR: InternalRpcError,
+};
+
+/**
+ * Build a typed error from a JSON-RPC error payload
+ */
+export function createRpcError(payload: RpcErrorPayload): NearRpcError {
+  const causeName = payload.cause?.name;
+  const ErrorClass = (causeName && ERROR_CLASSES[causeName])
+    || (payload.name === 'INTERNAL_ERROR' ? InternalRpcError : NearRpcError);
+  return new ErrorClass(payload);
+}
+
+// Transport-level failures (the provider could not be reached or did not answer properly)
+export class RpcNetworkError extends Error {
+  readonly retryable: boolean;
+  readonly failover: boolean;
+
+  constructor(message: string, options: { cause?: unknown; retryable?: boolean; failover?: boolean } = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.retryable = options.retryable ?? true;
+    this.failover = options.failover ?? this.retryable;
+    if (options.cause !== undefined) {
+      (this as any).cause = options.cause;
+    }
+  }
+}
+
+export class RpcHttpError extends RpcNetworkError {
+  readonly status: number;
+
+  constructor(
+    status: number,
+    statusText: string,
+    options?: { retryable?: boolean; failover?: boolean; detail?: string }
+  ) {
+    // Server-side and gateway failures are worth retrying, client errors are not. A rejected
+    // API key or a target the proxy refuses (401/403) is specific to this provider - fail over.
+    super(`HTTP ${status}: ${statusText}${options?.detail ? ` - ${options.detail}` : ''}`, {
+      retryable: status >= 500 || status === 408,
+      ...((status === 401 || status === 403) && { failover: true }),
+      ...options,
+    });
+    this.status = status;
+  }
+}
+
+// HTTP 429 - the provider is rate limiting us. Hitting it again right away makes
+// things worse, so it is not retried immediately; another provider may serve the call.
+export class RpcRateLimitError extends RpcHttpError {
+  // Delay requested by the Retry-After header, if the provider sent one
+  readonly retryAfterMs?: number;
+
+  constructor(retryAfterMs?: number) {
+    super(429, 'Too Many Requests', { retryable: false, failover: true });
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// The provider did not answer within the per-call timeout - treated like any other network failure
+export class RequestTimeoutError extends RpcNetworkError {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`);
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+// The provider answered, but the result does not have the shape the RPC method
+// promises (see lib/rpcSchemas.ts). Asking again won't help; another provider may answer properly.
+export class InvalidResponseError extends RpcNetworkError {
+  readonly method: string;
+  // Location of the offending value, e.g. `result.header.height`
+  readonly path: string;
+
+  constructor(method: string, path: string, expected: string, received: unknown) {
+    super(`Malformed ${method} response: expected ${expected} at ${path}, got ${describeValue(received)}`, {
+      retryable: false,
+      failover: true,
+    });
+    this.method = method;
+    this.path = path;
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+// Raised by the failover client itself
+
+export class NoProvidersError extends Error {
+  constructor() {
+    super('No RPC providers enabled. Please enable at least one provider in settings.');
+    this.name = 'NoProvidersError';
+  }
+}
+
+export class AllProvidersFailedError extends Error {
+  readonly lastError?: unknown;
+
+  constructor(lastError?: unknown) {
+    super('All RPC providers failed. Please check your network connection and provider settings.');
+    this.name = 'AllProvidersFailedError';
+    this.lastError = lastError;
+  }
+}
+
+// Every provider was skipped because its circuit breaker is open
+export class CircuitOpenError extends Error {
+  readonly providerId: string;
+
+  constructor(providerId: string) {
+    super(`Provider ${providerId} is temporarily skipped after repeated failures`);
+    this.name = 'CircuitOpenError';
+    this.providerId = providerId;
+  }
+}
+
+/**
+ * Normalize anything thrown during a request into a typed error.
+ * Fetch reports unreachable hosts and CORS failures as a bare TypeError.
+ */
+export function toRpcError(error: unknown): Error {
+  if (error instanceof NearRpcError || error instanceof RpcNetworkError) {
+    return error;
+  }
+  if (error instanceof TypeError) {
+    return new RpcNetworkError(error.message, { cause: error });
+  }
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+// Whether asking the same provider again may succeed
+export function isRetryableError(error: unknown): boolean {
+  return (error instanceof NearRpcError || error instanceof RpcNetworkError) && error.retryable;
+}
+
+// Whether a different provider may succeed
+export function shouldFailover(error: unknown): boolean {
+  return (error instanceof NearRpcError || error instanceof RpcNetworkError) && error.failover;
+}
+
+// "Not found" style errors that pages usually present as a missing resource
+export function isNotFoundError(error: unknown): boolean {
+  return (
+    error instanceof UnknownBlockError ||
+    error instanceof UnknownChunkError ||
+    error instanceof UnknownTransactionError ||
+    error instanceof UnknownReceiptError ||
+    error instanceof UnknownAccountError
+  );
+}
+
+// The node (or every node we tried) has not caught up with the chain
+export function isNotSyncedError(error: unknown): boolean {
+  return error instanceof NoSyncedBlocksError || error instanceof NotSyncedYetError;
+}
+
+// The request never got an HTTP answer: fetch itself failed (unreachable host, CORS rejection)
+export function isFetchFailure(error: unknown): boolean {
+  return error instanceof RpcNetworkError && (error as any).cause instanceof TypeError;
+}
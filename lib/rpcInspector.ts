@@ -0,0 +1,144 @@
+/**
+ * RPC Traffic Inspector
+ *
+ * Records every JSON-RPC request the failover client sends, with its response,
+ * from the 'request' / 'response' failover events. Each retry and failover is a
+ * separate request; requests of the same client call share a `callId`, so a
+ * request sent to another provider after one of the call failed is marked as a
+ * failover.
+ *
+ * Only the most recent requests are kept. Shown by the RPC inspector panel
+ * (components/RpcInspectorPanel.tsx).
+ */
+
+import { FailoverEvent, nearRpc } from './nearRpcFailover';
+import { isSecretHeader, providerManager } from './providerManager';
+
+const MAX_ENTRIES = 300;
+
+export type RpcTrafficStatus = 'pending' | 'success' | 'error' | 'aborted';
+
+export interface RpcTrafficEntry {
+  id: number; // JSON-RPC id
+  callId?: number;
+  method: string;
+  params: any;
+  providerId: string;
+  providerName: string;
+  url: string;
+  transport: 'proxy' | 'direct';
+  attempt: number; // 1 for the first try on this provider, 2+ for retries
+  failover: boolean; // Sent after another provider failed the same call
+  startedAt: number;
+  status: RpcTrafficStatus;
+  latencyMs?: number;
+  result?: any;
+  error?: string;
+}
+
+type TrafficListener = () => void;
+
+class RpcTrafficRecorder {
+  // Newest first; replaced (not mutated) on every change so it can be used as a React snapshot
+  private entries: RpcTrafficEntry[] = [];
+  private listeners: TrafficListener[] = [];
+  private recording = true;
+
+  constructor() {
+    nearRpc.onFailoverEvent(event => this.handleEvent(event));
+  }
+
+  getEntries(): RpcTrafficEntry[] {
+    return this.entries;
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  setRecording(recording: boolean): void {
+    this.recording = recording;
+    this.notifyListeners();
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.notifyListeners();
+  }
+
+  subscribe(listener: TrafficListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private handleEvent(event: FailoverEvent): void {
+    const { request } = event;
+    if (!request || !this.recording) return;
+
+    if (event.type === 'request') {
+      // Latest earlier request of the same call (hedged and verified calls also ask
+      // several providers, but in parallel - only a failed one means failover)
+      const previous = request.callId !== undefined
+        ? this.entries.find(entry => entry.callId === request.callId)
+        : undefined;
+      const providerId = event.providerId ?? '';
+      const entry: RpcTrafficEntry = {
+        id: request.id,
+        callId: request.callId,
+        method: request.method,
+        params: request.params,
+        providerId,
+        providerName: providerManager.getAllProviders().find(p => p.id === providerId)?.name ?? providerId,
+        url: event.providerUrl ?? '',
+        transport: request.transport,
+        attempt: event.attempt ?? 1,
+        failover: previous !== undefined && previous.status === 'error' && previous.providerId !== providerId,
+        startedAt: Date.now(),
+        status: 'pending',
+      };
+      this.entries = [entry, ...this.entries].slice(0, MAX_ENTRIES);
+      this.notifyListeners();
+      return;
+    }
+
+    if (event.type === 'response') {
+      const index = this.entries.findIndex(entry => entry.id === request.id);
+      if (index === -1) return;
+      const status: RpcTrafficStatus = event.aborted ? 'aborted' : event.error !== undefined ? 'error' : 'success';
+      const updated = { ...this.entries[index], status, latencyMs: event.responseTime, result: event.result, error: event.error };
+      this.entries = [...this.entries.slice(0, index), updated, ...this.entries.slice(index + 1)];
+      this.notifyListeners();
+    }
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('Error in RPC traffic listener:', error);
+      }
+    });
+  }
+}
+
+// Singleton instance
+export const rpcTraffic = new RpcTrafficRecorder();
+
+/**
+ * The request as a curl command (straight to the provider, not through the proxy).
+ * Provider headers are included; secret values are replaced by a `<NAME>` placeholder.
+ */
+export function toCurl(
+  entry: Pick<RpcTrafficEntry, 'id' | 'method' | 'params' | 'url'>,
+  headers: Record<string, string> = {}
+): string {
+  const body = JSON.stringify({ jsonrpc: '2.0', id: entry.id, method: entry.method, params: entry.params });
+  const quote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+  const headerArgs = Object.entries(headers).map(([name, value]) =>
+    ` -H ${quote(`${name}: ${isSecretHeader(name) ? `<${name.toUpperCase()}>` : value}`)}`
+  );
+  return `curl -s -X POST ${quote(entry.url)} -H 'Content-Type: application/json'${headerArgs.join('')} -d ${quote(body)}`;
+}
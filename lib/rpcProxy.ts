@@ -13,11 +13,73 @@
  * - Defaults to 3001 if not specified
  */
 
+import { RpcNetworkError } from './rpcErrors';
+
 // Get proxy port from Vite environment (build-time variable)
 // This is evaluated during build/dev start and injected as a string literal
 const PROXY_PORT = (import.meta as any).env?.VITE_PROXY_PORT || '3001';
 const PROXY_BASE_URL = `http://localhost:${PROXY_PORT}`;
 
+// Provider headers are sent to the proxy with this prefix, which proxy-server.js
+// strips before forwarding them to the RPC endpoint
+const FORWARDED_HEADER_PREFIX = 'X-Rpc-Header-';
+
+// Serves requests for a URL scheme in-process instead of over the network
+// (e.g. the replay transport, lib/rpcReplay.ts)
+export type VirtualTransport = (url: string, body: string, signal?: AbortSignal) => Promise<Response>;
+
+// Sees every request/response pair that went over the network
+export type ExchangeObserver = (url: string, body: string, response: Response) => void;
+
+export interface JsonRpcRequest {
+  id: string | number;
+  method: string;
+  params: any;
+}
+
+// The `result` or `error` member of a JSON-RPC response
+export interface JsonRpcReply {
+  result?: any;
+  error?: any;
+}
+
+/**
+ * Parse a JSON-RPC body - a single request or a batch array - into a list
+ */
+export function parseJsonRpcRequests(body: string): JsonRpcRequest[] {
+  try {
+    const parsed = JSON.parse(body);
+    return (Array.isArray(parsed) ? parsed : [parsed]).filter(
+      request => request && typeof request.method === 'string'
+    );
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Virtual transport answering each request of a body (batches included) with
+ * `handler`, as an HTTP 200 JSON-RPC response
+ */
+export function jsonRpcTransport(
+  handler: (request: JsonRpcRequest, signal?: AbortSignal) => JsonRpcReply | Promise<JsonRpcReply>
+): VirtualTransport {
+  return async (_url, body, signal) => {
+    const batch = body.trimStart().startsWith('[');
+    const replies = await Promise.all(
+      parseJsonRpcRequests(body).map(async request => ({
+        jsonrpc: '2.0',
+        id: request.id,
+        ...(await handler(request, signal)),
+      }))
+    );
+    return new Response(JSON.stringify(batch ? replies : replies[0]), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+}
+
 export interface ProxyConfig {
   enabled: boolean;
   proxyUrl: string; // URL of the proxy server (e.g., 'http://localhost:3001')
@@ -28,6 +90,26 @@ class RpcProxyClient {
     enabled: false,
     proxyUrl: PROXY_BASE_URL,
   };
+  private transports: Map<string, VirtualTransport> = new Map();
+  private observers: ExchangeObserver[] = [];
+
+  /**
+   * Serve URLs with this scheme (e.g. 'replay:') with a virtual transport
+   */
+  registerTransport(scheme: string, transport: VirtualTransport): void {
+    this.transports.set(scheme, transport);
+  }
+
+  /**
+   * Observe network responses. Called before the caller reads the body, so
+   * observers must read a `response.clone()`.
+   */
+  onExchange(observer: ExchangeObserver): () => void {
+    this.observers.push(observer);
+    return () => {
+      this.observers = this.observers.filter(o => o !== observer);
+    };
+  }
 
   /**
    * Configure the proxy
@@ -56,8 +138,9 @@ class RpcProxyClient {
    * @param targetUrl - The actual RPC endpoint URL
    * @param body - The JSON-RPC request body
    * @param signal - Optional AbortSignal for cancellation
+   * @param headers - Provider headers (API keys) for the RPC endpoint
    */
-  async fetch(targetUrl: string, body: string, signal?: AbortSignal): Promise<Response> {
+  async fetch(targetUrl: string, body: string, signal?: AbortSignal, headers: Record<string, string> = {}): Promise<Response> {
     if (!this.config.enabled) {
       throw new Error('Proxy is not enabled');
     }
@@ -71,6 +154,11 @@ class RpcProxyClient {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          // The proxy only forwards to endpoints on its allow list (see proxy-server.js)
+          'X-Target-URL': targetUrl,
+          ...Object.fromEntries(
+            Object.entries(headers).map(([name, value]) => [`${FORWARDED_HEADER_PREFIX}${name}`, value])
+          ),
         },
         body,
         signal,
@@ -89,7 +177,7 @@ class RpcProxyClient {
         if (error.name === 'AbortError') {
           throw error; // Re-throw abort errors as-is
         }
-        throw new Error(`Proxy request failed: ${error.message}`);
+        throw new RpcNetworkError(`Proxy request failed: ${error.message}`, { cause: error });
       }
       throw error;
     }
@@ -98,11 +186,12 @@ class RpcProxyClient {
   /**
    * Direct fetch without proxy (for local endpoints or when proxy is disabled)
    */
-  async directFetch(url: string, body: string, signal?: AbortSignal): Promise<Response> {
+  async directFetch(url: string, body: string, signal?: AbortSignal, headers: Record<string, string> = {}): Promise<Response> {
     return fetch(url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...headers,
       },
       body,
       signal,
@@ -110,21 +199,56 @@ class RpcProxyClient {
   }
 
   /**
-   * Smart fetch: automatically choose proxy or direct based on URL and config
+   * Smart fetch: automatically choose proxy or direct based on URL and config.
+   * `headers` (see providerManager.getRequestHeaders) are not passed to virtual
+   * transports or exchange observers.
    */
-  async smartFetch(url: string, body: string, signal?: AbortSignal): Promise<Response> {
-    // Always use direct fetch for localhost/local IPs
-    if (this.isLocalUrl(url)) {
-      return this.directFetch(url, body, signal);
+  async smartFetch(url: string, body: string, signal?: AbortSignal, headers: Record<string, string> = {}): Promise<Response> {
+    // Virtual providers never touch the network
+    const transport = this.getTransport(url);
+    if (transport) {
+      return transport(url, body, signal);
     }
 
-    // Use proxy if enabled for remote URLs
-    if (this.config.enabled) {
-      return this.fetch(url, body, signal);
+    let response: Response;
+    if (this.isLocalUrl(url)) {
+      // Always use direct fetch for localhost/local IPs
+      response = await this.directFetch(url, body, signal, headers);
+    } else if (this.config.enabled) {
+      // Use proxy if enabled for remote URLs
+      response = await this.fetch(url, body, signal, headers);
+    } else {
+      // Fall back to direct fetch
+      response = await this.directFetch(url, body, signal, headers);
     }
 
-    // Fall back to direct fetch
-    return this.directFetch(url, body, signal);
+    this.observers.forEach(observer => {
+      try {
+        observer(url, body, response);
+      } catch (error) {
+        console.error('Error in RPC exchange observer:', error);
+      }
+    });
+    return response;
+  }
+
+  /**
+   * Whether the URL is served by a virtual transport
+   */
+  isVirtualUrl(url: string): boolean {
+    return this.getTransport(url) !== undefined;
+  }
+
+  private getTransport(url: string): VirtualTransport | undefined {
+    const scheme = url.slice(0, url.indexOf(':') + 1).toLowerCase();
+    return scheme ? this.transports.get(scheme) : undefined;
+  }
+
+  /**
+   * Whether smartFetch sends requests for this URL through the proxy
+   */
+  usesProxy(url: string): boolean {
+    return this.config.enabled && !this.isLocalUrl(url) && !this.isVirtualUrl(url);
   }
 
   /**
@@ -0,0 +1,290 @@
+/**
+ * RPC Record & Replay
+ *
+ * The recorder captures every JSON-RPC request/response pair that goes over
+ * the network (through `rpcProxy.smartFetch`) into a fixture, which Settings
+ * exports as a JSON file.
+ *
+ * Importing a fixture adds a "Replay Fixture" provider (url `replay://fixture`)
+ * to providerManager. While it is enabled it is the only provider the client
+ * uses, and its requests are answered from the fixture without any network:
+ *
+ * - Requests match on method and params (object key order does not matter)
+ * - A request recorded several times gets the recorded responses in order,
+ *   then keeps getting the last one
+ * - Unmatched requests get a JSON-RPC error (NO_RECORDED_RESPONSE), which is
+ *   not retried or failed over
+ *
+ * Useful for offline demos, deterministic failover tests and sharing exact
+ * reproductions of explorer bugs.
+ */
+
+import { providerManager, NetworkType } from './providerManager';
+import { JsonRpcReply, JsonRpcRequest, jsonRpcTransport, parseJsonRpcRequests, rpcProxy } from './rpcProxy';
+import { throwIfAborted } from './abortSignals';
+
+export const FIXTURE_VERSION = 1;
+export const REPLAY_PROVIDER_URL = 'replay://fixture';
+const STORAGE_KEY_FIXTURE = 'near_rpc_replay_fixture';
+
+export type RpcFixtureResponse = JsonRpcReply;
+
+export interface RpcFixtureEntry {
+  method: string;
+  params: any;
+  responses: RpcFixtureResponse[];
+}
+
+export interface RpcFixture {
+  version: number;
+  createdAt: string;
+  network?: NetworkType;
+  entries: RpcFixtureEntry[];
+}
+
+// Raised for an imported file that is not a fixture
+export class RpcFixtureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RpcFixtureError';
+  }
+}
+
+type ReplayListener = () => void;
+
+// JSON with sorted object keys, so equal params always give the same key
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value).sort();
+    return `{${keys.map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function requestKey(method: string, params: any): string {
+  return `${method}|${canonicalJson(params ?? null)}`;
+}
+
+/**
+ * Check that imported data is a fixture this version understands
+ */
+export function parseFixture(data: unknown): RpcFixture {
+  const fixture = data as RpcFixture;
+  if (!fixture || typeof fixture !== 'object' || !Array.isArray(fixture.entries)) {
+    throw new RpcFixtureError('Not an RPC fixture (missing "entries")');
+  }
+  if (fixture.version !== FIXTURE_VERSION) {
+    throw new RpcFixtureError(`Unsupported fixture version ${fixture.version} (expected ${FIXTURE_VERSION})`);
+  }
+  fixture.entries.forEach((entry, index) => {
+    if (!entry || typeof entry.method !== 'string' || !Array.isArray(entry.responses) || entry.responses.length === 0) {
+      throw new RpcFixtureError(`Entry ${index} needs a method and at least one response`);
+    }
+  });
+  return fixture;
+}
+
+class RpcRecorder {
+  private recording = false;
+  private fixture: RpcFixture | null = null;
+  private index: Map<string, RpcFixtureEntry> = new Map();
+  private exchanges = 0;
+  private listeners: ReplayListener[] = [];
+
+  constructor() {
+    rpcProxy.onExchange((_url, body, response) => {
+      if (!this.recording || !response.ok) return;
+      // The caller reads the original body - parse a copy
+      response.clone().json().then(
+        data => this.record(parseJsonRpcRequests(body), data),
+        () => undefined
+      );
+    });
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  // Number of request/response pairs recorded
+  getCount(): number {
+    return this.exchanges;
+  }
+
+  start(): void {
+    if (!this.fixture) {
+      this.fixture = {
+        version: FIXTURE_VERSION,
+        createdAt: new Date().toISOString(),
+        network: providerManager.getSelectedNetwork(),
+        entries: [],
+      };
+    }
+    this.recording = true;
+    this.notifyListeners();
+  }
+
+  stop(): void {
+    this.recording = false;
+    this.notifyListeners();
+  }
+
+  clear(): void {
+    this.fixture = null;
+    this.index.clear();
+    this.exchanges = 0;
+    this.notifyListeners();
+  }
+
+  exportFixture(): RpcFixture {
+    return this.fixture
+      ? { ...this.fixture, entries: [...this.fixture.entries] }
+      : { version: FIXTURE_VERSION, createdAt: new Date().toISOString(), entries: [] };
+  }
+
+  subscribe(listener: ReplayListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private record(requests: JsonRpcRequest[], data: any): void {
+    if (!this.fixture) return;
+    // Batch responses can come back in any order - match them by id
+    const responses: any[] = Array.isArray(data) ? data : [data];
+    for (const request of requests) {
+      const response = responses.find(r => r && r.id === request.id);
+      if (!response) continue;
+
+      const key = requestKey(request.method, request.params);
+      let entry = this.index.get(key);
+      if (!entry) {
+        entry = { method: request.method, params: request.params, responses: [] };
+        this.index.set(key, entry);
+        this.fixture.entries.push(entry);
+      }
+      entry.responses.push(response.error !== undefined ? { error: response.error } : { result: response.result });
+      this.exchanges++;
+    }
+    this.notifyListeners();
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('Error in RPC recorder listener:', error);
+      }
+    });
+  }
+}
+
+class RpcReplayer {
+  private fixture: RpcFixture | null = null;
+  private index: Map<string, RpcFixtureEntry> = new Map();
+  // Next response to serve per request key
+  private cursors: Map<string, number> = new Map();
+  private listeners: ReplayListener[] = [];
+
+  constructor() {
+    try {
+      const json = localStorage.getItem(STORAGE_KEY_FIXTURE);
+      if (json) {
+        this.setFixture(parseFixture(JSON.parse(json)));
+      }
+    } catch (error) {
+      console.error('Failed to load replay fixture from storage:', error);
+    }
+    rpcProxy.registerTransport('replay:', jsonRpcTransport((request, signal) => {
+      throwIfAborted(signal);
+      return this.answer(request);
+    }));
+  }
+
+  getFixture(): RpcFixture | null {
+    return this.fixture;
+  }
+
+  /**
+   * Replay a fixture from now on, on its own network (or the current one)
+   */
+  loadFixture(fixture: RpcFixture): void {
+    this.setFixture(fixture);
+    try {
+      localStorage.setItem(STORAGE_KEY_FIXTURE, JSON.stringify(fixture));
+    } catch (error) {
+      // Too large for localStorage - it still replays until the page is reloaded
+      console.error('Failed to save replay fixture to storage:', error);
+    }
+    providerManager.setReplayProvider(REPLAY_PROVIDER_URL, fixture.network);
+    this.notifyListeners();
+  }
+
+  removeFixture(): void {
+    this.setFixture(null);
+    localStorage.removeItem(STORAGE_KEY_FIXTURE);
+    providerManager.setReplayProvider(null);
+    this.notifyListeners();
+  }
+
+  // Serve every request again from its first recorded response
+  rewind(): void {
+    this.cursors.clear();
+    this.notifyListeners();
+  }
+
+  subscribe(listener: ReplayListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private setFixture(fixture: RpcFixture | null): void {
+    this.fixture = fixture;
+    this.index = new Map(fixture?.entries.map(entry => [requestKey(entry.method, entry.params), entry]));
+    this.cursors.clear();
+  }
+
+  private answer(request: JsonRpcRequest): RpcFixtureResponse {
+    const key = requestKey(request.method, request.params);
+    const entry = this.index.get(key);
+    if (!entry) {
+      const detail = this.fixture
+        ? `No recorded response for ${request.method} ${canonicalJson(request.params ?? null)}`
+        : 'No replay fixture loaded';
+      return {
+        error: {
+          code: -32000,
+          message: 'Server error',
+          name: 'REQUEST_VALIDATION_ERROR',
+          cause: { name: 'NO_RECORDED_RESPONSE' },
+          data: detail,
+        },
+      };
+    }
+
+    const cursor = this.cursors.get(key) ?? 0;
+    this.cursors.set(key, Math.min(cursor + 1, entry.responses.length - 1));
+    return entry.responses[cursor];
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('Error in RPC replay listener:', error);
+      }
+    });
+  }
+}
+
+// Singleton instances
+export const rpcRecorder = new RpcRecorder();
+export const rpcReplay = new RpcReplayer();
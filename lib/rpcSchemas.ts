@@ -0,0 +1,329 @@
+/**
+ * Runtime validation of RPC results
+ *
+ * The failover client checks every successful result against the models in
+ * lib/nearRpcTypes.ts before handing it out. A malformed answer raises
+ * InvalidResponseError naming the method and the offending field, and the
+ * client fails over to another provider - components never see it.
+ *
+ * Schemas only check the fields the explorer relies on; unknown extra fields
+ * are allowed so newer nodes keep working.
+ */
+
+import { InvalidResponseError, createRpcError } from './rpcErrors';
+import { ActionKind, TX_EXECUTION_STATUSES } from './nearRpcTypes';
+
+// Throws SchemaMismatch when `value` does not match
+type Schema = (value: unknown, path: string) => void;
+
+class SchemaMismatch extends Error {
+  readonly path: string;
+  readonly expected: string;
+  readonly received: unknown;
+
+  constructor(path: string, expected: string, received: unknown) {
+    super(`expected ${expected} at ${path}`);
+    this.path = path;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+function primitive(expected: 'string' | 'number' | 'boolean'): Schema {
+  return (value, path) => {
+    if (typeof value !== expected) throw new SchemaMismatch(path, expected, value);
+  };
+}
+
+const string = primitive('string');
+const number = primitive('number');
+const boolean = primitive('boolean');
+
+function optional(schema: Schema): Schema {
+  return (value, path) => {
+    if (value !== undefined && value !== null) schema(value, path);
+  };
+}
+
+function literal(...allowed: string[]): Schema {
+  return (value, path) => {
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+      throw new SchemaMismatch(path, allowed.map(v => `'${v}'`).join(' | '), value);
+    }
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const anyObject: Schema = (value, path) => {
+  if (!isRecord(value)) throw new SchemaMismatch(path, 'object', value);
+};
+
+function object(fields: Record<string, Schema>): Schema {
+  return (value, path) => {
+    if (!isRecord(value)) throw new SchemaMismatch(path, 'object', value);
+    for (const [key, schema] of Object.entries(fields)) {
+      schema(value[key], `${path}.${key}`);
+    }
+  };
+}
+
+function arrayOf(item: Schema): Schema {
+  return (value, path) => {
+    if (!Array.isArray(value)) throw new SchemaMismatch(path, 'array', value);
+    value.forEach((element, index) => item(element, `${path}[${index}]`));
+  };
+}
+
+/**
+ * Externally tagged enum - `{ Variant: payload }`, or a bare string for
+ * variants without payload. An open union also accepts variants it does not
+ * know (with any payload), so enums newer nodes extend keep validating.
+ */
+function taggedUnion(variants: Partial<Record<string, Schema | null>>, { open = false } = {}): Schema {
+  const names = Object.keys(variants);
+  const known = (tag: string) => Object.prototype.hasOwnProperty.call(variants, tag);
+  return (value, path) => {
+    if (typeof value === 'string') {
+      if (variants[value] === null || (open && !known(value))) return;
+      throw new SchemaMismatch(path, `one of ${names.join(', ')}`, value);
+    }
+    if (!isRecord(value)) throw new SchemaMismatch(path, `one of ${names.join(', ')}`, value);
+
+    const [tag, ...rest] = Object.keys(value);
+    if (rest.length === 0 && tag !== undefined && open && !known(tag)) return;
+    const payload = tag !== undefined ? variants[tag] : undefined;
+    if (rest.length > 0 || !payload) {
+      throw new SchemaMismatch(path, `one of ${names.join(', ')}`, value);
+    }
+    payload(value[tag], `${path}.${tag}`);
+  };
+}
+
+// Models
+
+const validatorStake = object({ account_id: string, public_key: string, stake: string });
+
+const accessKeyPermission = taggedUnion({
+  FullAccess: null,
+  FunctionCall: object({ allowance: optional(string), receiver_id: string, method_names: arrayOf(string) }),
+});
+
+const accessKey = object({ nonce: number, permission: accessKeyPermission });
+
+// Typed by ActionKind so a new action in the model needs a schema here too. Actions the
+// model does not know yet (global contracts, state init, ...) pass unchecked.
+const nonDelegateActionVariants: Record<Exclude<ActionKind, 'Delegate'>, Schema | null> = {
+  CreateAccount: null,
+  DeployContract: object({ code: string }),
+  FunctionCall: object({ method_name: string, args: string, gas: number, deposit: string }),
+  Transfer: object({ deposit: string }),
+  Stake: object({ stake: string, public_key: string }),
+  AddKey: object({ public_key: string, access_key: accessKey }),
+  DeleteKey: object({ public_key: string }),
+  DeleteAccount: object({ beneficiary_id: string }),
+};
+
+const action = taggedUnion({
+  ...nonDelegateActionVariants,
+  Delegate: object({
+    delegate_action: object({
+      sender_id: string,
+      receiver_id: string,
+      actions: arrayOf(taggedUnion(nonDelegateActionVariants, { open: true })),
+      nonce: number,
+      max_block_height: number,
+      public_key: string,
+    }),
+    signature: string,
+  }),
+}, { open: true });
+
+const blockHeader = object({
+  height: number,
+  epoch_id: string,
+  next_epoch_id: string,
+  hash: string,
+  prev_hash: string,
+  timestamp: number,
+  timestamp_nanosec: string,
+  gas_price: string,
+  total_supply: string,
+  last_final_block: string,
+  last_ds_final_block: string,
+  chunks_included: number,
+  validator_proposals: arrayOf(validatorStake),
+});
+
+const chunkHeader = object({
+  chunk_hash: string,
+  prev_block_hash: string,
+  height_created: number,
+  height_included: number,
+  shard_id: number,
+  gas_used: number,
+  gas_limit: number,
+  balance_burnt: string,
+});
+
+const block = object({
+  author: string,
+  header: blockHeader,
+  chunks: arrayOf(chunkHeader),
+});
+
+const signedTransaction = object({
+  signer_id: string,
+  public_key: string,
+  nonce: number,
+  receiver_id: string,
+  actions: arrayOf(action),
+  signature: string,
+  hash: string,
+});
+
+const receipt = object({
+  predecessor_id: string,
+  receiver_id: string,
+  receipt_id: string,
+  receipt: taggedUnion({
+    Action: object({ signer_id: string, actions: arrayOf(action) }),
+    Data: object({ data_id: string }),
+    GlobalContractDistribution: anyObject,
+  }),
+});
+
+const chunk = object({
+  author: string,
+  header: chunkHeader,
+  transactions: arrayOf(signedTransaction),
+  receipts: arrayOf(receipt),
+});
+
+const merklePath = arrayOf(object({ hash: string, direction: literal('Left', 'Right') }));
+
+const executionOutcomeWithId = object({
+  proof: merklePath,
+  block_hash: string,
+  id: string,
+  outcome: object({
+    logs: arrayOf(string),
+    receipt_ids: arrayOf(string),
+    gas_burnt: number,
+    tokens_burnt: string,
+    executor_id: string,
+    status: taggedUnion({
+      Unknown: null,
+      Failure: anyObject,
+      SuccessValue: string,
+      SuccessReceiptId: string,
+    }),
+  }),
+});
+
+// Stages reported before the transaction has executed - the result has no outcome yet
+const PENDING_STATUSES = ['NONE', 'INCLUDED', 'INCLUDED_FINAL'];
+
+const executedTransaction = object({
+  final_execution_status: optional(literal(...TX_EXECUTION_STATUSES)),
+  status: taggedUnion({
+    NotStarted: null,
+    Started: null,
+    Failure: anyObject,
+    SuccessValue: string,
+  }),
+  transaction: signedTransaction,
+  transaction_outcome: executionOutcomeWithId,
+  receipts_outcome: arrayOf(executionOutcomeWithId),
+  receipts: optional(arrayOf(receipt)),
+});
+
+const txStatus: Schema = (value, path) => {
+  if (isRecord(value) && PENDING_STATUSES.includes(value.final_execution_status as string) && !('transaction' in value)) {
+    return;
+  }
+  executedTransaction(value, path);
+};
+
+const networkStatus = object({
+  chain_id: string,
+  sync_info: object({
+    latest_block_hash: string,
+    latest_block_height: number,
+    latest_block_time: string,
+    earliest_block_height: optional(number),
+    syncing: boolean,
+  }),
+  version: object({ version: string, build: string }),
+});
+
+const queryBase = { block_height: number, block_hash: string };
+
+const QUERY_SCHEMAS: Record<string, Schema> = {
+  view_account: object({ ...queryBase, amount: string, locked: string, code_hash: string, storage_usage: number }),
+  view_access_key: object({ ...queryBase, nonce: number, permission: accessKeyPermission }),
+  view_access_key_list: object({ ...queryBase, keys: arrayOf(object({ public_key: string, access_key: accessKey })) }),
+  view_state: object({ ...queryBase, values: arrayOf(object({ key: string, value: string })) }),
+  view_code: object({ ...queryBase, code_base64: string, hash: string }),
+  call_function: object({ ...queryBase, result: arrayOf(number), logs: arrayOf(string) }),
+};
+
+const METHOD_SCHEMAS: Record<string, Schema> = {
+  status: networkStatus,
+  block: block,
+  chunk: chunk,
+  tx: txStatus,
+  EXPERIMENTAL_tx_status: txStatus,
+  send_tx: txStatus,
+  gas_price: object({ gas_price: string }),
+  validators: object({
+    current_validators: arrayOf(object({ account_id: string, stake: string, is_slashed: boolean })),
+    next_validators: arrayOf(validatorStake),
+    epoch_start_height: number,
+  }),
+  EXPERIMENTAL_protocol_config: object({ protocol_version: number, chain_id: string, epoch_length: number }),
+  EXPERIMENTAL_genesis_config: object({ protocol_version: number, chain_id: string, genesis_height: number }),
+  EXPERIMENTAL_receipt: receipt,
+  network_info: object({ active_peers: arrayOf(object({ id: string })), num_active_peers: number }),
+  light_client_proof: object({
+    outcome_proof: executionOutcomeWithId,
+    outcome_root_proof: merklePath,
+    block_header_lite: object({ prev_block_hash: string, inner_rest_hash: string }),
+    block_proof: merklePath,
+  }),
+};
+
+/**
+ * Check the result of a successful RPC call. Throws InvalidResponseError when it
+ * does not match the method's model; methods without a schema are not checked.
+ */
+export function validateRpcResult(method: string, params: any, result: unknown): void {
+  let schema = METHOD_SCHEMAS[method];
+
+  if (method === 'query') {
+    // Older nodes report contract and lookup failures as a result with an `error`
+    // string instead of a JSON-RPC error - surface them as the RPC error they are
+    if (isRecord(result) && typeof result.error === 'string') {
+      throw createRpcError({
+        code: -32000,
+        message: result.error,
+        data: result.error,
+        ...(params?.request_type === 'call_function' && { cause: { name: 'CONTRACT_EXECUTION_ERROR' } }),
+      });
+    }
+    schema = QUERY_SCHEMAS[params?.request_type];
+  }
+
+  if (!schema) return;
+
+  try {
+    schema(result, 'result');
+  } catch (error) {
+    if (error instanceof SchemaMismatch) {
+      throw new InvalidResponseError(method, error.path, error.expected, error.received);
+    }
+    throw error;
+  }
+}
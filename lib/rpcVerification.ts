@@ -0,0 +1,108 @@
+/**
+ * Cross-provider Verification
+ *
+ * In verify mode the failover client sends immutable reads (block by height,
+ * chunk by hash, EXPERIMENTAL_tx_status) to several providers and compares the
+ * answers. Reports are kept per "subject" (e.g. `block:123`, `tx:<hash>`) so
+ * pages can warn when providers disagreed and name the odd one out.
+ */
+
+export interface ProviderAnswer {
+  providerId: string;
+  providerName: string;
+  // Identity of the answer (block hash, chunk hash, or canonical JSON); undefined if the call failed
+  fingerprint?: string;
+  error?: string;
+}
+
+export interface VerificationReport {
+  subject: string;
+  method: string;
+  checkedAt: number;
+  answers: ProviderAnswer[];
+  // Fingerprint the majority agreed on (the one returned to the caller)
+  acceptedFingerprint: string;
+  // Providers whose answer differed from the accepted one
+  disagreeingProviderIds: string[];
+}
+
+type VerificationListener = (report: VerificationReport) => void;
+
+// Subjects identifying an immutable read - keys for verification reports and archival labels
+export const readSubjects = {
+  block: (blockId: number | string) => `block:${blockId}`,
+  chunk: (chunkHash: string) => `chunk:${chunkHash}`,
+  transaction: (txHash: string) => `tx:${txHash}`,
+};
+
+// Keep the report map from growing without bound on long sessions
+const MAX_REPORTS = 500;
+
+// JSON with sorted object keys, so equal values always serialize the same way
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value).sort();
+    return `{${keys.map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Reduce an RPC result to a string that is equal across honest providers.
+ * Blocks and chunks are compared by hash; transaction status by deep equality
+ * of the execution outcome (ignoring how far each node has progressed).
+ */
+export function fingerprintResult(method: string, result: any): string {
+  switch (method) {
+    case 'block':
+      return result?.header?.hash ?? canonicalJson(result);
+    case 'chunk':
+      return result?.header?.chunk_hash ?? canonicalJson(result);
+    case 'EXPERIMENTAL_tx_status': {
+      const { final_execution_status: _progress, ...outcome } = result || {};
+      return canonicalJson(outcome);
+    }
+    default:
+      return canonicalJson(result);
+  }
+}
+
+class VerificationStore {
+  private reports: Map<string, VerificationReport> = new Map();
+  private listeners: VerificationListener[] = [];
+
+  record(report: VerificationReport): void {
+    this.reports.delete(report.subject);
+    this.reports.set(report.subject, report);
+    if (this.reports.size > MAX_REPORTS) {
+      // Maps iterate in insertion order - drop the oldest report
+      const oldest = this.reports.keys().next().value;
+      if (oldest !== undefined) this.reports.delete(oldest);
+    }
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(report);
+      } catch (error) {
+        console.error('Error in verification listener:', error);
+      }
+    });
+  }
+
+  getReport(subject: string): VerificationReport | undefined {
+    return this.reports.get(subject);
+  }
+
+  subscribe(listener: VerificationListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+}
+
+// Singleton instance
+export const verificationReports = new VerificationStore();
@@ -0,0 +1,300 @@
+/**
+ * Signed Transaction Decoding
+ *
+ * Decodes a base64 Borsh-serialized `SignedTransaction` (as produced by
+ * near-api-js, near-cli or a test script) into the same shape the RPC returns
+ * for a transaction, so it can be reviewed before it is broadcast.
+ *
+ * The transaction hash is the sha256 of the serialized transaction (without
+ * the signature), base58-encoded - the hash the transaction will be known by
+ * once it is sent.
+ */
+
+import type { AccessKey, AccessKeyPermission, Action, NonDelegateAction, SignedTransactionView } from './nearRpcTypes';
+
+export interface DecodedSignedTransaction extends SignedTransactionView {
+  // Base58 hash of the block the transaction was signed against
+  block_hash: string;
+}
+
+// Raised for input that is not a valid SignedTransaction
+export class TransactionDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransactionDecodeError';
+  }
+}
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+export function base58Encode(bytes: Uint8Array): string {
+  const digits: number[] = [];
+  for (const byte of bytes) {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] << 8;
+      digits[i] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+  // Leading zero bytes are written as '1'
+  let leadingZeros = 0;
+  while (leadingZeros < bytes.length && bytes[leadingZeros] === 0) leadingZeros++;
+  return '1'.repeat(leadingZeros) + digits.reverse().map(digit => BASE58_ALPHABET[digit]).join('');
+}
+
+// Null for strings with characters outside the base58 alphabet
+export function base58Decode(text: string): Uint8Array | null {
+  const bytes: number[] = [];
+  for (const char of text) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry === -1) return null;
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+  // Leading '1's are zero bytes
+  let leadingZeros = 0;
+  while (leadingZeros < text.length && text[leadingZeros] === '1') leadingZeros++;
+  return Uint8Array.from([...new Array(leadingZeros).fill(0), ...bytes.reverse()]);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  let binary: string;
+  try {
+    binary = atob(base64.replace(/\s+/g, ''));
+  } catch {
+    throw new TransactionDecodeError('Input is not valid base64');
+  }
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+}
+
+// Key types of near-crypto
+const KEY_TYPES: Record<number, { name: string; publicKeyLength: number; signatureLength: number }> = {
+  0: { name: 'ed25519', publicKeyLength: 32, signatureLength: 64 },
+  1: { name: 'secp256k1', publicKeyLength: 64, signatureLength: 65 },
+};
+
+class BorshReader {
+  private offset = 0;
+  private readonly view: DataView;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get position(): number {
+    return this.offset;
+  }
+
+  get remaining(): number {
+    return this.bytes.length - this.offset;
+  }
+
+  private need(length: number, what: string): void {
+    if (this.remaining < length) {
+      throw new TransactionDecodeError(`Unexpected end of data reading ${what} at byte ${this.offset}`);
+    }
+  }
+
+  u8(what = 'u8'): number {
+    this.need(1, what);
+    return this.bytes[this.offset++];
+  }
+
+  u32(what = 'u32'): number {
+    this.need(4, what);
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  u64(what = 'u64'): bigint {
+    this.need(8, what);
+    const value = this.view.getBigUint64(this.offset, true);
+    this.offset += 8;
+    return value;
+  }
+
+  u128(what = 'u128'): bigint {
+    const low = this.u64(what);
+    const high = this.u64(what);
+    return (high << 64n) | low;
+  }
+
+  fixed(length: number, what: string): Uint8Array {
+    this.need(length, what);
+    const value = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  bytesVec(what: string): Uint8Array {
+    return this.fixed(this.u32(`${what} length`), what);
+  }
+
+  string(what: string): string {
+    try {
+      return new TextDecoder('utf-8', { fatal: true }).decode(this.bytesVec(what));
+    } catch (error) {
+      if (error instanceof TransactionDecodeError) throw error;
+      throw new TransactionDecodeError(`${what} is not valid UTF-8`);
+    }
+  }
+
+  vec<T>(readItem: () => T, what: string): T[] {
+    const length = this.u32(`${what} length`);
+    // Every item takes at least one byte - reject lengths the data cannot hold
+    this.need(length, what);
+    return Array.from({ length }, readItem);
+  }
+
+  option<T>(readValue: () => T, what: string): T | null {
+    const tag = this.u8(what);
+    if (tag === 0) return null;
+    if (tag === 1) return readValue();
+    throw new TransactionDecodeError(`Invalid option tag ${tag} for ${what}`);
+  }
+
+  publicKey(what = 'public key'): string {
+    const keyType = KEY_TYPES[this.u8(`${what} type`)];
+    if (!keyType) throw new TransactionDecodeError(`Unknown key type in ${what}`);
+    return `${keyType.name}:${base58Encode(this.fixed(keyType.publicKeyLength, what))}`;
+  }
+
+  signature(what = 'signature'): string {
+    const keyType = KEY_TYPES[this.u8(`${what} type`)];
+    if (!keyType) throw new TransactionDecodeError(`Unknown key type in ${what}`);
+    return `${keyType.name}:${base58Encode(this.fixed(keyType.signatureLength, what))}`;
+  }
+}
+
+// u64 fields the RPC reports as JSON numbers (gas, nonces, block heights)
+function toNumber(value: bigint, what: string): number {
+  if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new TransactionDecodeError(`${what} ${value} is too large`);
+  }
+  return Number(value);
+}
+
+function readAccessKey(reader: BorshReader): AccessKey {
+  const nonce = toNumber(reader.u64('access key nonce'), 'Access key nonce');
+  const tag = reader.u8('access key permission');
+  let permission: AccessKeyPermission;
+  if (tag === 0) {
+    permission = {
+      FunctionCall: {
+        allowance: reader.option(() => reader.u128('allowance').toString(), 'allowance'),
+        receiver_id: reader.string('permission receiver'),
+        method_names: reader.vec(() => reader.string('method name'), 'method names'),
+      },
+    };
+  } else if (tag === 1) {
+    permission = 'FullAccess';
+  } else {
+    throw new TransactionDecodeError(`Unknown access key permission ${tag}`);
+  }
+  return { nonce, permission };
+}
+
+// Action enum variants in declaration order (nearcore `Action`)
+function readAction(reader: BorshReader, allowDelegate: boolean): Action {
+  const tag = reader.u8('action type');
+  switch (tag) {
+    case 0:
+      return 'CreateAccount';
+    case 1:
+      return { DeployContract: { code: bytesToBase64(reader.bytesVec('contract code')) } };
+    case 2:
+      return {
+        FunctionCall: {
+          method_name: reader.string('method name'),
+          args: bytesToBase64(reader.bytesVec('arguments')),
+          gas: toNumber(reader.u64('gas'), 'Gas'),
+          deposit: reader.u128('deposit').toString(),
+        },
+      };
+    case 3:
+      return { Transfer: { deposit: reader.u128('deposit').toString() } };
+    case 4:
+      return { Stake: { stake: reader.u128('stake').toString(), public_key: reader.publicKey() } };
+    case 5:
+      return { AddKey: { public_key: reader.publicKey(), access_key: readAccessKey(reader) } };
+    case 6:
+      return { DeleteKey: { public_key: reader.publicKey() } };
+    case 7:
+      return { DeleteAccount: { beneficiary_id: reader.string('beneficiary') } };
+    case 8: {
+      if (!allowDelegate) throw new TransactionDecodeError('Delegate actions cannot be nested');
+      const delegate_action = {
+        sender_id: reader.string('delegate sender'),
+        receiver_id: reader.string('delegate receiver'),
+        actions: reader.vec(() => readAction(reader, false) as NonDelegateAction, 'delegate actions'),
+        nonce: toNumber(reader.u64('delegate nonce'), 'Delegate nonce'),
+        max_block_height: toNumber(reader.u64('max block height'), 'Max block height'),
+        public_key: reader.publicKey('delegate public key'),
+      };
+      return { Delegate: { delegate_action, signature: reader.signature('delegate signature') } };
+    }
+    default:
+      throw new TransactionDecodeError(`Unsupported action type ${tag}`);
+  }
+}
+
+/**
+ * Decode a base64 SignedTransaction. Throws TransactionDecodeError if the input
+ * is not one (or uses actions this explorer does not know).
+ */
+export async function decodeSignedTransaction(base64: string): Promise<DecodedSignedTransaction> {
+  const bytes = base64ToBytes(base64);
+  const reader = new BorshReader(bytes);
+
+  // TransactionV1 starts with the tag 1; V0 has no tag and starts with the signer
+  // id length, which is never 1 (account ids have at least 2 characters)
+  const isV1 = bytes[0] === 1;
+  if (isV1) reader.u8();
+
+  const signer_id = reader.string('signer id');
+  const public_key = reader.publicKey();
+  const nonce = toNumber(reader.u64('nonce'), 'Nonce');
+  const receiver_id = reader.string('receiver id');
+  const block_hash = base58Encode(reader.fixed(32, 'block hash'));
+  const actions = reader.vec(() => readAction(reader, true), 'actions');
+  const priority_fee = isV1 ? toNumber(reader.u64('priority fee'), 'Priority fee') : undefined;
+
+  const transactionBytes = bytes.slice(0, reader.position);
+  const signature = reader.signature();
+  if (reader.remaining > 0) {
+    throw new TransactionDecodeError(`${reader.remaining} unexpected bytes after the signature`);
+  }
+
+  const digest = await crypto.subtle.digest('SHA-256', transactionBytes);
+
+  return {
+    signer_id,
+    public_key,
+    nonce,
+    receiver_id,
+    block_hash,
+    actions,
+    ...(priority_fee !== undefined && { priority_fee }),
+    signature,
+    hash: base58Encode(new Uint8Array(digest)),
+  };
+}
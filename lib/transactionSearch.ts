@@ -0,0 +1,175 @@
+/**
+ * Transaction Hash Search
+ *
+ * Without the signer account the RPC cannot look a transaction up by hash, so
+ * the explorer scans recent blocks for it. Blocks are scanned newest first by a
+ * small pool of workers; every chunk of a block is requested at once and the
+ * search stops as soon as any chunk contains the transaction, cancelling the
+ * requests still in flight. Progress is reported after every block.
+ */
+
+import type { RpcCallOptions } from './nearRpcFailover';
+import type { Block, Chunk, Transaction } from './nearRpcTypes';
+import { isAbortError, linkSignal, throwIfAborted } from './abortSignals';
+
+export const DEFAULT_SEARCH_WINDOW = 1000; // ~10 min of blocks at 600ms/block
+export const DEFAULT_SEARCH_CONCURRENCY = 4;
+
+export interface TransactionSearchProgress {
+  scannedBlocks: number;
+  totalBlocks: number;
+  // Height of the block that was just scanned
+  currentHeight: number;
+  // Window being searched (newest first, from `fromHeight` down to `toHeight`)
+  fromHeight: number;
+  toHeight: number;
+  elapsedMs: number;
+  // Undefined until the first block has been scanned
+  estimatedRemainingMs?: number;
+}
+
+export interface TransactionSearchOptions {
+  // How many recent blocks to scan (default 1000)
+  windowBlocks?: number;
+  // Blocks fetched at the same time (default 4)
+  concurrency?: number;
+  onProgress?: (progress: TransactionSearchProgress) => void;
+}
+
+// The client methods the search needs (implemented by NearRpcFailoverClient)
+export interface BlockSource {
+  getLatestBlock(options?: RpcCallOptions): Promise<Block>;
+  getBlock(blockId: number | string, options?: RpcCallOptions): Promise<Block>;
+  getChunk(chunkId: string, options?: RpcCallOptions): Promise<Chunk>;
+}
+
+/**
+ * Scan the last `windowBlocks` blocks for a transaction. Resolves with the
+ * transaction (including the block it was included in) or null if it is not in
+ * the window. Blocks that fail to load are skipped; aborting `options.signal`
+ * stops the search and rejects with the abort error.
+ */
+export async function searchTransactionInBlocks(
+  source: BlockSource,
+  txHash: string,
+  options: RpcCallOptions = {},
+  search: TransactionSearchOptions = {}
+): Promise<Transaction | null> {
+  const {
+    windowBlocks = DEFAULT_SEARCH_WINDOW,
+    concurrency = DEFAULT_SEARCH_CONCURRENCY,
+    onProgress,
+  } = search;
+  throwIfAborted(options.signal);
+
+  const latestBlock = await source.getLatestBlock(options);
+  const fromHeight = latestBlock.header.height;
+  const toHeight = Math.max(0, fromHeight - Math.max(1, windowBlocks) + 1);
+  const totalBlocks = fromHeight - toHeight + 1;
+  const startedAt = Date.now();
+
+  // Aborted once the transaction is found so the remaining requests are dropped
+  const scan = linkSignal(options.signal);
+  const scanOptions = { ...options, signal: scan.signal };
+
+  let nextHeight = fromHeight;
+  let scannedBlocks = 0;
+  let found: Transaction | null = null;
+
+  const reportProgress = (currentHeight: number) => {
+    scannedBlocks++;
+    const elapsedMs = Date.now() - startedAt;
+    onProgress?.({
+      scannedBlocks,
+      totalBlocks,
+      currentHeight,
+      fromHeight,
+      toHeight,
+      elapsedMs,
+      estimatedRemainingMs: Math.round((elapsedMs / scannedBlocks) * (totalBlocks - scannedBlocks)),
+    });
+  };
+
+  const worker = async () => {
+    while (!found && nextHeight >= toHeight) {
+      const height = nextHeight--;
+      try {
+        // The latest block is already loaded
+        const block = height === fromHeight ? latestBlock : await source.getBlock(height, scanOptions);
+        const match = await findInBlock(source, block, txHash, scanOptions);
+        if (match && !found) {
+          found = match;
+          scan.abort();
+        }
+      } catch (error) {
+        if (found) return;
+        if (isAbortError(error)) throw error;
+        // Skipped heights and blocks that fail to load are passed over
+      }
+      reportProgress(height);
+    }
+  };
+
+  try {
+    const workers = Array.from({ length: Math.min(concurrency, totalBlocks) }, () => worker());
+    await Promise.all(workers);
+    return found;
+  } finally {
+    scan.cleanup();
+  }
+}
+
+/**
+ * Request every chunk of the block at once and resolve as soon as one of them
+ * contains the transaction (without waiting for the others)
+ */
+function findInBlock(
+  source: BlockSource,
+  block: Block,
+  txHash: string,
+  options: RpcCallOptions
+): Promise<Transaction | null> {
+  // A chunk header that was not produced at this height is a repeat of an older
+  // chunk - its transactions were counted in the block that included it
+  const newChunks = block.chunks.filter(chunk => chunk.height_included === block.header.height);
+  if (newChunks.length === 0) return Promise.resolve(null);
+
+  return new Promise((resolve, reject) => {
+    let pending = newChunks.length;
+    let settled = false;
+
+    newChunks.forEach(chunkHeader => {
+      source.getChunk(chunkHeader.chunk_hash, options).then(
+        (chunk) => {
+          const tx = chunk.transactions.find(candidate => candidate.hash === txHash);
+          if (tx && !settled) {
+            settled = true;
+            resolve({
+              hash: tx.hash,
+              signer_id: tx.signer_id,
+              receiver_id: tx.receiver_id,
+              actions: tx.actions,
+              block_height: block.header.height,
+              block_hash: block.header.hash,
+              timestamp: block.header.timestamp,
+              timestamp_nanosec: block.header.timestamp_nanosec,
+            });
+          }
+        },
+        (error) => {
+          if (isAbortError(error) && !settled) {
+            settled = true;
+            reject(error);
+          }
+          // Other chunk failures are skipped like the old sequential scan did
+        }
+      ).finally(() => {
+        pending--;
+        if (pending === 0 && !settled) {
+          settled = true;
+          resolve(null);
+        }
+      });
+    });
+  });
+}
@@ -10,8 +10,12 @@ import BlockDetail from "@/pages/BlockDetail";
 import TransactionList from "@/pages/TransactionList";
 import TransactionDetail from "@/pages/TransactionDetail";
 import Settings from "@/pages/Settings";
+import BroadcastTransaction from "@/pages/BroadcastTransaction";
+import RpcInspectorPanel from "@/components/RpcInspectorPanel";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { useEffect, useState } from "react";
+import { providerManager } from "@/lib/providerManager";
+import { toast } from "@/lib/toast";
 
 /**
  * Query Client Configuration
@@ -54,6 +58,7 @@ function Router() {
       <Route path={"/block/:id"} component={BlockDetail} />
       <Route path={"/transactions"} component={TransactionList} />
       <Route path={"/tx/:hash"} component={TransactionDetail} />
+      <Route path={"/broadcast"} component={BroadcastTransaction} />
       <Route path={"/settings"} component={Settings} />
       <Route path={"/404"} component={NotFound} />
       {/* Final fallback route */}
@@ -88,6 +93,27 @@ function App() {
     setQueryClient(client);
   }, []);
 
+  // Providers can be disabled by background checks on any page (e.g. serving the wrong chain)
+  useEffect(
+    () =>
+      providerManager.onProviderDisabled((provider, reason) => {
+        toast.error(`Disabled ${provider.name}: ${reason}`, { duration: 8000 });
+      }),
+    []
+  );
+
+  // Cached blocks and transactions belong to one chain - drop them when the network is switched
+  useEffect(() => {
+    if (!queryClient) return;
+    let network = providerManager.getSelectedNetwork();
+    return providerManager.subscribe(() => {
+      if (providerManager.getSelectedNetwork() !== network) {
+        network = providerManager.getSelectedNetwork();
+        queryClient.clear();
+      }
+    });
+  }, [queryClient]);
+
   if (!queryClient) {
     return null; // Wait for QueryClient to initialize
   }
@@ -102,6 +128,8 @@ function App() {
           <TooltipProvider>
             <Toaster />
             <Router />
+            {/* Outside the router so it stays open while navigating */}
+            <RpcInspectorPanel />
           </TooltipProvider>
         </ThemeProvider>
       </QueryClientProvider>
@@ -1,30 +1,73 @@
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import Layout from "@/components/Layout";
+import VerificationBanner from "@/components/VerificationBanner";
 import { Block, nearRpc } from "@/lib/nearRpcFailover";
+import {
+  AllProvidersFailedError,
+  GarbageCollectedBlockError,
+  UnknownBlockError,
+  isNotSyncedError,
+} from "@/lib/rpcErrors";
+import { readSubjects } from "@/lib/rpcVerification";
 import { useEffect, useState } from "react";
 import { Link, useParams, useLocation } from "wouter";
 
+// Turn a typed RPC error into a page-specific explanation
+function describeBlockError(err: unknown): { title: string; detail: string } {
+  if (err instanceof UnknownBlockError) {
+    return {
+      title: 'Block not found',
+      detail: 'This block does not exist on the selected network, or has not been produced yet.',
+    };
+  }
+  if (err instanceof GarbageCollectedBlockError) {
+    return {
+      title: 'Block data has been pruned',
+      detail: 'The provider no longer stores this block. Enable an archival RPC provider to view old blocks.',
+    };
+  }
+  if (isNotSyncedError(err)) {
+    return {
+      title: 'Node not synced',
+      detail: 'The RPC node has not caught up with the chain yet. Try again later or switch providers.',
+    };
+  }
+  if (err instanceof AllProvidersFailedError) {
+    return {
+      title: 'RPC unavailable',
+      detail: err.message,
+    };
+  }
+  return {
+    title: 'Failed to fetch block',
+    detail: err instanceof Error ? err.message : String(err),
+  };
+}
+
 export default function BlockDetail() {
   const params = useParams<{ id: string }>();
   const [, setLocation] = useLocation();
   const [block, setBlock] = useState<Block | null>(null);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
 
   useEffect(() => {
+    const controller = new AbortController();
+
     const fetchBlock = async () => {
       try {
         setLoading(true);
         setError(null);
         const blockId = params.id;
         const fetchedBlock = isNaN(Number(blockId))
-          ? await nearRpc.getBlock(blockId)
-          : await nearRpc.getBlock(Number(blockId));
+          ? await nearRpc.getBlock(blockId, { signal: controller.signal })
+          : await nearRpc.getBlock(Number(blockId), { signal: controller.signal, verify: true });
         setBlock(fetchedBlock);
         setLoading(false);
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to fetch block');
+        if (controller.signal.aborted) return;
+        setError(err);
         setLoading(false);
       }
     };
@@ -32,6 +75,8 @@ export default function BlockDetail() {
     if (params.id) {
       fetchBlock();
     }
+
+    return () => controller.abort();
   }, [params.id]);
 
   if (loading) {
@@ -43,11 +88,15 @@ export default function BlockDetail() {
   }
 
   if (error || !block) {
+    const { title, detail } = error
+      ? describeBlockError(error)
+      : { title: 'Block not found', detail: '' };
     return (
       <div className="flex flex-col items-center justify-center min-h-screen gap-4">
-        <div className="text-lg text-destructive">
-          Error: {error || 'Block not found'}
-        </div>
+        <div className="text-lg text-destructive">{title}</div>
+        {detail && (
+          <div className="text-sm text-muted-foreground max-w-lg text-center">{detail}</div>
+        )}
         <Link href="/blocks">
           <Button className="bg-near-green hover:bg-near-cyan text-white">Back to Blocks</Button>
         </Link>
@@ -55,6 +104,9 @@ export default function BlockDetail() {
     );
   }
 
+  // Set by the client when an archival provider answered
+  const archivalSource = nearRpc.getArchivalSource(readSubjects.block(params.id!));
+
   return (
     <Layout>
       <div className="space-y-4">
@@ -63,8 +115,18 @@ export default function BlockDetail() {
           <Button variant="outline" className="border-border hover:border-near-green hover:text-near-green">← Back</Button>
         </Link>
         <h1 className="text-3xl font-bold text-near-green">Block #{block.header.height}</h1>
+        {archivalSource && (
+          <span
+            className="text-xs px-2 py-1 rounded font-medium bg-near-purple/20 text-near-purple"
+            title="This block was served by an archival RPC provider"
+          >
+            Archival data · {archivalSource.providerName}
+          </span>
+        )}
       </div>
 
+      <VerificationBanner subject={readSubjects.block(block.header.height)} />
+
       <div className="grid gap-4">
         <Card className="border-border bg-card">
           <CardHeader>
@@ -5,7 +5,7 @@ import BlockInspector from "@/components/BlockInspector";
 import TransactionInspector from "@/components/TransactionInspector";
 import { Block, Transaction } from "@/lib/nearRpcFailover";
 import { useState } from "react";
-import { useLatestBlock, useRecentBlocks, useBlockTransactionCounts } from "@/lib/nearQueries";
+import { useLatestBlock, useRecentBlocks, useBlockTransactionCounts, useFinalBlockHeight, useFinality } from "@/lib/nearQueries";
 import { nearRpc } from "@/lib/nearRpcFailover";
 
 // Extended Block type with transaction count
@@ -21,6 +21,9 @@ export default function BlockList() {
 
   // Data fetching with query hooks - automatic caching, deduplication, background refetch
   const { data: latestBlock, error: latestError, isLoading: latestLoading } = useLatestBlock(3000);
+  // With optimistic or near-final reads the newest blocks may not be final yet
+  const finality = useFinality();
+  const finalHeight = useFinalBlockHeight(3000);
 
   // Get last 20 blocks
   const {
@@ -85,7 +88,7 @@ export default function BlockList() {
             <div>
               <h2 className="text-2xl font-bold text-near-green">Latest Blocks</h2>
               <p className="text-sm text-muted-foreground">
-                Latest block height: <span className="text-near-cyan font-mono">{latestHeight}</span> •{" "}
+                Latest {finality} block height: <span className="text-near-cyan font-mono">{latestHeight}</span> •{" "}
                 <span className="text-near-green">{totalTxCount}</span> transactions
                 {blocksFetching && <span className="text-xs text-muted-foreground ml-2">(auto-refreshing...)</span>}
               </p>
@@ -121,7 +124,26 @@ export default function BlockList() {
                 <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                   <div>
                     <div className="text-sm text-muted-foreground">Height</div>
-                    <div className="font-mono font-semibold text-near-green">{block.header.height}</div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono font-semibold text-near-green">{block.header.height}</span>
+                      {finalHeight !== undefined && (
+                        block.header.height <= finalHeight ? (
+                          <span
+                            className="text-xs px-2 py-0.5 rounded font-medium bg-near-green/10 text-near-green"
+                            title="This block is final and can no longer change"
+                          >
+                            Final
+                          </span>
+                        ) : (
+                          <span
+                            className="text-xs px-2 py-0.5 rounded font-medium bg-yellow-500/10 text-yellow-600"
+                            title={`Not final yet - the latest final block is #${finalHeight}`}
+                          >
+                            Not final
+                          </span>
+                        )
+                      )}
+                    </div>
                   </div>
                   <div className="md:col-span-2">
                     <div className="text-sm text-muted-foreground">Hash</div>
@@ -0,0 +1,204 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import Layout from "@/components/Layout";
+import NearAmount from "@/components/NearAmount";
+import { nearRpc } from "@/lib/nearRpcFailover";
+import { providerManager } from "@/lib/providerManager";
+import { DecodedSignedTransaction, decodeSignedTransaction } from "@/lib/signedTransaction";
+import { Action, TX_EXECUTION_STATUSES, TxExecutionStatus, getActionKind, isKnownAction } from "@/lib/nearRpcTypes";
+import { NearRpcError, RequestTimeoutError, RpcTimeoutError } from "@/lib/rpcErrors";
+import { formatGas } from "@/lib/nearUnits";
+import { ReactNode, useEffect, useState } from "react";
+import { Link, useLocation } from "wouter";
+
+const WAIT_UNTIL_LABELS: Record<TxExecutionStatus, string> = {
+  NONE: "NONE - return once the node accepted it",
+  INCLUDED: "INCLUDED - in a block",
+  EXECUTED_OPTIMISTIC: "EXECUTED_OPTIMISTIC - executed (default)",
+  INCLUDED_FINAL: "INCLUDED_FINAL - in a final block",
+  EXECUTED: "EXECUTED - executed, included in a final block",
+  FINAL: "FINAL - everything final",
+};
+
+// Short summary of an action's parameters
+function describeAction(action: Action): ReactNode {
+  if (typeof action === "string" || !isKnownAction(action)) return null;
+  if ("Transfer" in action) return <NearAmount yocto={action.Transfer.deposit} />;
+  if ("FunctionCall" in action) {
+    const { method_name, gas, deposit } = action.FunctionCall;
+    return (
+      <>
+        {method_name}() · {formatGas(gas)}
+        {deposit !== "0" && <> · <NearAmount yocto={deposit} /></>}
+      </>
+    );
+  }
+  if ("Stake" in action) return <NearAmount yocto={action.Stake.stake} />;
+  if ("AddKey" in action) return action.AddKey.public_key;
+  if ("DeleteKey" in action) return action.DeleteKey.public_key;
+  if ("DeleteAccount" in action) return `beneficiary ${action.DeleteAccount.beneficiary_id}`;
+  if ("Delegate" in action) {
+    const { actions, sender_id } = action.Delegate.delegate_action;
+    return `${actions.length} action(s) for ${sender_id}`;
+  }
+  return null;
+}
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="flex items-start justify-between gap-4 border-b border-border pb-3">
+      <div className="text-sm font-semibold text-muted-foreground">{label}:</div>
+      <div className="font-mono text-sm text-foreground break-all text-right">{children}</div>
+    </div>
+  );
+}
+
+/**
+ * Submit a base64 signed transaction (e.g. from a test or script) with send_tx.
+ * The transaction is decoded and shown before it is sent.
+ */
+export default function BroadcastTransaction() {
+  const [, navigate] = useLocation();
+  const [input, setInput] = useState("");
+  const [decoded, setDecoded] = useState<DecodedSignedTransaction | null>(null);
+  const [decodeError, setDecodeError] = useState<string | null>(null);
+  const [waitUntil, setWaitUntil] = useState<TxExecutionStatus>("EXECUTED_OPTIMISTIC");
+  const [sending, setSending] = useState(false);
+  const [sendError, setSendError] = useState<unknown>(null);
+
+  useEffect(() => {
+    setDecoded(null);
+    setDecodeError(null);
+    setSendError(null);
+    if (!input.trim()) return;
+
+    let cancelled = false;
+    decodeSignedTransaction(input.trim()).then(
+      (tx) => !cancelled && setDecoded(tx),
+      (err) => !cancelled && setDecodeError(err instanceof Error ? err.message : String(err))
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [input]);
+
+  const handleBroadcast = async () => {
+    if (!decoded) return;
+    setSending(true);
+    setSendError(null);
+    try {
+      // Give the node time to reach the later stages before the request times out
+      await nearRpc.sendTransaction(input.trim(), waitUntil, { timeoutMs: 60000 });
+      navigate(`/tx/${decoded.hash}?sender=${encodeURIComponent(decoded.signer_id)}`);
+    } catch (err) {
+      setSendError(err);
+      setSending(false);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <h2 className="text-2xl font-bold text-near-cyan">Broadcast Transaction</h2>
+
+        <Card className="border-border bg-card">
+          <CardHeader>
+            <CardTitle className="text-lg">Signed Transaction</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <textarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="Base64-encoded SignedTransaction (Borsh)"
+              rows={6}
+              spellCheck={false}
+              className="w-full rounded-md border border-border bg-background p-3 font-mono text-xs text-foreground"
+            />
+            {decodeError && <div className="text-sm text-destructive">Could not decode: {decodeError}</div>}
+          </CardContent>
+        </Card>
+
+        {decoded && (
+          <Card className="border-border bg-card">
+            <CardHeader>
+              <CardTitle className="text-lg">Review</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Field label="Transaction Hash">{decoded.hash}</Field>
+              <Field label="Signer">{decoded.signer_id}</Field>
+              <Field label="Receiver">{decoded.receiver_id}</Field>
+              <Field label="Nonce">{decoded.nonce}</Field>
+              <Field label="Public Key">{decoded.public_key}</Field>
+              <Field label="Block Hash">{decoded.block_hash}</Field>
+              {decoded.priority_fee !== undefined && <Field label="Priority Fee">{decoded.priority_fee}</Field>}
+
+              <div>
+                <div className="text-sm font-semibold text-muted-foreground mb-2">
+                  Actions ({decoded.actions.length}):
+                </div>
+                <ol className="space-y-2">
+                  {decoded.actions.map((action, idx) => {
+                    const details = describeAction(action);
+                    return (
+                      <li key={idx} className="bg-muted/50 p-3 rounded-lg border border-border text-sm">
+                        <span className="font-semibold text-foreground">{getActionKind(action)}</span>
+                        {details && <span className="ml-2 font-mono text-near-cyan">{details}</span>}
+                      </li>
+                    );
+                  })}
+                </ol>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-3 pt-3">
+                <label className="inline-flex items-center gap-2 text-sm text-muted-foreground">
+                  Wait until
+                  <select
+                    value={waitUntil}
+                    onChange={(e) => setWaitUntil(e.target.value as TxExecutionStatus)}
+                    className="h-9 rounded-md border border-border bg-background px-2 text-sm text-foreground"
+                  >
+                    {TX_EXECUTION_STATUSES.map((status) => (
+                      <option key={status} value={status}>
+                        {WAIT_UNTIL_LABELS[status]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <Button
+                  onClick={handleBroadcast}
+                  disabled={sending}
+                  className="bg-near-green hover:bg-near-cyan text-white"
+                >
+                  {sending ? "Sending..." : `Broadcast to ${providerManager.getSelectedNetwork()}`}
+                </Button>
+              </div>
+
+              {sendError !== null && (
+                <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-sm space-y-2">
+                  <div className="text-destructive font-medium">
+                    {sendError instanceof Error ? sendError.message : String(sendError)}
+                  </div>
+                  {sendError instanceof NearRpcError && sendError.causeName && (
+                    <div className="text-xs text-muted-foreground font-mono">RPC error: {sendError.causeName}</div>
+                  )}
+                  {/* The request is never re-sent automatically - it may have arrived anyway */}
+                  {(sendError instanceof RequestTimeoutError ||
+                    sendError instanceof RpcTimeoutError ||
+                    !(sendError instanceof NearRpcError)) && (
+                    <div className="text-muted-foreground">
+                      The transaction may still have reached the node.{" "}
+                      <Link href={`/tx/${decoded.hash}?sender=${encodeURIComponent(decoded.signer_id)}`}>
+                        <span className="text-near-green cursor-pointer hover:underline">Check its status</span>
+                      </Link>{" "}
+                      before broadcasting it again.
+                    </div>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -3,6 +3,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { nearRpc, NetworkStatus } from "@/lib/nearRpcFailover";
 import { providerManager } from "@/lib/providerManager";
+import { AllProvidersFailedError, isFetchFailure, isNotSyncedError } from "@/lib/rpcErrors";
 import { useEffect, useState } from "react";
 import { Link, useLocation } from "wouter";
 import { useRecentBlocks, useBlockTransactionCounts } from "@/lib/nearQueries";
@@ -34,15 +35,19 @@ export default function Home() {
   useEffect(() => {
     const fetchStatus = async () => {
       try {
-        const networkStatus = await nearRpc.getStatus();
+        const networkStatus = await nearRpc.getStatus({ hedge: true });
         setStatus(networkStatus);
         setLoading(false);
       } catch (err) {
         let errorMessage = err instanceof Error ? err.message : 'Failed to connect to RPC';
         
-        // Check for CORS error
-        if (errorMessage.includes('fetch') || errorMessage.includes('Failed to fetch')) {
+        // Only a failed fetch (unreachable host, CORS rejection) may be a CORS problem - show other failures as they are
+        if (err instanceof AllProvidersFailedError && isFetchFailure(err.lastError)) {
           errorMessage = 'CORS Error: Cannot connect to RPC endpoint. This may happen when connecting to external RPCs from the browser. Try using a CORS proxy or run the explorer from the same origin.';
+        } else if (err instanceof AllProvidersFailedError && err.lastError instanceof Error) {
+          errorMessage = `${err.message} Last error: ${err.lastError.message}`;
+        } else if (isNotSyncedError(err)) {
+          errorMessage = 'The RPC node is still syncing with the network. Try again later or switch providers.';
         }
         
         setError(errorMessage);
@@ -129,8 +134,8 @@ export default function Home() {
           <div className="text-center space-y-6 py-8">
             <div className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-near-green/10 border border-near-green/20">
               <div className="w-2 h-2 bg-near-green rounded-full animate-pulse"></div>
-              <span className="text-sm font-medium text-near-green capitalize">
-                {currentNetwork} Network
+              <span className="text-sm font-medium text-near-green">
+                {providerManager.getNetwork(currentNetwork)?.name ?? currentNetwork}
               </span>
             </div>
             
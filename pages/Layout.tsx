@@ -83,36 +83,24 @@ export default function Layout({ children }: { children: React.ReactNode }) {
               onClick={() => setShowNetworkMenu(!showNetworkMenu)}
               className="flex items-center gap-2"
             >
-              <span className="text-sm font-medium capitalize">{selectedNetwork}</span>
+              <span className="text-sm font-medium">{providerManager.getNetwork(selectedNetwork)?.name ?? selectedNetwork}</span>
               <span className="text-xs">▼</span>
             </Button>
 
             {showNetworkMenu && (
-              <div className="absolute right-0 mt-2 w-40 bg-white border border-slate-200 rounded-lg shadow-lg z-10">
-                <button
-                  onClick={() => handleNetworkChange('mainnet')}
-                  className={`w-full text-left px-4 py-2 hover:bg-slate-100 transition-colors ${
-                    selectedNetwork === 'mainnet' ? 'bg-blue-50 font-semibold text-blue-900' : ''
-                  }`}
-                >
-                  Mainnet
-                </button>
-                <button
-                  onClick={() => handleNetworkChange('testnet')}
-                  className={`w-full text-left px-4 py-2 hover:bg-slate-100 transition-colors border-t border-slate-200 ${
-                    selectedNetwork === 'testnet' ? 'bg-blue-50 font-semibold text-blue-900' : ''
-                  }`}
-                >
-                  Testnet
-                </button>
-                <button
-                  onClick={() => handleNetworkChange('localnet')}
-                  className={`w-full text-left px-4 py-2 hover:bg-slate-100 transition-colors border-t border-slate-200 ${
-                    selectedNetwork === 'localnet' ? 'bg-blue-50 font-semibold text-blue-900' : ''
-                  }`}
-                >
-                  Localnet
-                </button>
+              <div className="absolute right-0 mt-2 w-48 bg-white border border-slate-200 rounded-lg shadow-lg z-10">
+                {providerManager.getNetworks().map((network, index) => (
+                  <button
+                    key={network.id}
+                    onClick={() => handleNetworkChange(network.id)}
+                    className={`w-full flex items-center gap-2 text-left px-4 py-2 hover:bg-slate-100 transition-colors ${
+                      index > 0 ? 'border-t border-slate-200' : ''
+                    } ${selectedNetwork === network.id ? 'bg-blue-50 font-semibold text-blue-900' : ''}`}
+                  >
+                    <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: network.color }} />
+                    {network.name}
+                  </button>
+                ))}
               </div>
             )}
           </div>
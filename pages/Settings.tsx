@@ -1,22 +1,68 @@
 import { useState, useEffect } from 'react';
-import { providerManager, RpcProvider, ProviderHealth, NetworkType } from '@/lib/providerManager';
+import { providerManager, RpcProvider, ProviderHealth, NetworkDefinition, NetworkType, SelectionPolicyId, RateLimitConfig } from '@/lib/providerManager';
 import { nearRpc } from '@/lib/nearRpcFailover';
+import { rpcProxy } from '@/lib/rpcProxy';
+import { SELECTION_POLICIES } from '@/lib/providerSelection';
+import { circuitBreakers } from '@/lib/circuitBreaker';
+import { rateLimiter } from '@/lib/rateLimiter';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import Layout from '@/components/Layout';
+import ProviderHeadersEditor from '@/components/ProviderHeadersEditor';
+import ProviderRateLimitEditor from '@/components/ProviderRateLimitEditor';
+import NetworkEditor from '@/components/NetworkEditor';
+import HealthSparkline from '@/components/HealthSparkline';
+import { healthMonitor } from '@/lib/healthMonitor';
 import { toast } from '@/lib/toast';
 import { useQueryClient } from '@tanstack/react-query';
-import { nearKeys } from '@/lib/nearQueries';
+import { nearKeys, useNetworks } from '@/lib/nearQueries';
+import { RpcFixture, parseFixture, rpcRecorder, rpcReplay } from '@/lib/rpcReplay';
+import { ProviderConfigChange, ProviderConfigDocument, diffProviderConfig, parseProviderConfig } from '@/lib/providerConfig';
+
+const CHANGE_STYLES: Record<ProviderConfigChange['type'], string> = {
+  added: 'text-near-green',
+  removed: 'text-red-500',
+  changed: 'text-near-cyan',
+};
+
+// Save a value as a JSON file
+function downloadJson(filename: string, value: unknown) {
+  const blob = new Blob([JSON.stringify(value, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
 
 export default function Settings() {
   const [providers, setProviders] = useState<RpcProvider[]>([]);
   const [network, setNetwork] = useState<NetworkType>('localnet');
+  const networks = useNetworks();
+  const selectedNetworkName = networks.find(n => n.id === network)?.name ?? network;
+  const [selectionPolicy, setSelectionPolicy] = useState<SelectionPolicyId>('priority');
   const [customName, setCustomName] = useState('');
   const [customUrl, setCustomUrl] = useState('');
   const [customNetwork, setCustomNetwork] = useState<NetworkType>('localnet');
   const [testingProvider, setTestingProvider] = useState<string | null>(null);
+  const [editingHeadersId, setEditingHeadersId] = useState<string | null>(null);
+  const [editingRateLimitId, setEditingRateLimitId] = useState<string | null>(null);
   const [healthStatus, setHealthStatus] = useState<Map<string, ProviderHealth>>(new Map());
+  const [breakerConfig, setBreakerConfig] = useState(providerManager.getCircuitBreakerConfig());
+  const [rateLimitConfig, setRateLimitConfig] = useState(providerManager.getRateLimitConfig());
+  const [hedgingConfig, setHedgingConfig] = useState(providerManager.getHedgingConfig());
+  const [hedgeStats, setHedgeStats] = useState(nearRpc.getHedgeStats());
+  const [verificationConfig, setVerificationConfig] = useState(providerManager.getVerificationConfig());
+  const [healthMonitorConfig, setHealthMonitorConfig] = useState(providerManager.getHealthMonitorConfig());
+  const [checkingHealth, setCheckingHealth] = useState(false);
+  const [, setHealthVersion] = useState(0);
+  const [, setCircuitVersion] = useState(0);
+  const [recording, setRecording] = useState(rpcRecorder.isRecording());
+  const [recordedCount, setRecordedCount] = useState(rpcRecorder.getCount());
+  const [replayFixture, setReplayFixture] = useState<RpcFixture | null>(rpcReplay.getFixture());
+  const [pendingConfig, setPendingConfig] = useState<{ config: ProviderConfigDocument; changes: ProviderConfigChange[] } | null>(null);
 
   // Cache management
   const queryClient = useQueryClient();
@@ -65,6 +111,12 @@ export default function Settings() {
     const currentNetwork = providerManager.getSelectedNetwork();
     setNetwork(currentNetwork);
     setCustomNetwork(currentNetwork);
+    setSelectionPolicy(providerManager.getSelectionPolicy(currentNetwork));
+    setBreakerConfig(providerManager.getCircuitBreakerConfig());
+    setRateLimitConfig(providerManager.getRateLimitConfig());
+    setHedgingConfig(providerManager.getHedgingConfig());
+    setVerificationConfig(providerManager.getVerificationConfig());
+    setHealthMonitorConfig(providerManager.getHealthMonitorConfig());
     setProviders(providerManager.getAllProviders());
   };
 
@@ -76,14 +128,146 @@ export default function Settings() {
       loadProviders();
     });
     
-    return unsubscribe;
+    // Re-render when a provider's circuit breaker changes state
+    const unsubscribeFailover = nearRpc.onFailoverEvent((event) => {
+      if (event.type === 'circuit-state' || event.type === 'rate-limited') {
+        setCircuitVersion(v => v + 1);
+      } else if (event.type === 'hedge') {
+        setHedgeStats(nearRpc.getHedgeStats());
+      }
+    });
+    
+    const unsubscribeRecorder = rpcRecorder.subscribe(() => {
+      setRecording(rpcRecorder.isRecording());
+      setRecordedCount(rpcRecorder.getCount());
+    });
+    const unsubscribeReplay = rpcReplay.subscribe(() => setReplayFixture(rpcReplay.getFixture()));
+    const unsubscribeHealth = healthMonitor.subscribe(() => setHealthVersion(v => v + 1));
+    
+    return () => {
+      unsubscribe();
+      unsubscribeFailover();
+      unsubscribeRecorder();
+      unsubscribeReplay();
+      unsubscribeHealth();
+    };
   }, []);
 
   // Handle network change
   const handleNetworkChange = (newNetwork: NetworkType) => {
     providerManager.setSelectedNetwork(newNetwork);
     loadProviders();
-    toast.info(`Switched to ${newNetwork} network`);
+    toast.info(`Switched to ${providerManager.getNetwork(newNetwork)?.name ?? newNetwork}`);
+  };
+
+  // Network registry
+  const handleAddNetwork = (definition: Omit<NetworkDefinition, 'id' | 'builtIn'>) => {
+    const added = providerManager.addNetwork(definition);
+    toast.success(`Added network ${added.name} (${added.id})`);
+  };
+
+  const handleUpdateNetwork = (id: NetworkType, changes: Omit<NetworkDefinition, 'id' | 'builtIn'>) => {
+    providerManager.updateNetwork(id, changes);
+    toast.success(`Saved network ${changes.name}`);
+  };
+
+  const handleRemoveNetwork = (definition: NetworkDefinition) => {
+    if (!confirm(`Delete network ${definition.name} and all of its providers?`)) return;
+    providerManager.removeNetwork(definition.id);
+    toast.info(`Deleted network ${definition.name}`);
+  };
+
+  // Handle selection policy change
+  const handleSelectionPolicyChange = (policy: SelectionPolicyId) => {
+    providerManager.setSelectionPolicy(policy, network);
+    loadProviders();
+    toast.info(`${SELECTION_POLICIES[policy].name} provider selection for ${selectedNetworkName}`);
+  };
+
+  // Handle circuit breaker threshold change
+  const handleBreakerConfigChange = (field: 'failureThreshold' | 'cooldownSeconds', value: string) => {
+    const parsed = parseInt(value, 10);
+    if (isNaN(parsed)) return;
+    
+    providerManager.setCircuitBreakerConfig(
+      field === 'failureThreshold' ? { failureThreshold: parsed } : { cooldownMs: parsed * 1000 }
+    );
+    loadProviders();
+  };
+
+  // Handle rate limit change
+  const handleRateLimitChange = (field: 'requestsPerSecond' | 'burst', value: string) => {
+    const parsed = parseFloat(value);
+    if (isNaN(parsed)) return;
+    
+    providerManager.setRateLimitConfig({ [field]: parsed });
+    loadProviders();
+  };
+
+  // Handle hedging change
+  const handleHedgingToggle = () => {
+    providerManager.setHedgingConfig({ enabled: !hedgingConfig.enabled });
+    loadProviders();
+  };
+
+  const handleHedgingDelayChange = (value: string) => {
+    const parsed = parseInt(value, 10);
+    if (isNaN(parsed)) return;
+    
+    providerManager.setHedgingConfig({ delayMs: parsed });
+    loadProviders();
+  };
+
+  // Handle verification change
+  const handleVerificationToggle = () => {
+    providerManager.setVerificationConfig({ enabled: !verificationConfig.enabled });
+    loadProviders();
+  };
+
+  const handleQuorumChange = (value: string) => {
+    const parsed = parseInt(value, 10);
+    if (isNaN(parsed)) return;
+    
+    providerManager.setVerificationConfig({ quorum: parsed });
+    loadProviders();
+  };
+
+  // Handle health monitor change
+  const handleHealthMonitorToggle = () => {
+    providerManager.setHealthMonitorConfig({ enabled: !healthMonitorConfig.enabled });
+    loadProviders();
+  };
+
+  const handleHealthIntervalChange = (value: string) => {
+    const parsed = parseInt(value, 10);
+    if (isNaN(parsed)) return;
+    
+    providerManager.setHealthMonitorConfig({ intervalMs: parsed * 1000 });
+    loadProviders();
+  };
+
+  const handleCheckHealthNow = async () => {
+    setCheckingHealth(true);
+    try {
+      await healthMonitor.checkNow();
+    } finally {
+      setCheckingHealth(false);
+    }
+  };
+
+  // Handle archival setting change ('auto' = detect from status / genesis height)
+  const handleArchivalChange = async (id: string, value: string) => {
+    providerManager.setProviderArchival(id, value === 'auto' ? undefined : value === 'archival');
+    loadProviders();
+    if (value === 'auto') {
+      const detected = await providerManager.detectArchival(id);
+      loadProviders();
+      if (detected !== undefined) {
+        toast.info(detected ? 'Provider keeps full history (archival)' : 'Provider is a regular (non-archival) node');
+      } else {
+        toast.error('Could not detect whether the provider is archival');
+      }
+    }
   };
 
   // Handle toggle provider
@@ -96,14 +280,76 @@ export default function Settings() {
   const handleSelectAll = () => {
     providerManager.enableAllInNetwork();
     loadProviders();
-    toast.success(`Enabled all ${network} providers`);
+    toast.success(`Enabled all ${selectedNetworkName} providers`);
   };
 
   // Handle deselect all
   const handleDeselectAll = () => {
     providerManager.disableAllInNetwork();
     loadProviders();
-    toast.success(`Disabled all ${network} providers`);
+    toast.success(`Disabled all ${selectedNetworkName} providers`);
+  };
+
+  // Handle record toggle
+  const handleRecordingToggle = () => {
+    if (recording) {
+      rpcRecorder.stop();
+    } else {
+      rpcRecorder.start();
+      toast.info('Recording RPC traffic');
+    }
+  };
+
+  // Download the recorded traffic as a fixture file
+  const handleExportFixture = () => {
+    const fixture = rpcRecorder.exportFixture();
+    downloadJson(`rpc-fixture-${fixture.network ?? network}-${fixture.createdAt.replace(/[:.]/g, '-')}.json`, fixture);
+  };
+
+  // Replay a fixture file
+  const handleImportFixture = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const fixture = parseFixture(JSON.parse(await file.text()));
+      rpcReplay.loadFixture(fixture);
+      queryClient.clear();
+      loadProviders();
+      toast.success(`Replaying ${fixture.entries.length} recorded requests on ${fixture.network ?? network}`);
+    } catch (error) {
+      toast.error(`Could not import fixture: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleRemoveFixture = () => {
+    rpcReplay.removeFixture();
+    queryClient.clear();
+    loadProviders();
+    toast.success('Replay stopped - using the network again');
+  };
+
+  // Download the provider configuration
+  const handleExportConfig = () => {
+    downloadJson(`near-providers-${new Date().toISOString().slice(0, 10)}.json`, providerManager.exportConfig());
+  };
+
+  // Read a configuration file and show what importing it would change
+  const handleConfigFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const config = parseProviderConfig(JSON.parse(await file.text()));
+      setPendingConfig({ config, changes: diffProviderConfig(providerManager.exportConfig(), config) });
+    } catch (error) {
+      toast.error(`Could not import configuration: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleApplyConfig = (mode: 'merge' | 'replace') => {
+    if (!pendingConfig) return;
+    providerManager.importConfig(pendingConfig.config, mode);
+    setPendingConfig(null);
+    queryClient.clear();
+    loadProviders();
+    toast.success(mode === 'merge' ? 'Merged provider configuration' : 'Replaced provider configuration');
   };
 
   // Handle add custom provider
@@ -113,8 +359,8 @@ export default function Settings() {
       return;
     }
 
-    if (!customUrl.startsWith('http://') && !customUrl.startsWith('https://')) {
-      toast.error('URL must start with http:// or https://');
+    if (!customUrl.startsWith('http://') && !customUrl.startsWith('https://') && !customUrl.startsWith('demo://')) {
+      toast.error('URL must start with http://, https:// or demo://');
       return;
     }
 
@@ -122,7 +368,7 @@ export default function Settings() {
     setCustomName('');
     setCustomUrl('');
     loadProviders();
-    toast.success(`Added custom provider: ${customName} for ${customNetwork}`);
+    toast.success(`Added custom provider: ${customName} for ${providerManager.getNetwork(customNetwork)?.name ?? customNetwork}`);
   };
 
   // Handle remove custom provider
@@ -132,6 +378,22 @@ export default function Settings() {
     toast.success('Removed custom provider');
   };
 
+  // Handle saving a provider's custom headers
+  const handleSaveHeaders = (id: string, headers: Record<string, string>) => {
+    providerManager.setProviderHeaders(id, headers);
+    setEditingHeadersId(null);
+    loadProviders();
+    toast.success('Saved provider headers');
+  };
+
+  // Handle saving a provider's own rate limits (empty fields follow the global setting)
+  const handleSaveRateLimit = (id: string, rateLimit: Partial<RateLimitConfig>) => {
+    providerManager.setProviderRateLimit(id, rateLimit);
+    setEditingRateLimitId(null);
+    loadProviders();
+    toast.success('Saved provider rate limits');
+  };
+
   // Handle test provider
   const handleTestProvider = async (id: string) => {
     setTestingProvider(id);
@@ -140,6 +402,8 @@ export default function Settings() {
       setHealthStatus(new Map(healthStatus.set(id, health)));
       
       if (health.isHealthy) {
+        // A passing manual test brings a tripped provider straight back
+        circuitBreakers.reset(id);
         toast.success(`Provider is healthy (${health.responseTime}ms)`);
       } else {
         toast.error(`Provider failed: ${health.error}`);
@@ -170,6 +434,7 @@ export default function Settings() {
   const handleClearAllCache = () => {
     if (confirm('Are you sure you want to clear ALL cached data? This will force a full reload of blocks and transactions.')) {
       queryClient.clear();
+      nearRpc.clearCache();
       setCacheStats({ cachedQueries: 0, cachedBlocks: 0, cachedTransactions: 0, estimatedSize: 0 });
       toast.success('All cache cleared');
     }
@@ -177,6 +442,7 @@ export default function Settings() {
 
   const handleClearBlocks = () => {
     queryClient.removeQueries({ queryKey: nearKeys.blocks() });
+    nearRpc.clearCache();
     toast.success('Block cache cleared');
   };
 
@@ -277,26 +543,289 @@ export default function Settings() {
 
           {/* Network Selector Cards */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
-            {(['localnet', 'testnet', 'mainnet'] as NetworkType[]).map((net) => (
+            {networks.map((net) => (
               <button
-                key={net}
-                onClick={() => handleNetworkChange(net)}
+                key={net.id}
+                onClick={() => handleNetworkChange(net.id)}
                 className={`p-4 rounded-lg border-2 transition-all ${
-                  network === net
+                  network === net.id
                     ? 'border-near-green bg-near-green/10'
                     : 'border-border hover:border-near-green bg-card'
                 }`}
               >
-                <div className={`font-semibold capitalize ${network === net ? 'text-near-green' : 'text-foreground'}`}>
-                  {net}
+                <div className={`flex items-center gap-2 font-semibold ${network === net.id ? 'text-near-green' : 'text-foreground'}`}>
+                  <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: net.color }} />
+                  {net.name}
                 </div>
-                <div className="text-xs text-foreground-secondary mt-1">
-                  {net === 'localnet' ? 'Local Development' : net === 'testnet' ? 'NEAR Testnet' : 'NEAR Mainnet'}
+                <div className="text-xs text-foreground-secondary mt-1 font-mono">
+                  {net.chainId ? `chain_id ${net.chainId}` : 'any chain_id'}
                 </div>
               </button>
             ))}
           </div>
 
+          {/* Network Registry */}
+          <Card className="border-border bg-card p-4">
+            <h3 className="font-semibold text-near-green mb-1">Networks</h3>
+            <p className="text-sm text-foreground-secondary mb-3">
+              Each network has its own providers and selection policy. Providers whose status reports a different chain_id are disabled
+            </p>
+            <NetworkEditor
+              networks={networks}
+              onAdd={handleAddNetwork}
+              onUpdate={handleUpdateNetwork}
+              onRemove={handleRemoveNetwork}
+            />
+          </Card>
+
+          {/* Provider Selection Policy */}
+          <Card className="border-border bg-card p-4">
+            <h3 className="font-semibold text-near-green mb-1">Provider Selection</h3>
+            <p className="text-sm text-foreground-secondary mb-3">
+              How requests on {selectedNetworkName} choose between enabled providers
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+              {Object.values(SELECTION_POLICIES).map((policy) => (
+                <button
+                  key={policy.id}
+                  onClick={() => handleSelectionPolicyChange(policy.id)}
+                  className={`p-3 rounded-lg border-2 text-left transition-all ${
+                    selectionPolicy === policy.id
+                      ? 'border-near-green bg-near-green/10'
+                      : 'border-border hover:border-near-green bg-card'
+                  }`}
+                >
+                  <div className={`text-sm font-semibold ${selectionPolicy === policy.id ? 'text-near-green' : 'text-foreground'}`}>
+                    {policy.name}
+                  </div>
+                  <div className="text-xs text-foreground-secondary mt-1">{policy.description}</div>
+                </button>
+              ))}
+            </div>
+          </Card>
+
+          {/* Circuit Breaker */}
+          <Card className="border-border bg-card p-4">
+            <h3 className="font-semibold text-near-green mb-1">Circuit Breaker</h3>
+            <p className="text-sm text-foreground-secondary mb-3">
+              Providers that keep failing are skipped for a cool-down period, then a single status probe decides whether they come back
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <label className="text-sm font-medium text-foreground">
+                Consecutive failures before skipping
+                <Input
+                  type="number"
+                  min={1}
+                  value={breakerConfig.failureThreshold}
+                  onChange={(e) => handleBreakerConfigChange('failureThreshold', e.target.value)}
+                  className="mt-1 border-border bg-background"
+                />
+              </label>
+              <label className="text-sm font-medium text-foreground">
+                Cool-down (seconds)
+                <Input
+                  type="number"
+                  min={0}
+                  value={Math.round(breakerConfig.cooldownMs / 1000)}
+                  onChange={(e) => handleBreakerConfigChange('cooldownSeconds', e.target.value)}
+                  className="mt-1 border-border bg-background"
+                />
+              </label>
+            </div>
+          </Card>
+
+          {/* Rate Limiting */}
+          <Card className="border-border bg-card p-4">
+            <h3 className="font-semibold text-near-green mb-1">Rate Limiting</h3>
+            <p className="text-sm text-foreground-secondary mb-3">
+              Requests are paced per provider; a provider that answers HTTP 429 is rested for its Retry-After while others take over
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <label className="text-sm font-medium text-foreground">
+                Requests per second (0 = unlimited)
+                <Input
+                  type="number"
+                  min={0}
+                  value={rateLimitConfig.requestsPerSecond}
+                  onChange={(e) => handleRateLimitChange('requestsPerSecond', e.target.value)}
+                  className="mt-1 border-border bg-background"
+                />
+              </label>
+              <label className="text-sm font-medium text-foreground">
+                Burst size
+                <Input
+                  type="number"
+                  min={1}
+                  value={rateLimitConfig.burst}
+                  onChange={(e) => handleRateLimitChange('burst', e.target.value)}
+                  className="mt-1 border-border bg-background"
+                />
+              </label>
+            </div>
+          </Card>
+
+          {/* Hedged Requests */}
+          <Card className="border-border bg-card p-4">
+            <div className="flex items-center justify-between mb-1">
+              <h3 className="font-semibold text-near-green">Hedged Requests</h3>
+              <label className="flex items-center gap-2 text-sm font-medium text-foreground cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={hedgingConfig.enabled}
+                  onChange={handleHedgingToggle}
+                  className="w-4 h-4 cursor-pointer accent-near-green"
+                />
+                Enabled
+              </label>
+            </div>
+            <p className="text-sm text-foreground-secondary mb-3">
+              Latency-sensitive calls (latest block, network status) are also sent to a second healthy provider when the first is slow; the first answer wins
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 items-end">
+              <label className="text-sm font-medium text-foreground">
+                Hedge delay (ms)
+                <Input
+                  type="number"
+                  min={0}
+                  value={hedgingConfig.delayMs}
+                  onChange={(e) => handleHedgingDelayChange(e.target.value)}
+                  disabled={!hedgingConfig.enabled}
+                  className="mt-1 border-border bg-background"
+                />
+              </label>
+              <div className="text-sm text-foreground-secondary">
+                Hedges fired this session: <strong className="text-foreground">{hedgeStats.fired}</strong>
+                {' · '}won: <strong className="text-foreground">{hedgeStats.won}</strong>
+              </div>
+            </div>
+          </Card>
+
+          {/* Cross-provider Verification */}
+          <Card className="border-border bg-card p-4">
+            <div className="flex items-center justify-between mb-1">
+              <h3 className="font-semibold text-near-green">Verify Mode</h3>
+              <label className="flex items-center gap-2 text-sm font-medium text-foreground cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={verificationConfig.enabled}
+                  onChange={handleVerificationToggle}
+                  className="w-4 h-4 cursor-pointer accent-near-green"
+                />
+                Enabled
+              </label>
+            </div>
+            <p className="text-sm text-foreground-secondary mb-3">
+              Block and transaction detail pages ask several providers and compare the answers - useful with untrusted community RPCs
+            </p>
+            <label className="text-sm font-medium text-foreground block md:w-1/2">
+              Providers per verified read
+              <Input
+                type="number"
+                min={2}
+                value={verificationConfig.quorum}
+                onChange={(e) => handleQuorumChange(e.target.value)}
+                disabled={!verificationConfig.enabled}
+                className="mt-1 border-border bg-background"
+              />
+            </label>
+          </Card>
+
+          {/* Background Health Monitor */}
+          <Card className="border-border bg-card p-4">
+            <div className="flex items-center justify-between mb-1">
+              <h3 className="font-semibold text-near-green">Health Monitor</h3>
+              <label className="flex items-center gap-2 text-sm font-medium text-foreground cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={healthMonitorConfig.enabled}
+                  onChange={handleHealthMonitorToggle}
+                  className="w-4 h-4 cursor-pointer accent-near-green"
+                />
+                Enabled
+              </label>
+            </div>
+            <p className="text-sm text-foreground-secondary mb-3">
+              Checks every enabled provider in the background (paused while this tab is hidden). Providers that failed their last checks are tried last
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 items-end">
+              <label className="text-sm font-medium text-foreground">
+                Check interval (seconds)
+                <Input
+                  type="number"
+                  min={5}
+                  value={healthMonitorConfig.intervalMs / 1000}
+                  onChange={(e) => handleHealthIntervalChange(e.target.value)}
+                  disabled={!healthMonitorConfig.enabled}
+                  className="mt-1 border-border bg-background"
+                />
+              </label>
+              <div>
+                <Button
+                  variant="outline"
+                  onClick={handleCheckHealthNow}
+                  disabled={checkingHealth}
+                  className="border-near-green text-near-green hover:bg-near-green hover:text-white"
+                >
+                  {checkingHealth ? 'Checking...' : 'Check now'}
+                </Button>
+              </div>
+            </div>
+          </Card>
+
+          {/* Record & Replay */}
+          <Card className="border-border bg-card p-4">
+            <h3 className="font-semibold text-near-green mb-1">Record &amp; Replay</h3>
+            <p className="text-sm text-foreground-secondary mb-3">
+              Record RPC traffic to a fixture file, then replay it with no network - for offline demos, tests and bug reproductions
+            </p>
+            <div className="flex flex-wrap items-center gap-3 mb-3">
+              <Button
+                onClick={handleRecordingToggle}
+                variant="outline"
+                className={recording ? 'border-red-500 text-red-500' : 'border-border text-foreground'}
+              >
+                {recording ? '⏹ Stop recording' : '⏺ Record'}
+              </Button>
+              <Button onClick={handleExportFixture} variant="outline" disabled={recordedCount === 0}>
+                Export fixture
+              </Button>
+              <Button onClick={() => rpcRecorder.clear()} variant="ghost" disabled={recordedCount === 0}>
+                Clear
+              </Button>
+              <span className="text-sm text-foreground-secondary">
+                Recorded: <strong className="text-foreground">{recordedCount}</strong> requests
+              </span>
+            </div>
+            {replayFixture ? (
+              <div className="flex flex-wrap items-center gap-3 rounded-lg border border-near-purple/30 bg-near-purple/5 p-3 text-sm">
+                <span className="text-foreground">
+                  Replaying <strong>{replayFixture.entries.length}</strong> recorded requests
+                  {replayFixture.network && <> on <strong>{replayFixture.network}</strong></>}
+                  {' '}(recorded {new Date(replayFixture.createdAt).toLocaleString()})
+                </span>
+                <Button onClick={() => rpcReplay.rewind()} variant="ghost">
+                  Rewind
+                </Button>
+                <Button onClick={handleRemoveFixture} variant="outline" className="border-red-500 text-red-500">
+                  Stop replay
+                </Button>
+              </div>
+            ) : (
+              <label className="text-sm font-medium text-foreground block">
+                Replay a fixture
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  onChange={(e) => {
+                    handleImportFixture(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                  className="mt-1 block text-sm text-foreground-secondary"
+                />
+              </label>
+            )}
+          </Card>
+
           {/* Current Provider Status */}
           {currentProviderInfo.provider && (
             <Card className="border-2 border-near-green/30 bg-near-green/5">
@@ -352,13 +881,16 @@ export default function Settings() {
             <div className="space-y-2">
               {providers.length === 0 ? (
                 <Card className="p-4 text-center text-foreground-secondary border-border">
-                  No providers configured for {network.toUpperCase()} network
+                  No providers configured for {selectedNetworkName}
                 </Card>
               ) : (
                 providers.map((provider, index) => {
                   const health = healthStatus.get(provider.id) || providerManager.getHealth(provider.id);
                   const isCurrent = currentProviderInfo.provider?.id === provider.id;
                   const isTesting = testingProvider === provider.id;
+                  const circuit = circuitBreakers.getStatus(provider.id);
+                  const rateLimit = rateLimiter.getStatus(provider.id);
+                  const healthSummary = healthMonitor.getSummary(provider.id);
 
                   return (
                     <Card key={provider.id} className={`p-4 border-border transition-all ${
@@ -388,14 +920,93 @@ export default function Settings() {
                                     : 'bg-red-500/20 text-red-500'
                                 }`}>
                                   {health.isHealthy 
-                                    ? `✓ ${health.responseTime}ms` 
+                                    ? `✓ ${health.responseTime}ms${health.ewmaResponseTime !== undefined ? ` (avg ${Math.round(health.ewmaResponseTime)}ms)` : ''}` 
                                     : '✗ Failed'}
                                 </span>
                               )}
+                              {health?.wrongChain && (
+                                <span className="text-xs px-2 py-0.5 rounded font-medium bg-red-500/20 text-red-500">
+                                  Wrong chain · {health.chainId}
+                                </span>
+                              )}
+                              {health?.syncing && (
+                                <span className="text-xs px-2 py-0.5 rounded font-medium bg-yellow-500/20 text-yellow-600">
+                                  Syncing
+                                </span>
+                              )}
+                              {!health?.syncing && providerManager.isLagging(provider.id) && (
+                                <span
+                                  className="text-xs px-2 py-0.5 rounded font-medium bg-yellow-500/20 text-yellow-600"
+                                  title={`At block ${health!.latestBlockHeight}`}
+                                >
+                                  {health!.blocksBehind} blocks behind
+                                </span>
+                              )}
+                              {healthSummary.down && (
+                                <span className="text-xs px-2 py-0.5 rounded font-medium bg-red-500/20 text-red-500">
+                                  Down · tried last
+                                </span>
+                              )}
+                              {circuit.state === 'open' && (
+                                <span className="text-xs px-2 py-0.5 rounded font-medium bg-red-500/20 text-red-500">
+                                  Circuit open · skipped until {new Date(circuit.retryAt!).toLocaleTimeString()}
+                                </span>
+                              )}
+                              {providerManager.isArchival(provider) && (
+                                <span className="text-xs px-2 py-0.5 rounded font-medium bg-near-purple/20 text-near-purple">
+                                  Archival{provider.archival === undefined ? ' (detected)' : ''}
+                                </span>
+                              )}
+                              {provider.headers && (
+                                <span
+                                  className="text-xs px-2 py-0.5 rounded font-medium bg-near-cyan/20 text-near-cyan"
+                                  title={Object.keys(provider.headers).join(', ')}
+                                >
+                                  🔑 {Object.keys(provider.headers).length} header{Object.keys(provider.headers).length !== 1 ? 's' : ''}
+                                </span>
+                              )}
+                              {health?.disagreements ? (
+                                <span className="text-xs px-2 py-0.5 rounded font-medium bg-yellow-500/20 text-yellow-600">
+                                  ⚠ Disagreed {health.disagreements}×
+                                </span>
+                              ) : null}
+                              {provider.rateLimit && (
+                                <span
+                                  className="text-xs px-2 py-0.5 rounded font-medium bg-near-cyan/20 text-near-cyan"
+                                  title="Own rate limit - overrides the global Rate Limiting settings"
+                                >
+                                  {providerManager.getProviderRateLimit(provider.id).requestsPerSecond || '∞'}/s
+                                </span>
+                              )}
+                              {rateLimit.blockedUntil && (
+                                <span className="text-xs px-2 py-0.5 rounded font-medium bg-yellow-500/20 text-yellow-600">
+                                  Rate limited · until {new Date(rateLimit.blockedUntil).toLocaleTimeString()}
+                                </span>
+                              )}
+                              {circuit.state === 'half-open' && (
+                                <span className="text-xs px-2 py-0.5 rounded font-medium bg-yellow-500/20 text-yellow-600">
+                                  Circuit half-open · probing
+                                </span>
+                              )}
                             </div>
                             <div className="text-sm text-foreground-secondary mt-1 font-mono">
                               {provider.url}
                             </div>
+                            {healthSummary.samples > 0 && (
+                              <div className="flex items-center gap-3 mt-1 text-xs text-foreground-secondary">
+                                <HealthSparkline samples={healthMonitor.getHistory(provider.id)} />
+                                <span>
+                                  Uptime <strong className="text-foreground">{(healthSummary.uptime * 100).toFixed(1)}%</strong>
+                                  {' '}({healthSummary.samples} checks)
+                                </span>
+                                {healthSummary.p50 !== undefined && (
+                                  <span>
+                                    p50 <strong className="text-foreground">{healthSummary.p50}ms</strong>
+                                    {' · '}p95 <strong className="text-foreground">{healthSummary.p95}ms</strong>
+                                  </span>
+                                )}
+                              </div>
+                            )}
                           </div>
                         </div>
 
@@ -422,6 +1033,40 @@ export default function Settings() {
                             </Button>
                           </div>
 
+                          {/* Archival setting */}
+                          <select
+                            value={provider.archival === undefined ? 'auto' : provider.archival ? 'archival' : 'regular'}
+                            onChange={(e) => handleArchivalChange(provider.id, e.target.value)}
+                            title="Archival providers serve old blocks that regular nodes have garbage-collected"
+                            className="h-8 rounded-md border border-border bg-background px-2 text-xs text-foreground"
+                          >
+                            <option value="auto">Auto-detect</option>
+                            <option value="archival">Archival</option>
+                            <option value="regular">Regular</option>
+                          </select>
+
+                          {/* Custom headers (API keys) */}
+                          {!provider.replay && (
+                            <Button
+                              variant="outline"
+                              onClick={() => setEditingHeadersId(editingHeadersId === provider.id ? null : provider.id)}
+                              className="border-near-cyan text-near-cyan hover:bg-near-cyan hover:text-white"
+                            >
+                              Headers
+                            </Button>
+                          )}
+
+                          {/* Rate limit override */}
+                          {!provider.replay && (
+                            <Button
+                              variant="outline"
+                              onClick={() => setEditingRateLimitId(editingRateLimitId === provider.id ? null : provider.id)}
+                              className="border-near-cyan text-near-cyan hover:bg-near-cyan hover:text-white"
+                            >
+                              Limits
+                            </Button>
+                          )}
+
                           {/* Test button */}
                           <Button
                             variant="outline"
@@ -446,6 +1091,22 @@ export default function Settings() {
                           )}
                         </div>
                       </div>
+
+                      {editingHeadersId === provider.id && (
+                        <ProviderHeadersEditor
+                          headers={provider.headers}
+                          onSave={(headers) => handleSaveHeaders(provider.id, headers)}
+                          onCancel={() => setEditingHeadersId(null)}
+                        />
+                      )}
+                      {editingRateLimitId === provider.id && (
+                        <ProviderRateLimitEditor
+                          rateLimit={provider.rateLimit}
+                          defaults={rateLimitConfig}
+                          onSave={(rateLimit) => handleSaveRateLimit(provider.id, rateLimit)}
+                          onCancel={() => setEditingRateLimitId(null)}
+                        />
+                      )}
                     </Card>
                   );
                 })
@@ -461,17 +1122,17 @@ export default function Settings() {
             <div className="mb-4">
               <label className="text-sm font-medium text-foreground mb-2 block">Select Network for Custom Provider</label>
               <div className="grid grid-cols-3 gap-2">
-                {(['localnet', 'testnet', 'mainnet'] as NetworkType[]).map((net) => (
+                {networks.map((net) => (
                   <button
-                    key={net}
-                    onClick={() => setCustomNetwork(net)}
+                    key={net.id}
+                    onClick={() => setCustomNetwork(net.id)}
                     className={`p-2 rounded-lg border-2 transition-all text-sm ${
-                      customNetwork === net
+                      customNetwork === net.id
                         ? 'border-near-cyan bg-near-cyan/20 text-near-cyan font-semibold'
                         : 'border-border hover:border-near-cyan bg-card text-foreground'
                     }`}
                   >
-                    {net.charAt(0).toUpperCase() + net.slice(1)}
+                    {net.name}
                   </button>
                 ))}
               </div>
@@ -497,6 +1158,69 @@ export default function Settings() {
                 Add
               </Button>
             </div>
+            {/^https?:\/\/./.test(customUrl.trim()) && rpcProxy.usesProxy(customUrl.trim()) && (
+              <p className="text-xs text-foreground-secondary mt-2">
+                Requests to this URL go through the local CORS proxy, which only forwards to endpoints it knows.
+                Start it with <code className="font-mono">NEAR_RPC_TARGETS={customUrl.trim()} npm run proxy</code> (comma-separate several URLs).
+              </p>
+            )}
+          </Card>
+
+          {/* Share Configuration */}
+          <Card className="border-border bg-card p-4">
+            <h3 className="font-semibold text-near-green mb-1">Share Configuration</h3>
+            <p className="text-sm text-foreground-secondary mb-3">
+              Export providers, priorities, enabled flags, selection policies and failover settings of every network as a JSON file, or import a teammate's
+            </p>
+            <div className="flex flex-wrap items-center gap-3">
+              <Button onClick={handleExportConfig} variant="outline">
+                Export configuration
+              </Button>
+              <label className="text-sm font-medium text-foreground">
+                Import
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  onChange={(e) => {
+                    handleConfigFile(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                  className="ml-2 text-sm text-foreground-secondary"
+                />
+              </label>
+            </div>
+
+            {pendingConfig && (
+              <div className="mt-4 rounded-lg border border-near-cyan/30 bg-near-cyan/5 p-3 text-sm">
+                <div className="font-medium text-foreground mb-2">
+                  {pendingConfig.changes.length === 0
+                    ? 'This file matches the current configuration'
+                    : `Importing changes ${pendingConfig.changes.length} item(s):`}
+                </div>
+                <ul className="space-y-1 mb-3 max-h-64 overflow-y-auto">
+                  {pendingConfig.changes.map((change, idx) => (
+                    <li key={idx} className="font-mono text-xs">
+                      <span className={CHANGE_STYLES[change.type]}>
+                        {change.type === 'added' ? '+' : change.type === 'removed' ? '−' : '~'} {change.subject}
+                      </span>
+                      {change.detail && <span className="text-foreground-secondary"> {change.detail}</span>}
+                      {change.type === 'removed' && <span className="text-foreground-secondary"> (kept when merging)</span>}
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex gap-2">
+                  <Button onClick={() => handleApplyConfig('merge')} className="bg-near-green hover:bg-near-cyan text-white">
+                    Merge
+                  </Button>
+                  <Button onClick={() => handleApplyConfig('replace')} variant="outline" className="border-red-500 text-red-500">
+                    Replace
+                  </Button>
+                  <Button onClick={() => setPendingConfig(null)} variant="ghost">
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            )}
           </Card>
 
           {/* Action Buttons */}
@@ -514,11 +1238,13 @@ export default function Settings() {
           <Card className="border-2 border-near-purple/30 bg-near-purple/5 p-4">
             <h3 className="font-semibold text-near-purple mb-3">About Failover</h3>
             <ul className="text-sm space-y-2 text-foreground-secondary">
-              <li>• You are currently using the <strong className="text-near-green">{network.toUpperCase()}</strong> network</li>
+              <li>• You are currently using the <strong className="text-near-green">{selectedNetworkName}</strong></li>
               <li>• Only providers for this network are shown above</li>
-              <li>• Enabled providers are automatically tried in priority order</li>
+              <li>• Enabled providers are tried in the order chosen by the selection policy ({SELECTION_POLICIES[selectionPolicy].name})</li>
               <li>• Each provider is retried 3 times with exponential backoff (100ms, 300ms, 900ms)</li>
               <li>• Failover only occurs on network/connection errors, not RPC errors</li>
+              <li>• Old blocks and transactions that a regular node has pruned are fetched from an archival provider</li>
+              <li>• After {breakerConfig.failureThreshold} consecutive failures a provider is skipped for {Math.round(breakerConfig.cooldownMs / 1000)}s</li>
               <li>• Use ↑↓ buttons to adjust provider priority</li>
               <li>• At least one provider must be enabled for the explorer to work</li>
             </ul>
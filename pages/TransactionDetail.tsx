@@ -2,17 +2,101 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import Layout from "@/components/Layout";
 import { nearRpc, Transaction } from "@/lib/nearRpcFailover";
-import { useEffect, useState } from "react";
-import { Link, useParams } from "wouter";
+import { ReactNode, useEffect, useRef, useState } from "react";
+import { Link, useParams, useSearch } from "wouter";
 import { useQueryClient } from "@tanstack/react-query";
-import { nearKeys } from "@/lib/nearQueries";
+import { nearKeys, useTransactionTracker } from "@/lib/nearQueries";
+import { AllProvidersFailedError, InvalidResponseError, NearRpcError, isNotSyncedError } from "@/lib/rpcErrors";
+import { isAbortError } from "@/lib/abortSignals";
+import { readSubjects } from "@/lib/rpcVerification";
+import VerificationBanner from "@/components/VerificationBanner";
+import NearAmount from "@/components/NearAmount";
+import TransactionStageTimeline from "@/components/TransactionStageTimeline";
+import { formatGas } from "@/lib/nearUnits";
+import { DEFAULT_SEARCH_WINDOW, TransactionSearchProgress } from "@/lib/transactionSearch";
+import {
+  Action,
+  ExecutionOutcomeWithId,
+  FinalExecutionOutcome,
+  TxStatusResult,
+  getActionKind,
+  isKnownAction,
+  hasExecutionOutcome,
+  isSuccessStatus,
+} from "@/lib/nearRpcTypes";
+
+// Heading shown above the error details, chosen by error type
+function getErrorTitle(err: unknown): string {
+  if (err instanceof AllProvidersFailedError) return "RPC Unavailable";
+  if (err instanceof InvalidResponseError) return "Invalid RPC Response";
+  if (isNotSyncedError(err)) return "Node Not Synced";
+  return "Transaction Not Found";
+}
+
+// The page shows the execution outcome, which the default wait_until stage always includes
+function requireOutcome(result: TxStatusResult): FinalExecutionOutcome {
+  if (!hasExecutionOutcome(result)) {
+    throw new Error(`Transaction has not been executed yet (${result.final_execution_status})`);
+  }
+  return result;
+}
+
+// Block search windows offered on the page (number of recent blocks)
+const SEARCH_WINDOWS = [100, 500, 1000, 5000, 10000];
+
+function formatDuration(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function SearchWindowSelect({ value, onChange }: { value: number; onChange: (value: number) => void }) {
+  return (
+    <label className="inline-flex items-center gap-2 text-sm text-muted-foreground">
+      Search the last
+      <select
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="h-9 rounded-md border border-border bg-background px-2 text-sm text-foreground"
+      >
+        {SEARCH_WINDOWS.map((blocks) => (
+          <option key={blocks} value={blocks}>
+            {blocks.toLocaleString()}
+          </option>
+        ))}
+      </select>
+      blocks
+    </label>
+  );
+}
+
+// One executed receipt: id, executor, result and gas
+function ReceiptRow({ receipt }: { receipt: ExecutionOutcomeWithId }) {
+  const { status, executor_id, gas_burnt } = receipt.outcome;
+  const failed = typeof status !== "string" && "Failure" in status;
+  const label = status === "Unknown" ? "Pending" : failed ? "Failed" : "Success";
+  return (
+    <div className="flex items-center justify-between gap-4 border-b border-border pb-2 last:border-b-0 last:pb-0 text-sm">
+      <span className="font-mono text-xs text-muted-foreground truncate" title={receipt.id}>
+        {receipt.id.substring(0, 12)}...
+      </span>
+      <span className="font-mono text-foreground truncate">{executor_id}</span>
+      <span className={failed ? "text-red-500" : status === "Unknown" ? "text-muted-foreground" : "text-near-green"}>
+        {label}
+      </span>
+      <span className="font-mono text-xs text-muted-foreground" title={`${gas_burnt.toLocaleString()} gas`}>
+        {formatGas(gas_burnt)}
+      </span>
+    </div>
+  );
+}
 
 // ActionCard component for displaying individual action details
 function ActionCard({ action, idx, actionType, actionDetails }: { 
-  action: any; 
+  action: Action; 
   idx: number; 
   actionType: string; 
-  actionDetails: string;
+  actionDetails: ReactNode;
 }) {
   const [isExpanded, setIsExpanded] = useState(false);
   
@@ -56,15 +140,45 @@ function ActionCard({ action, idx, actionType, actionDetails }: {
 export default function TransactionDetail() {
   const params = useParams();
   const txHash = params.hash;
-  const [transaction, setTransaction] = useState<any | null>(null);
+  // Sender account, e.g. /tx/<hash>?sender=alice.test.near right after sending -
+  // the transaction is tracked live instead of searched for
+  const sender = new URLSearchParams(useSearch()).get("sender") ?? undefined;
+  const [fetchedTransaction, setFetchedTransaction] = useState<FinalExecutionOutcome | null>(null);
+  const [tracking, setTracking] = useState(!!sender);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  const [searchWindow, setSearchWindow] = useState(DEFAULT_SEARCH_WINDOW);
+  const [progress, setProgress] = useState<TransactionSearchProgress | null>(null);
+  const [cancelled, setCancelled] = useState(false);
+  // Bumped by "Search again" to restart the lookup
+  const [attempt, setAttempt] = useState(0);
+  const controllerRef = useRef<AbortController | null>(null);
   const queryClient = useQueryClient();
 
+  const tracker = useTransactionTracker(txHash ?? "", fetchedTransaction?.transaction.signer_id ?? sender ?? "", {
+    enabled: tracking,
+  });
+  // Live results replace the fetched one as stages and receipts come in
+  const transaction = tracker.outcome ?? fetchedTransaction;
+
   useEffect(() => {
+    // Cancel the lookup (including a long block scan) when navigating away
+    const controller = new AbortController();
+    const { signal } = controller;
+    controllerRef.current = controller;
+
+    const showResult = (txData: TxStatusResult) => {
+      const outcome = requireOutcome(txData);
+      setFetchedTransaction(outcome);
+      // Still settling (e.g. just sent on localnet) - follow it until it is final
+      if (outcome.final_execution_status && outcome.final_execution_status !== "FINAL") {
+        setTracking(true);
+      }
+    };
+
     const fetchTransaction = async () => {
       if (!txHash) {
-        setError("No transaction hash provided");
+        setError(new Error("No transaction hash provided"));
         setLoading(false);
         return;
       }
@@ -72,6 +186,16 @@ export default function TransactionDetail() {
       try {
         setLoading(true);
         setError(null);
+        setProgress(null);
+        setCancelled(false);
+        setFetchedTransaction(null);
+        setTracking(!!sender);
+
+        if (sender) {
+          // The tracker follows it from here, even before it is in a block
+          setLoading(false);
+          return;
+        }
         
         // OPTIMIZATION: First check TanStack Query cache for this transaction
         // This is faster than searching through blocks and works for older transactions
@@ -82,11 +206,12 @@ export default function TransactionDetail() {
           console.log(`[TxDetail] Found transaction in cache with signer_id: ${cachedTx.signer_id}`);
           // We have the transaction from cache with signer_id, fetch full details
           try {
-            const txData = await nearRpc.getTransactionByHash(txHash, cachedTx.signer_id);
-            setTransaction(txData);
+            const txData = await nearRpc.getTransactionByHash(txHash, cachedTx.signer_id, { signal, verify: true });
+            showResult(txData);
             setLoading(false);
             return;
           } catch (cacheErr) {
+            if (isAbortError(cacheErr)) throw cacheErr;
             // Cache hit but fetch failed, fall through to block search
             console.warn('[TxDetail] Cache hit but fetch failed, trying block search:', cacheErr);
           }
@@ -94,15 +219,25 @@ export default function TransactionDetail() {
         
         // Not in cache or cache fetch failed, try block search
         try {
-          const txData = await nearRpc.getTransactionByHash(txHash);
-          setTransaction(txData);
+          const txData = await nearRpc.getTransactionByHash(
+            txHash,
+            undefined,
+            { signal, verify: true },
+            { windowBlocks: searchWindow, onProgress: setProgress }
+          );
+          showResult(txData);
           setLoading(false);
           return;
         } catch (txError) {
+          // Provider failures are not "not found" - don't bother trying the hash as a block
+          if (isAbortError(txError) || txError instanceof AllProvidersFailedError || isNotSyncedError(txError)) {
+            throw txError;
+          }
+          
           // If not found as transaction, maybe it's actually a block hash
           // Try to fetch as block instead
           try {
-            await nearRpc.getBlock(txHash);
+            await nearRpc.getBlock(txHash, { signal });
             // It was a block hash! Redirect to block view
             window.location.href = `/block/${txHash}`;
             return;
@@ -112,23 +247,81 @@ export default function TransactionDetail() {
           }
         }
       } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : "Failed to fetch transaction";
-        setError(errorMessage);
+        // Aborted because the page was left - nothing to show
+        if (signal.aborted) return;
+        setError(err instanceof Error ? err : new Error("Failed to fetch transaction"));
         setLoading(false);
       }
     };
 
     fetchTransaction();
-  }, [txHash, queryClient]);
+
+    return () => controller.abort();
+  }, [txHash, sender, queryClient, searchWindow, attempt]);
+
+  // Stop the block scan but stay on the page
+  const cancelSearch = () => {
+    controllerRef.current?.abort();
+    setCancelled(true);
+    setLoading(false);
+  };
+
+  const searchAgain = () => setAttempt((n) => n + 1);
 
   if (loading) {
+    const percent = progress ? Math.round((progress.scannedBlocks / progress.totalBlocks) * 100) : 0;
     return (
       <Layout>
         <div className="flex items-center justify-center min-h-[400px]">
-          <div className="space-y-3 text-center">
+          <div className="space-y-3 text-center w-full max-w-md">
             <div className="text-lg text-foreground">Searching for transaction...</div>
-            <div className="text-sm text-muted-foreground">
-              Checking cache and recent blocks for transaction hash
+            {progress ? (
+              <>
+                <div className="h-2 rounded-full bg-muted overflow-hidden">
+                  <div className="h-full bg-near-green transition-all" style={{ width: `${percent}%` }} />
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  Scanned {progress.scannedBlocks.toLocaleString()} of {progress.totalBlocks.toLocaleString()} blocks
+                  {" · "}at #{progress.currentHeight.toLocaleString()}
+                  {progress.estimatedRemainingMs !== undefined && (
+                    <> · ~{formatDuration(progress.estimatedRemainingMs)} left</>
+                  )}
+                </div>
+              </>
+            ) : (
+              <div className="text-sm text-muted-foreground">
+                Checking cache and recent blocks for transaction hash
+              </div>
+            )}
+            <div className="flex items-center justify-center gap-3 pt-2">
+              <SearchWindowSelect value={searchWindow} onChange={setSearchWindow} />
+              <Button variant="outline" onClick={cancelSearch}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (cancelled) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="space-y-3 text-center">
+            <div className="text-lg text-foreground">Search cancelled</div>
+            {progress && (
+              <div className="text-sm text-muted-foreground">
+                Scanned {progress.scannedBlocks.toLocaleString()} of {progress.totalBlocks.toLocaleString()} blocks
+                down to #{progress.currentHeight.toLocaleString()}
+              </div>
+            )}
+            <div className="flex items-center justify-center gap-3 pt-2">
+              <SearchWindowSelect value={searchWindow} onChange={setSearchWindow} />
+              <Button onClick={searchAgain}>
+                Search again
+              </Button>
             </div>
           </div>
         </div>
@@ -146,13 +339,18 @@ export default function TransactionDetail() {
                 ← Back to Home
               </Button>
             </Link>
-            <h2 className="text-2xl font-bold text-near-cyan">Transaction Not Found</h2>
+            <h2 className="text-2xl font-bold text-near-cyan">{getErrorTitle(error)}</h2>
           </div>
           
           <Card className="border-destructive/50 bg-destructive/10">
             <CardContent className="pt-6">
               <div className="space-y-3">
-                <p className="text-destructive font-medium">Error: {error}</p>
+                <p className="text-destructive font-medium">
+                  Error: {error instanceof Error ? error.message : String(error)}
+                </p>
+                {error instanceof NearRpcError && error.causeName && (
+                  <p className="text-xs text-muted-foreground font-mono">RPC error: {error.causeName}</p>
+                )}
                 <div className="text-sm text-foreground-secondary">
                   <p className="font-semibold mb-2">Transaction hash:</p>
                   <code className="block bg-background p-2 rounded border border-border font-mono text-xs break-all">
@@ -162,15 +360,21 @@ export default function TransactionDetail() {
                 <div className="text-sm text-muted-foreground mt-4">
                   <p className="font-semibold mb-1">Possible reasons:</p>
                   <ul className="list-disc list-inside space-y-1">
-                    <li>The transaction is not in cache or the last 1000 blocks</li>
+                    <li>The transaction is not in cache or the last {searchWindow.toLocaleString()} blocks</li>
                     <li>The transaction hash is invalid</li>
                     <li>The transaction is on a different network (check your network settings)</li>
                     <li>There was a network error connecting to the RPC</li>
                   </ul>
                   <p className="mt-3 text-xs">
                     <strong>Tip:</strong> Visit the /transactions page first to load recent transactions into cache, 
-                    then they'll be searchable even after 1000+ blocks.
+                    then they'll be searchable even after they fall out of the search window.
                   </p>
+                  <div className="flex items-center gap-3 mt-4">
+                    <SearchWindowSelect value={searchWindow} onChange={setSearchWindow} />
+                    <Button variant="outline" onClick={searchAgain}>
+                      Search again
+                    </Button>
+                  </div>
                 </div>
               </div>
             </CardContent>
@@ -180,7 +384,42 @@ export default function TransactionDetail() {
     );
   }
 
+  const trackingCard = tracking && (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">Live Status</CardTitle>
+          <Button variant="ghost" onClick={() => setTracking(false)} className="text-xs">
+            Stop tracking
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <TransactionStageTimeline stage={tracker.stage} reachedAt={tracker.reachedAt} startedAt={tracker.startedAt} />
+        {!tracker.stage && !tracker.error && (
+          <div className="text-sm text-muted-foreground">Waiting for the node to receive the transaction...</div>
+        )}
+        {tracker.error && (
+          <div className="text-sm text-destructive">Tracking stopped: {tracker.error.message}</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+
   if (!transaction) {
+    if (tracking) {
+      // Nothing has executed yet - only the stages can be shown
+      return (
+        <Layout>
+          <div className="space-y-6">
+            <h2 className="text-2xl font-bold text-near-cyan">Transaction Details</h2>
+            <div className="font-mono text-sm break-all text-foreground">{txHash}</div>
+            {trackingCard}
+          </div>
+        </Layout>
+      );
+    }
+
     return (
       <Layout>
         <div className="flex items-center justify-center min-h-[400px]">
@@ -191,30 +430,27 @@ export default function TransactionDetail() {
   }
 
   // Helper to get action type
-  const getActionType = (action: any): string => {
-    const actionKeys = Object.keys(action);
-    if (actionKeys.length === 0) return 'Unknown';
-    
-    const actionType = actionKeys[0];
-    return actionType
+  const getActionType = (action: Action): string => {
+    return getActionKind(action)
       .replace(/([A-Z])/g, ' $1')
       .replace(/^./, str => str.toUpperCase())
       .trim();
   };
 
   // Helper to format action details
-  const formatActionDetails = (action: any): string => {
-    const actionKeys = Object.keys(action);
-    if (actionKeys.length === 0) return '';
-    
-    const actionType = actionKeys[0];
-    const actionData = action[actionType];
+  const formatActionDetails = (action: Action): ReactNode => {
+    if (typeof action === 'string' || !isKnownAction(action)) return '';
     
-    if (actionType === 'Transfer') {
-      const amount = nearRpc.formatNear(actionData.deposit || '0');
-      return `${amount} NEAR`;
-    } else if (actionType === 'FunctionCall') {
-      return `${actionData.method_name}()`;
+    if ('Transfer' in action) {
+      return <NearAmount yocto={action.Transfer.deposit || '0'} />;
+    } else if ('FunctionCall' in action) {
+      const { method_name, gas, deposit } = action.FunctionCall;
+      return (
+        <>
+          {method_name}() · <span title={`${gas.toLocaleString()} gas`}>{formatGas(gas)}</span>
+          {deposit !== '0' && <> · <NearAmount yocto={deposit} /></>}
+        </>
+      );
     }
     
     return '';
@@ -226,30 +462,30 @@ export default function TransactionDetail() {
     // Could add a toast notification here
   };
 
-  const receipt = transaction.receipts_outcome?.[0] || {};
-  const status = transaction.status;
-  const isSuccessful = status?.SuccessValue !== undefined || status?.SuccessReceiptId !== undefined;
+  const receipt = transaction.receipts_outcome[0];
+  const isSuccessful = isSuccessStatus(transaction.status);
 
   // Calculate total transferred value
-  const getTotalTransferred = (): string => {
-    if (!transaction.transaction?.actions) return '0';
-    
-    let total = BigInt(0);
+  const getTotalTransferred = (): bigint => {
+    let total = 0n;
     for (const action of transaction.transaction.actions) {
-      if (action.Transfer) {
+      if (typeof action !== 'string' && isKnownAction(action) && 'Transfer' in action) {
         total += BigInt(action.Transfer.deposit || '0');
       }
     }
     
-    return nearRpc.formatNear(total.toString());
+    return total;
   };
 
   // Get gas information
   const gasInfo = {
-    burnt: receipt.outcome?.gas_burnt || 0,
+    burnt: receipt?.outcome.gas_burnt || 0,
     price: transaction.transaction_outcome?.outcome?.gas_burnt || 0,
   };
 
+  // Set by the client when an archival provider answered
+  const archivalSource = nearRpc.getArchivalSource(readSubjects.transaction(txHash!));
+
   return (
     <Layout>
       <div className="space-y-6">
@@ -260,8 +496,25 @@ export default function TransactionDetail() {
             </Button>
           </Link>
           <h2 className="text-2xl font-bold text-near-cyan">Transaction Details</h2>
+          {!tracking && transaction.final_execution_status !== "FINAL" && (
+            <Button variant="outline" onClick={() => setTracking(true)} className="text-xs">
+              Track live
+            </Button>
+          )}
+          {archivalSource && (
+            <span
+              className="text-xs px-2 py-1 rounded font-medium bg-near-purple/20 text-near-purple"
+              title="This transaction was served by an archival RPC provider"
+            >
+              Archival data · {archivalSource.providerName}
+            </span>
+          )}
         </div>
 
+        <VerificationBanner subject={readSubjects.transaction(txHash!)} />
+
+        {trackingCard}
+
         {/* Status Badge - Enhanced */}
         <Card className={`border-2 ${isSuccessful ? 'border-near-green bg-near-green/5' : 'border-red-500 bg-red-500/5'}`}>
           <CardContent className="pt-6">
@@ -366,7 +619,7 @@ export default function TransactionDetail() {
             <div className="flex items-center justify-between border-b border-border pb-4">
               <div className="text-sm font-semibold text-muted-foreground">Value:</div>
               <div className="font-mono text-lg font-bold text-near-cyan">
-                {getTotalTransferred()} NEAR
+                <NearAmount yocto={getTotalTransferred()} />
               </div>
             </div>
 
@@ -374,8 +627,8 @@ export default function TransactionDetail() {
             {gasInfo.burnt > 0 && (
               <div className="flex items-center justify-between border-b border-border pb-4">
                 <div className="text-sm font-semibold text-muted-foreground">Gas Used:</div>
-                <div className="font-mono text-sm text-foreground">
-                  {gasInfo.burnt.toLocaleString()}
+                <div className="font-mono text-sm text-foreground" title={`${gasInfo.burnt.toLocaleString()} gas`}>
+                  {formatGas(gasInfo.burnt)}
                 </div>
               </div>
             )}
@@ -402,7 +655,7 @@ export default function TransactionDetail() {
             </CardHeader>
             <CardContent>
               <div className="space-y-3">
-                {transaction.transaction.actions.map((action: any, idx: number) => {
+                {transaction.transaction.actions.map((action, idx) => {
                   const actionType = getActionType(action);
                   const actionDetails = formatActionDetails(action);
                   
@@ -422,7 +675,7 @@ export default function TransactionDetail() {
         )}
 
         {/* Receipt Outcome - Enhanced */}
-        {receipt.outcome && (
+        {receipt && (
           <Card className="border-border bg-card">
             <CardHeader>
               <CardTitle className="text-lg">Receipt Outcome</CardTitle>
@@ -431,10 +684,18 @@ export default function TransactionDetail() {
               <div className="space-y-4">
                 <div className="flex items-center justify-between border-b border-border pb-4">
                   <div className="text-sm font-semibold text-muted-foreground">Gas Burnt:</div>
-                  <div className="font-mono text-sm font-semibold text-foreground">
-                    {receipt.outcome.gas_burnt?.toLocaleString() || 'N/A'}
+                  <div
+                    className="font-mono text-sm font-semibold text-foreground"
+                    title={`${receipt.outcome.gas_burnt.toLocaleString()} gas`}
+                  >
+                    {formatGas(receipt.outcome.gas_burnt)}
                   </div>
                 </div>
+
+                <div className="flex items-center justify-between border-b border-border pb-4">
+                  <div className="text-sm font-semibold text-muted-foreground">Tokens Burnt:</div>
+                  <NearAmount yocto={receipt.outcome.tokens_burnt} className="font-mono text-sm text-foreground" />
+                </div>
                 
                 {receipt.outcome.logs && receipt.outcome.logs.length > 0 && (
                   <div>
@@ -459,6 +720,22 @@ export default function TransactionDetail() {
           </Card>
         )}
 
+        {/* All receipts - grows while the transaction is tracked */}
+        {transaction.receipts_outcome.length > 0 && (
+          <Card className="border-border bg-card">
+            <CardHeader>
+              <CardTitle className="text-lg">Receipts ({transaction.receipts_outcome.length})</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {transaction.receipts_outcome.map((receiptOutcome) => (
+                  <ReceiptRow key={receiptOutcome.id} receipt={receiptOutcome} />
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Raw Transaction Data - Collapsible */}
         <Card className="border-border bg-card">
           <CardHeader 
@@ -4,12 +4,15 @@ import { Input } from "@/components/ui/input";
 import Layout from "@/components/Layout";
 import TransactionInspector from "@/components/TransactionInspector";
 import { Transaction } from "@/lib/nearRpcFailover";
-import { useEffect, useState, useCallback } from "react";
+import { ReactNode, useEffect, useState, useCallback } from "react";
 import { Link } from "wouter";
 import { useLatestBlock } from "@/lib/nearQueries";
 import { nearRpc } from "@/lib/nearRpcFailover";
 import { useQueryClient } from "@tanstack/react-query";
 import { nearKeys } from "@/lib/nearQueries";
+import { Action, getActionKind, isKnownAction } from "@/lib/nearRpcTypes";
+import { formatGas } from "@/lib/nearUnits";
+import NearAmount from "@/components/NearAmount";
 
 export default function TransactionList() {
   // UI state - kept local
@@ -33,43 +36,33 @@ export default function TransactionList() {
   const error = latestError;
 
   // Helper function to get a readable action type
-  const getActionType = (action: any): string => {
-    const actionKeys = Object.keys(action);
-    if (actionKeys.length === 0) return "Unknown";
-
-    const actionType = actionKeys[0];
-    return actionType
+  const getActionType = (action: Action): string => {
+    return getActionKind(action)
       .replace(/([A-Z])/g, " $1")
       .replace(/^./, (str) => str.toUpperCase())
       .trim();
   };
 
   // Helper function to format action details
-  const formatActionDetails = (action: any): string => {
-    const actionKeys = Object.keys(action);
-    if (actionKeys.length === 0) return "";
-
-    const actionType = actionKeys[0];
-    const actionData = action[actionType];
-
-    if (actionType === "Transfer") {
-      const amount = nearRpc.formatNear(actionData.deposit || "0");
-      return `${amount} NEAR`;
-    } else if (actionType === "FunctionCall") {
-      return `${actionData.method_name}()`;
-    } else if (actionType === "CreateAccount") {
+  const formatActionDetails = (action: Action): ReactNode => {
+    if (!isKnownAction(action)) {
+      return "";
+    } else if (action === "CreateAccount") {
       return "New account";
-    } else if (actionType === "AddKey") {
+    } else if ("Transfer" in action) {
+      return <NearAmount yocto={action.Transfer.deposit || "0"} />;
+    } else if ("FunctionCall" in action) {
+      return `${action.FunctionCall.method_name}() · ${formatGas(action.FunctionCall.gas)}`;
+    } else if ("AddKey" in action) {
       return "Add access key";
-    } else if (actionType === "DeleteKey") {
+    } else if ("DeleteKey" in action) {
       return "Delete access key";
-    } else if (actionType === "DeployContract") {
+    } else if ("DeployContract" in action) {
       return "Deploy contract";
-    } else if (actionType === "Stake") {
-      const amount = nearRpc.formatNear(actionData.stake || "0");
-      return `Stake ${amount} NEAR`;
-    } else if (actionType === "DeleteAccount") {
-      return `Delete account → ${actionData.beneficiary_id || ""}`;
+    } else if ("Stake" in action) {
+      return <>Stake <NearAmount yocto={action.Stake.stake || "0"} /></>;
+    } else if ("DeleteAccount" in action) {
+      return `Delete account → ${action.DeleteAccount.beneficiary_id || ""}`;
     }
 
     return "";
@@ -98,12 +91,11 @@ export default function TransactionList() {
         console.log('[TransactionList] Using RPC URL:', currentRpcUrl);
       }
 
-      // Fetch blocks sequentially (similar to blocks page) to avoid overwhelming RPC
-      // Process each block immediately after fetching to reduce memory usage
+      // Fetch blocks in small groups - requests issued together are sent to the
+      // provider as a single JSON-RPC batch, so a group costs one round trip
       const newTransactions: Transaction[] = [];
       
-      // Fetch blocks sequentially to avoid overwhelming RPC server
-      const CONCURRENT_LIMIT = 1; // Process only 1 block at a time
+      const CONCURRENT_LIMIT = 10; // Blocks per batch request
       for (let i = to; i >= from; i -= CONCURRENT_LIMIT) {
         const batchStart = Math.max(i - CONCURRENT_LIMIT + 1, from);
         const batchEnd = i;
@@ -116,16 +108,12 @@ export default function TransactionList() {
         
         const batchBlocks = await Promise.all(blockPromises);
         
-        // Extract transactions from each block in the batch
-        for (const block of batchBlocks) {
-          const blockTransactions = await nearRpc.getTransactionsFromBlock(block);
-          newTransactions.push(...blockTransactions);
-        }
-        
-        // Longer delay between batches to be very gentle on the RPC server
-        if (batchStart > from) {
-          await new Promise(resolve => setTimeout(resolve, 200));
-        }
+        // Extract transactions from each block in the batch (chunks of all blocks are batched too)
+        const batchTransactions = await Promise.all(
+          batchBlocks.map(block => nearRpc.getTransactionsFromBlock(block))
+        );
+        batchTransactions.forEach(blockTransactions => newTransactions.push(...blockTransactions));
+        // No delay between groups - the client's per-provider rate limiter paces requests
       }
 
       // Only log when transactions are found (reduce verbosity)
@@ -191,11 +179,6 @@ export default function TransactionList() {
       try {
         await fetchAndMergeTransactions(batchStart, batchEnd);
         successCount++;
-        
-        // Longer delay between batches to avoid overwhelming RPC server
-        if (batchEnd < to) {
-          await new Promise(resolve => setTimeout(resolve, 500));
-        }
       } catch (err) {
         // Aggregate errors by message
         const errorMsg = err instanceof Error ? err.message : String(err);
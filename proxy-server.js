@@ -15,6 +15,18 @@
  *   node proxy-server.js
  *   PROXY_PORT=9001 node proxy-server.js
  *   node proxy-server.js 3001
+ *
+ * Upstream targets:
+ *   - The client names the RPC endpoint in X-Target-URL. Only NEAR_RPC_URL, the
+ *     built-in public providers and the URLs in NEAR_RPC_TARGETS (comma-separated)
+ *     are proxied; requests without X-Target-URL go to NEAR_RPC_URL
+ *
+ * Upstream headers (API keys):
+ *   - Headers sent as X-Rpc-Header-<Name> are forwarded as <Name>, only to the
+ *     endpoint named in X-Target-URL
+ *   - NEAR_RPC_HEADERS='{"https://rpc.example.com":{"x-api-key":"..."}}' adds
+ *     headers per endpoint (headers sent by the client win). Its endpoints are
+ *     allowed targets too
  */
 
 import http from 'http';
@@ -24,15 +36,71 @@ import { URL } from 'url';
 // Port precedence: env var > CLI arg > default
 const PORT = process.env.PROXY_PORT || process.argv[2] || 3001;
 
-// Target NEAR node (can be localnet, testnet, or mainnet)
+// Default NEAR node (can be localnet, testnet, or mainnet)
 const NEAR_RPC_URL = process.env.NEAR_RPC_URL || 'http://54.90.246.254:3030';
+
+// Public providers built into the explorer (keep in sync with FALLBACK_PROVIDERS in lib/providerManager.ts)
+const BUILT_IN_TARGETS = [
+  'https://rpc.mainnet.near.org',
+  'https://free.rpc.fastnear.com',
+  'https://rpc.mainnet.pagoda.co',
+  'https://mainnet.aurora.dev',
+  'https://near.lava.build',
+  'https://archival-rpc.mainnet.near.org',
+  'https://rpc.testnet.near.org',
+  'https://test.rpc.fastnear.com',
+  'https://rpc.testnet.pagoda.co',
+  'https://archival-rpc.testnet.near.org',
+];
 const TIMEOUT_MS = 30000; // 30 second timeout
 
+// Provider headers arrive with this prefix (see lib/rpcProxy.ts)
+const FORWARDED_HEADER_PREFIX = 'x-rpc-header-';
+
+// Header names whose values are never logged
+const SECRET_HEADER_PATTERN = /auth|key|token|secret|password/i;
+
+// Compare URLs without a trailing slash or letter case differences in the host
+function normalizeUrl(value) {
+  try {
+    return new URL(value).href.replace(/\/$/, '');
+  } catch {
+    return null;
+  }
+}
+
+// Headers per target URL, keyed by the normalized URL
+function loadEnvHeaders() {
+  if (!process.env.NEAR_RPC_HEADERS) return new Map();
+  try {
+    const parsed = JSON.parse(process.env.NEAR_RPC_HEADERS);
+    return new Map(
+      Object.entries(parsed)
+        .filter(([target, headers]) => normalizeUrl(target) && headers && typeof headers === 'object')
+        .map(([target, headers]) => [normalizeUrl(target), headers])
+    );
+  } catch (error) {
+    console.error(`Ignoring NEAR_RPC_HEADERS: ${error.message}`);
+    return new Map();
+  }
+}
+
+const ENV_HEADERS = loadEnvHeaders();
+
+const ALLOWED_TARGETS = new Set(
+  [NEAR_RPC_URL, ...BUILT_IN_TARGETS, ...ENV_HEADERS.keys(), ...(process.env.NEAR_RPC_TARGETS || '').split(',')]
+    .map(target => target.trim())
+    .filter(Boolean)
+    .map(normalizeUrl)
+    .filter(Boolean)
+);
+
 // CORS headers
 const CORS_HEADERS = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
   'Access-Control-Allow-Headers': 'Content-Type, X-Target-URL',
+  'Access-Control-Expose-Headers': 'Retry-After',
   'Access-Control-Max-Age': '86400', // 24 hours
 };
 
@@ -43,14 +111,33 @@ function logRequest(method, targetUrl, statusCode, duration) {
   console.log(`${timestamp} ${color}${statusCode}${reset} ${method} ${targetUrl} (${duration}ms)`);
 }
 
+function maskHeaders(headers) {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name, SECRET_HEADER_PATTERN.test(name) ? '***' : value])
+  );
+}
+
+// Provider headers sent by the client, without the prefix
+function forwardedHeaders(headers) {
+  return Object.fromEntries(
+    Object.entries(headers)
+      .filter(([name]) => name.startsWith(FORWARDED_HEADER_PREFIX))
+      .map(([name, value]) => [name.slice(FORWARDED_HEADER_PREFIX.length), value])
+  );
+}
+
 function handleRequest(req, res) {
   console.log(`\n📥 Incoming: ${req.method} ${req.url}`);
-  console.log(`   Headers:`, JSON.stringify(req.headers, null, 2));
+  console.log(`   Headers:`, JSON.stringify(maskHeaders(req.headers), null, 2));
   
-  // Handle OPTIONS preflight request
+  // Handle OPTIONS preflight request - allow the provider headers the client asks for
   if (req.method === 'OPTIONS') {
     console.log(`   ✅ CORS preflight OK`);
-    res.writeHead(204, CORS_HEADERS);
+    const requested = req.headers['access-control-request-headers'];
+    res.writeHead(204, {
+      ...CORS_HEADERS,
+      ...(requested && { 'Access-Control-Allow-Headers': `${CORS_HEADERS['Access-Control-Allow-Headers']}, ${requested}` }),
+    });
     res.end();
     return;
   }
@@ -63,11 +150,19 @@ function handleRequest(req, res) {
     return;
   }
 
-  // Use configured NEAR RPC URL (no need for X-Target-URL header)
-  const targetUrl = NEAR_RPC_URL;
-  console.log(`   🎯 Target: ${targetUrl}`);
+  // The endpoint the client asked for, if the proxy may reach it - otherwise the configured NEAR RPC URL
+  const requestedTarget = req.headers['x-target-url'];
+  const targetUrl = requestedTarget ? normalizeUrl(requestedTarget) : NEAR_RPC_URL;
+  console.log(`   🎯 Target: ${targetUrl ?? requestedTarget}`);
+
+  if (requestedTarget && !ALLOWED_TARGETS.has(targetUrl)) {
+    console.log(`   ❌ Target not allowed: ${requestedTarget}`);
+    res.writeHead(403, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: `Target not allowed: ${requestedTarget}. Add it to NEAR_RPC_TARGETS.` }));
+    return;
+  }
 
-  // Parse the configured URL
+  // Parse the target URL
   let url;
   try {
     url = new URL(targetUrl);
@@ -78,6 +173,12 @@ function handleRequest(req, res) {
     return;
   }
 
+  // Provider credentials go only to the provider the client named, never to the default upstream
+  const providerHeaders = {
+    ...ENV_HEADERS.get(normalizeUrl(targetUrl)),
+    ...(requestedTarget ? forwardedHeaders(req.headers) : {}),
+  };
+
   const startTime = Date.now();
 
   // Read request body
@@ -96,6 +197,7 @@ function handleRequest(req, res) {
       {
         method: 'POST',
         headers: {
+          ...providerHeaders,
           'Content-Type': 'application/json',
           'Content-Length': Buffer.byteLength(body),
           'User-Agent': 'NEAR-Explorer-Proxy/1.0',
@@ -106,10 +208,11 @@ function handleRequest(req, res) {
         const duration = Date.now() - startTime;
         logRequest('POST', targetUrl, proxyRes.statusCode, duration);
 
-        // Forward response
+        // Forward response (including Retry-After so the client can honor HTTP 429)
         res.writeHead(proxyRes.statusCode, {
           ...CORS_HEADERS,
           'Content-Type': proxyRes.headers['content-type'] || 'application/json',
+          ...(proxyRes.headers['retry-after'] && { 'Retry-After': proxyRes.headers['retry-after'] }),
         });
 
         proxyRes.pipe(res);
@@ -179,6 +282,10 @@ server.listen(PORT, () => {
   console.log('');
   console.log('\x1b[32m%s\x1b[0m', `✓ Listening on: http://localhost:${PORT}`);
   console.log('\x1b[33m%s\x1b[0m', `🎯 Proxying to: ${NEAR_RPC_URL}`);
+  console.log('\x1b[33m%s\x1b[0m', `🔒 Allowed targets: ${ALLOWED_TARGETS.size} (add more with NEAR_RPC_TARGETS)`);
+  if (ENV_HEADERS.size > 0) {
+    console.log('\x1b[33m%s\x1b[0m', `🔑 Upstream headers for: ${[...ENV_HEADERS.keys()].join(', ')}`);
+  }
   console.log('\x1b[33m%s\x1b[0m', '⚡ Ready to handle CORS-enabled RPC requests');
   console.log('');
   console.log('Usage:');